@@ -0,0 +1,45 @@
+/**
+ * Dependencies published only as ES modules (and the ES module dependencies of those), jest
+ * runs CommonJS so they are compiled along with the sources
+ */
+const esmPackages = [
+  'chalk',
+  'boxen',
+  'camelcase',
+  'string-width',
+  'get-east-asian-width',
+  'strip-ansi',
+  'ansi-regex',
+  'widest-line',
+  'wrap-ansi',
+  'ansi-styles',
+  'figures',
+  'is-unicode-supported',
+  'ora',
+  'cli-cursor',
+  'restore-cursor',
+  'onetime',
+  'mimic-function',
+  'is-interactive',
+  'log-symbols',
+  'stdin-discarder',
+  'pretty-ms',
+  'parse-ms',
+  'pretty-bytes',
+];
+
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.(t|j)s$': [
+      '@swc/jest',
+      { jsc: { target: 'es2022', parser: { syntax: 'typescript' } }, module: { type: 'commonjs' } },
+    ],
+  },
+  // pnpm keeps packages under node_modules/.pnpm/<name>@<version>/node_modules/<name>
+  transformIgnorePatterns: [`/node_modules/(?!\\.pnpm/|(?:${esmPackages.join('|')})/)`],
+  setupFiles: ['<rootDir>/jest.setup.js'],
+};
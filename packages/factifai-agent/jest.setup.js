@@ -0,0 +1,7 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Configuration, secrets and the response cache live under the home folder, keep the
+// user's own out of the tests
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'factifai-test-home-'));
@@ -1,10 +1,54 @@
 #!/usr/bin/env node
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
-import { executeBrowserTask, displayFactifaiLogo } from "./index";
+import path from "path";
+import { resumeBrowserTask, displayFactifaiLogo } from "./index";
 import dotenv from "dotenv";
 import { ConfigManager } from "./common/utils/config-manager";
 import {SecretManager} from "./common/utils/secret-manager";
+import {
+  discoverTestFiles,
+  loadTestCases,
+  type TestCaseDefinition,
+} from "./core/loaders/test-case-loader";
+import { expandTestCases, loadTestData } from "./core/loaders/test-data-loader";
+import { runTestSuite } from "./core/runners/suite-runner";
+import { runRepeated } from "./core/runners/repeat-runner";
+import { lintTestCases } from "./core/runners/lint-runner";
+import { planTestCase } from "./core/runners/plan-runner";
+import { executeWithFixtures } from "./core/runners/fixture-runner";
+import { DEFAULT_FIXTURES_DIR } from "./core/loaders/fixture-loader";
+import { isFeatureFile } from "./core/loaders/feature-loader";
+import { readTestTags } from "./core/loaders/test-spec-loader";
+import {
+  describeSelection,
+  hasSelection,
+  selectTestCases,
+  type TestSelection,
+} from "./core/loaders/test-selection";
+import { replaySession } from "./core/runners/replay-runner";
+import { FileCheckpointSaver } from "./core/graph/file-checkpoint-saver";
+import { promptForIntervention } from "./core/nodes/intervention/intervention-prompt";
+import type { RunBudget } from "./core/models/usage-tracker";
+import {
+  clearResponseCache,
+  isResponseCacheEnabled,
+  RESPONSE_CACHE_DIR,
+} from "./core/models/response-cache";
+import {
+  getMissingEnvVars,
+  getModelName,
+  getModelProvider,
+  getModelRouting,
+  isModelProvider,
+  MODEL_PROVIDERS,
+  MODEL_ROLES,
+  REQUIRED_ENV_VARS,
+  validateModelRouting,
+  type ModelProvider,
+  type ModelRole,
+  type ModelRouting,
+} from "./core/models/models";
 
 // Initialize configuration
 ConfigManager.initialize();
@@ -75,10 +119,302 @@ function validateEnvironmentVariables(): { valid: boolean; message?: string } {
     }
   }
 
+  else if (
+    modelProvider === "anthropic" ||
+    modelProvider === "gemini" ||
+    modelProvider === "openai-compatible" ||
+    modelProvider === "fake"
+  ) {
+    const missingEnvVars = getMissingEnvVars(modelProvider);
+
+    if (missingEnvVars.length > 0) {
+      return {
+        valid: false,
+        message: `The following environment variables are required when using the ${modelProvider} model: ${missingEnvVars.join(", ")}. Please set these environment variables.`,
+      };
+    }
+  }
+  else if (modelProvider && !isModelProvider(modelProvider)) {
+    return {
+      valid: false,
+      message: `Unsupported model provider: ${modelProvider}. Use one of: ${MODEL_PROVIDERS.join(", ")}.`,
+    };
+  }
+
   // All required environment variables are set
   return { valid: true };
 }
 
+/**
+ * Print the commands that set the credentials of a model provider
+ * @param provider The model provider
+ */
+function printCredentialHelp(provider: string): void {
+  if (!isModelProvider(provider)) {
+    return;
+  }
+
+  const settings: Record<ModelProvider, Array<[string, string]>> = {
+    openai: [["OPENAI_API_KEY", "your-api-key"]],
+    "azure-openai": [
+      ["AZURE_OPENAI_API_KEY", "your-api-key"],
+      ["AZURE_OPENAI_API_INSTANCE_NAME", "your-instance-name"],
+      ["AZURE_OPENAI_API_DEPLOYMENT_NAME", "your-deployment-name"],
+      ["AZURE_OPENAI_API_VERSION", "your-api-version"],
+    ],
+    bedrock: [
+      ["AWS_ACCESS_KEY_ID", "your-access-key"],
+      ["AWS_SECRET_ACCESS_KEY", "your-secret-key"],
+      ["AWS_DEFAULT_REGION", "your-region"],
+      ["AWS_SESSION_TOKEN", "your-session-token #Optional: only needed for temporary credentials"],
+    ],
+    anthropic: [["ANTHROPIC_API_KEY", "your-api-key"]],
+    gemini: [["GOOGLE_API_KEY", "your-api-key"]],
+    "openai-compatible": [
+      ["OPENAI_COMPATIBLE_BASE_URL", "http://localhost:11434/v1"],
+      ["OPENAI_COMPATIBLE_MODEL", "your-model"],
+      ["OPENAI_COMPATIBLE_API_KEY", "your-api-key #Optional: only if the endpoint requires a key"],
+    ],
+    fake: [["FAKE_MODEL_SCRIPT", "./model-script.yaml"]],
+  };
+
+  console.log(`\nYou can set the ${provider} credentials with:`);
+  settings[provider].forEach(([key, example]) => {
+    console.log(`  factifai-agent config --set ${key}=${example}`);
+  });
+
+  // Keys can be kept out of the plain configuration file
+  const [secretKey] = settings[provider].find(([key]) => /KEY|SECRET/.test(key)) || [];
+  if (secretKey) {
+    console.log("Or store the key as a secret:");
+    console.log(`  factifai-agent secret --set ${secretKey}=your-key`);
+  }
+}
+
+/**
+ * Describe where a credential is set, without showing its value
+ * @param key The environment variable of the credential
+ * @param provider The model provider that needs it, marked as required when it is the current one
+ */
+function credentialStatus(key: string, provider: ModelProvider | null): string {
+  if (SecretManager.has(key)) {
+    return "******** (Set in secrets)";
+  }
+  if (ConfigManager.get(key)) {
+    return "******** (Set in config)";
+  }
+  if (process.env[key]) {
+    return "******** (Set in environment)";
+  }
+  return "Not set" + (provider && process.env.MODEL_PROVIDER === provider ? " - Required!" : "");
+}
+
+/**
+ * Describe the provider, model and output token limit the calls of a role use
+ * @param role The model role
+ * @param routing The configured routes of the roles
+ */
+function describeModelRoute(role: ModelRole, routing: ModelRouting): string {
+  const route = routing[role];
+  const provider = route?.provider ?? getModelProvider();
+  if (!provider) {
+    return "Not set";
+  }
+
+  const model = route?.model ?? getModelName(provider);
+  return (
+    `${provider} / ${model || "Not set"}` +
+    (route?.maxTokens ? `, max ${route.maxTokens} tokens` : "") +
+    (route ? "" : " (default)")
+  );
+}
+
+/**
+ * Apply the model provider from the CLI option and validate its credentials.
+ * Exits the process if the provider is missing or misconfigured.
+ * @param model Model provider passed with --model, if any
+ * @param cache Whether responses may be served from the response cache, false for --no-cache
+ */
+function prepareModelProvider(model?: string, cache = true): void {
+  // Set the model provider from CLI option
+  if (model) {
+    process.env.MODEL_PROVIDER = model;
+    console.log(`Using model provider: ${model}`);
+  }
+
+  if (!cache) {
+    process.env.RESPONSE_CACHE = "false";
+  }
+
+  // Check if model provider is specified
+  if (!process.env.MODEL_PROVIDER) {
+    console.error(
+      "Error: No model provider specified. Please use --model option or set MODEL_PROVIDER environment variable."
+    );
+    process.exit(1);
+  }
+
+  // Validate required environment variables based on the selected model provider
+  const validationResult = validateEnvironmentVariables();
+  if (!validationResult.valid) {
+    console.error("\n❌ Configuration Error:");
+    console.error(validationResult.message);
+    console.error(
+      "\nPlease check your environment variables or use the appropriate CLI options."
+    );
+    process.exit(1);
+  }
+
+  // Validate the providers the model roles are routed to
+  const routingProblems = validateModelRouting();
+  if (routingProblems.length > 0) {
+    console.error("\n❌ Configuration Error:");
+    routingProblems.forEach((problem) => console.error(problem));
+    console.error("\nPlease check the MODEL_ROUTING setting and the credentials of its providers.");
+    process.exit(1);
+  }
+
+  // Print current provider and model information
+  console.log("\n📋 Execution Configuration:");
+  console.log(`- Provider: ${process.env.MODEL_PROVIDER}`);
+  if (process.env.MODEL_PROVIDER === "openai") {
+    console.log(`- Model: ${process.env.OPENAI_MODEL || "gpt-4.1"}`);
+  } else if (process.env.MODEL_PROVIDER === "azure-openai") {
+    console.log(`- Model: ${process.env.AZURE_OPENAI_MODEL || "gpt-4.1"}`);
+  }
+  else if (process.env.MODEL_PROVIDER === "bedrock") {
+    console.log(
+      `- Model: ${
+        process.env.BEDROCK_MODEL ||
+        "us.anthropic.claude-3-7-sonnet-20250219-v1:0"
+      }`
+    );
+  } else if (isModelProvider(process.env.MODEL_PROVIDER)) {
+    console.log(`- Model: ${getModelName(process.env.MODEL_PROVIDER)}`);
+    if (process.env.MODEL_PROVIDER === "openai-compatible") {
+      console.log(`- Base URL: ${process.env.OPENAI_COMPATIBLE_BASE_URL}`);
+    } else if (process.env.MODEL_PROVIDER === "fake") {
+      console.log(`- Script: ${process.env.FAKE_MODEL_SCRIPT}`);
+    }
+  }
+
+  // Roles routed to their own provider, model or token limit
+  const routing = getModelRouting();
+  MODEL_ROLES.filter((role) => routing[role]).forEach((role) => {
+    console.log(`- ${role} model: ${describeModelRoute(role, routing)}`);
+  });
+  console.log(`- Response cache: ${isResponseCacheEnabled() ? "on" : "off"}`);
+}
+
+/**
+ * Resolve report options from CLI flags and persistent config, and print them
+ * @param argv Parsed CLI arguments
+ * @returns The resolved report options
+ */
+function resolveReportOptions(argv: Record<string, unknown>): {
+  reportFormat: string;
+  skipReport: boolean;
+  skipAnalysis: boolean;
+  skipPlaywright: boolean;
+} {
+  const reportFormat = argv['report-format'] as string ||
+                     ConfigManager.get('REPORT_FORMAT') ||
+                     'both';
+  const skipReport = argv['skip-report'] as boolean;
+  const skipAnalysis = argv['skip-analysis'] as boolean ||
+                      ConfigManager.get('SKIP_ANALYSIS') === 'true';
+  const skipPlaywright = argv['skip-playwright'] as boolean ||
+                        ConfigManager.get('SKIP_PLAYWRIGHT') === 'true';
+
+  if (skipReport) {
+    console.log(`- Report Generation: Disabled (--skip-report)`);
+  } else {
+    console.log(`- Report Format: ${reportFormat}`);
+  }
+
+  if (skipAnalysis) {
+    console.log(`- Test Analysis: Disabled (--skip-analysis)`);
+  } else {
+    console.log(`- Test Analysis: Enabled`);
+  }
+
+  if (skipPlaywright) {
+    console.log(`- Playwright Script Generation: Disabled (--skip-playwright)`);
+  } else {
+    console.log(`- Playwright Script Generation: Enabled`);
+  }
+
+  console.log(""); // Empty line for better readability
+
+  return { reportFormat, skipReport, skipAnalysis, skipPlaywright };
+}
+
+/**
+ * Validate the run budget flags
+ * @param argv Parsed CLI arguments
+ * @throws Error if a budget flag is not a positive number
+ */
+function validateBudgetOptions(argv: Record<string, unknown>): void {
+  for (const flag of ["max-duration", "max-llm-calls", "max-tokens"]) {
+    const value = argv[flag];
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new Error(`--${flag} must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Resolve the run budget from CLI flags, and print it
+ * @param argv Parsed CLI arguments
+ * @returns The run budget, or undefined when no limit is set
+ */
+function resolveRunBudget(argv: Record<string, unknown>): RunBudget | undefined {
+  const maxDuration = argv['max-duration'] as number | undefined;
+  const maxLlmCalls = argv['max-llm-calls'] as number | undefined;
+  const maxTokens = argv['max-tokens'] as number | undefined;
+
+  if (maxDuration === undefined && maxLlmCalls === undefined && maxTokens === undefined) {
+    return undefined;
+  }
+
+  const limits = [
+    maxDuration !== undefined && `${maxDuration}s`,
+    maxLlmCalls !== undefined && `${maxLlmCalls} LLM calls`,
+    maxTokens !== undefined && `${maxTokens} tokens`,
+  ].filter(Boolean);
+  console.log(`- Run Budget: ${limits.join(", ")}`);
+  console.log(""); // Empty line for better readability
+
+  return {
+    maxDurationMs: maxDuration !== undefined ? maxDuration * 1000 : undefined,
+    maxLlmCalls,
+    maxTokens,
+  };
+}
+
+/**
+ * Expand test cases with the rows of a --data file, exiting with a message if the data cannot be used
+ * @param testCases The test cases to expand
+ * @param dataFile The CSV or JSON data file
+ * @returns One test case per row for test cases with placeholders
+ */
+function expandWithDataFile(
+  testCases: TestCaseDefinition[],
+  dataFile: string
+): TestCaseDefinition[] {
+  try {
+    const rows = loadTestData(dataFile);
+    const expanded = expandTestCases(testCases, rows);
+    console.log(`Loaded ${rows.length} data row(s) from: ${dataFile}`);
+    return expanded;
+  } catch (error) {
+    console.error(
+      `Error loading data: ${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
+}
+
 // Create a flag to track if the app is in the process of shutting down
 let shuttingDown = false;
 
@@ -142,11 +478,19 @@ const cli = yargs(hideBin(process.argv))
   .option("model", {
     alias: "m",
     type: "string",
-    describe: "Model provider to use (openai or bedrock)",
-    choices: ["openai", "bedrock", "azure-openai"],
+    describe: "Model provider to use",
+    choices: [...MODEL_PROVIDERS],
+  })
+  .option("cache", {
+    type: "boolean",
+    default: true,
+    describe:
+      "Reuse cached responses of the instruction cleanup, rating, parsing, report analysis and script generation calls, --no-cache always calls the model",
   })
   .example('$0 run "Navigate to duckduckgo.com"', "Run with direct instruction")
   .example("$0 run --file ./tests/my-test.txt", "Run from a file")
+  .example("$0 run-suite ./tests", "Run a directory of test case files")
+  .example("$0 resume --session my-session", "Resume an interrupted run")
   .example(
     '$0 run --model openai "Navigate to duckduckgo.com"',
     "Run with OpenAI model"
@@ -172,6 +516,16 @@ const cli = yargs(hideBin(process.argv))
           type: "string",
           describe: "Path to a file containing test instructions",
         })
+        .option("data", {
+          alias: "d",
+          type: "string",
+          describe: "CSV or JSON data file; runs the test once per row, filling its {{placeholders}}",
+        })
+        .option("fixtures-dir", {
+          type: "string",
+          describe: "Folder with the fixtures referenced by @use and @teardown",
+          default: DEFAULT_FIXTURES_DIR,
+        })
         .option("skip-report", {
           type: "boolean",
           describe: "Skip all report generation",
@@ -192,6 +546,33 @@ const cli = yargs(hideBin(process.argv))
           describe: "Skip Playwright script generation",
           default: false
         })
+        .option("interactive", {
+          alias: "i",
+          type: "boolean",
+          describe: "Pause for operator input when a step fails all retries",
+          default: false
+        })
+        .option("step-by-step", {
+          type: "boolean",
+          describe: "Execute and verify one parsed step at a time against its expected result",
+          default: false
+        })
+        .option("repeat", {
+          type: "number",
+          describe: "Run the test this many times in fresh sessions and write a stability report",
+        })
+        .option("max-duration", {
+          type: "number",
+          describe: "Stop gracefully after this many seconds of wall-clock time",
+        })
+        .option("max-llm-calls", {
+          type: "number",
+          describe: "Stop gracefully after this many LLM calls",
+        })
+        .option("max-tokens", {
+          type: "number",
+          describe: "Stop gracefully after this many LLM tokens (input and output)",
+        })
         .example(
           '$0 run "Check if google.com loads"',
           "Run with inline instruction"
@@ -204,6 +585,34 @@ const cli = yargs(hideBin(process.argv))
           "$0 run -f ./tests/checkout.txt -s my-session",
           "Run from file with custom session"
         )
+        .example(
+          "$0 run -f ./tests/checkout.txt --interactive",
+          "Ask for a hint, skip or manual pass when a step keeps failing"
+        )
+        .example(
+          "$0 run -f ./tests/login.txt --data ./tests/users.csv",
+          "Run the login test once per user, filling {{placeholders}} from each row"
+        )
+        .example(
+          "$0 run -f ./features/login.feature",
+          "Run every scenario of a Gherkin feature, reported under the feature name"
+        )
+        .example(
+          "$0 run -f ./tests/orders.txt --fixtures-dir ./tests/fixtures",
+          "Run @use and @teardown fixtures from a custom folder around the test"
+        )
+        .example(
+          "$0 run -f ./tests/checkout.txt --step-by-step",
+          "Pass or fail each step on its own expected result and stop at the first failing step"
+        )
+        .example(
+          "$0 run -f ./tests/checkout.txt --max-duration 300 --max-llm-calls 50",
+          "Stop after five minutes or 50 LLM calls and report the unfinished steps as skipped"
+        )
+        .example(
+          "$0 run -f ./tests/checkout.txt --repeat 5",
+          "Run the test five times and report which steps are flaky"
+        )
         .check((argv) => {
           // Ensure either instruction or file is provided
           if (!argv.instruction && !argv.file) {
@@ -211,6 +620,22 @@ const cli = yargs(hideBin(process.argv))
               "You must provide either an instruction or a file path"
             );
           }
+          if (argv.interactive && (argv.data || (argv.file && isFeatureFile(argv.file)))) {
+            throw new Error(
+              "--interactive cannot be combined with --data or a feature file, their rows and scenarios run as separate test cases"
+            );
+          }
+          if (argv.repeat !== undefined) {
+            if (!Number.isInteger(argv.repeat) || (argv.repeat as number) < 2) {
+              throw new Error("--repeat must be an integer of at least 2");
+            }
+            if (argv.data || argv.interactive || (argv.file && isFeatureFile(argv.file))) {
+              throw new Error(
+                "--repeat runs a single test case, it cannot be combined with --data, --interactive or a feature file"
+              );
+            }
+          }
+          validateBudgetOptions(argv);
           return true;
         });
     },
@@ -224,7 +649,8 @@ const cli = yargs(hideBin(process.argv))
       if (argv.file) {
         try {
           const fs = require("fs");
-          instruction = fs.readFileSync(argv.file, "utf8");
+          // The front matter holds the tags of the test, it is not part of the instruction
+          instruction = readTestTags(fs.readFileSync(argv.file, "utf8")).instruction;
           console.log(`Running task with instructions from file: ${argv.file}`);
         } catch (error) {
           console.error(
@@ -240,94 +666,122 @@ const cli = yargs(hideBin(process.argv))
         console.log(`Running task with instruction provided on command line`);
       }
 
-      // Set the model provider from CLI option
-      if (argv.model) {
-        process.env.MODEL_PROVIDER = argv.model as string;
-        console.log(`Using model provider: ${argv.model}`);
-      }
-
       console.log(`Session ID: ${argv.session}`);
 
-      // Check if model provider is specified
-      if (!process.env.MODEL_PROVIDER && !argv.model) {
-        console.error(
-          "Error: No model provider specified. Please use --model option or set MODEL_PROVIDER environment variable."
-        );
-        process.exit(1);
-      }
+      // Set and validate the model provider, then show report configuration
+      prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+      const { reportFormat, skipReport, skipAnalysis, skipPlaywright } =
+        resolveReportOptions(argv);
+      const budget = resolveRunBudget(argv);
+
+      // With a data file every row runs as its own test case, and a feature file every
+      // scenario, reported together as a suite
+      const featureFile = argv.file && isFeatureFile(argv.file);
+      if (argv.data || featureFile) {
+        let name = argv.file
+          ? path.basename(argv.file, path.extname(argv.file))
+          : "test";
+        let testCases: TestCaseDefinition[];
+
+        if (featureFile) {
+          try {
+            testCases = loadTestCases([path.resolve(argv.file as string)]);
+            name = testCases[0].feature || name;
+            console.log(`Loaded ${testCases.length} scenario(s) of feature: ${name}`);
+          } catch (error) {
+            console.error(
+              `Error loading feature: ${error instanceof Error ? error.message : String(error)}`
+            );
+            process.exit(1);
+          }
+        } else {
+          testCases = [
+            {
+              id: name.toLowerCase().replace(/[^a-z0-9-_]+/g, "-"),
+              name,
+              filePath: argv.file ? path.resolve(argv.file) : "",
+              instruction,
+            },
+          ];
+        }
 
-      // Validate required environment variables based on the selected model provider
-      const validationResult = validateEnvironmentVariables();
-      if (!validationResult.valid) {
-        console.error("\n❌ Configuration Error:");
-        console.error(validationResult.message);
-        console.error(
-          "\nPlease check your environment variables or use the appropriate CLI options."
-        );
-        process.exit(1);
-      }
+        if (argv.data) {
+          testCases = expandWithDataFile(testCases, argv.data);
+        }
 
-      // Print current provider and model information
-      console.log("\n📋 Execution Configuration:");
-      console.log(`- Provider: ${process.env.MODEL_PROVIDER}`);
-      if (process.env.MODEL_PROVIDER === "openai") {
-        console.log(`- Model: ${process.env.OPENAI_MODEL || "gpt-4.1"}`);
-      } else if (process.env.MODEL_PROVIDER === "azure-openai") {
-        console.log(`- Model: ${process.env.AZURE_OPENAI_MODEL || "gpt-4.1"}`);
-      }
-      else if (process.env.MODEL_PROVIDER === "bedrock") {
-        console.log(
-          `- Model: ${
-            process.env.BEDROCK_MODEL ||
-            "us.anthropic.claude-3-7-sonnet-20250219-v1:0"
-          }`
-        );
-      }
-      
-      // Show report configuration
-      const reportFormat = argv['report-format'] as string ||
-                         ConfigManager.get('REPORT_FORMAT') ||
-                         'both';
-      const skipReport = argv['skip-report'] as boolean;
-      const skipAnalysis = argv['skip-analysis'] as boolean ||
-                          ConfigManager.get('SKIP_ANALYSIS') === 'true';
-      const skipPlaywright = argv['skip-playwright'] as boolean ||
-                            ConfigManager.get('SKIP_PLAYWRIGHT') === 'true';
-
-      if (skipReport) {
-        console.log(`- Report Generation: Disabled (--skip-report)`);
-      } else {
-        console.log(`- Report Format: ${reportFormat}`);
-      }
+        try {
+          const result = await runTestSuite(testCases, {
+            suiteId: argv.session as string,
+            suiteName: name,
+            noReport: skipReport,
+            reportFormat,
+            skipAnalysis,
+            skipPlaywright,
+            budget,
+            stepByStep: argv.stepByStep as boolean,
+            fixturesDir: argv.fixturesDir as string,
+          });
+
+          const unit = featureFile ? "scenarios" : "data rows";
+          if (result.success) {
+            console.log(`\n✅ All ${result.total} ${unit} passed!`);
+          } else {
+            console.error(`\n❌ ${result.failed} of ${result.total} ${unit} failed`);
+          }
 
-      if (skipAnalysis) {
-        console.log(`- Test Analysis: Disabled (--skip-analysis)`);
-      } else {
-        console.log(`- Test Analysis: Enabled`);
+          process.exit(result.success ? 0 : 1);
+        } catch (error) {
+          console.error(`Error executing ${featureFile ? "feature" : "data-driven task"}:`, error);
+          process.exit(1);
+        }
       }
 
-      if (skipPlaywright) {
-        console.log(`- Playwright Script Generation: Disabled (--skip-playwright)`);
-      } else {
-        console.log(`- Playwright Script Generation: Enabled`);
-      }
+      // Every repeated run is a regular run, a stability report compares them afterwards
+      if (argv.repeat) {
+        try {
+          const result = await runRepeated(instruction, argv.session as string, {
+            repeat: argv.repeat as number,
+            name: argv.file ? path.basename(argv.file, path.extname(argv.file)) : undefined,
+            noReport: skipReport,
+            reportFormat,
+            skipAnalysis,
+            skipPlaywright,
+            budget,
+            stepByStep: argv.stepByStep as boolean,
+            fixturesDir: argv.fixturesDir as string,
+            sourcePath: argv.file as string | undefined,
+          });
+
+          if (result.success) {
+            console.log(`\n✅ All ${result.report.runs} runs passed!`);
+          } else {
+            console.error(
+              `\n❌ ${result.report.runs - result.report.passedRuns} of ${result.report.runs} runs failed`
+            );
+          }
 
-      console.log(""); // Empty line for better readability
+          process.exit(result.success ? 0 : 1);
+        } catch (error) {
+          console.error("Error executing repeated runs:", error);
+          process.exit(1);
+        }
+      }
 
       try {
-        // Get report format from CLI flag or config
-        const reportFormat = argv['report-format'] as string ||
-                           ConfigManager.get('REPORT_FORMAT') ||
-                           'both';
-
-        const result = await executeBrowserTask(
+        const result = await executeWithFixtures(
           instruction,
           argv.session as string,
           {
-            noReport: argv['skip-report'] as boolean,
+            noReport: skipReport,
             reportFormat: reportFormat,
             skipAnalysis: skipAnalysis,
-            skipPlaywright: skipPlaywright
+            skipPlaywright: skipPlaywright,
+            interactive: argv.interactive as boolean,
+            onIntervention: promptForIntervention,
+            budget,
+            stepByStep: argv.stepByStep as boolean,
+            fixturesDir: argv.fixturesDir as string,
+            sourcePath: argv.file as string | undefined,
           }
         );
 
@@ -335,6 +789,9 @@ const cli = yargs(hideBin(process.argv))
           console.log("\n✅ Task completed successfully!");
         } else {
           console.error("\n❌ Task failed:", result.error);
+          console.log(
+            `Resume from the last passed step with: factifai-agent resume --session ${argv.session}`
+          );
         }
 
         process.exit(result.success ? 0 : 1);
@@ -346,6 +803,10 @@ const cli = yargs(hideBin(process.argv))
         if (
           errorMessage.includes("OPENAI_API_KEY is required") ||
           errorMessage.includes("AWS credentials are required") ||
+          errorMessage.includes("API_KEY is required") ||
+          errorMessage.includes("FAKE_MODEL_SCRIPT is required") ||
+          errorMessage.includes("environment variables are required") ||
+          errorMessage.includes("Unsupported model provider") ||
           errorMessage.includes("No model provider specified")
         ) {
           console.error("\n❌ Configuration Error:");
@@ -361,6 +822,554 @@ const cli = yargs(hideBin(process.argv))
       }
     }
   )
+  .command(
+    "resume",
+    "Resume an interrupted run from its last checkpoint",
+    (yargs) => {
+      return yargs
+        .option("session", {
+          alias: "s",
+          type: "string",
+          describe: "Session ID of the run to resume",
+          demandOption: true,
+        })
+        .option("skip-report", {
+          type: "boolean",
+          describe: "Skip all report generation",
+          default: false
+        })
+        .option("report-format", {
+          type: "string",
+          describe: "Report format to generate (html, xml, both)",
+          choices: ["html", "xml", "both"],
+        })
+        .option("skip-analysis", {
+          type: "boolean",
+          describe: "Skip test case quality analysis and suggestions",
+          default: false
+        })
+        .option("skip-playwright", {
+          type: "boolean",
+          describe: "Skip Playwright script generation",
+          default: false
+        })
+        .option("interactive", {
+          alias: "i",
+          type: "boolean",
+          describe: "Pause for operator input when a step fails all retries",
+          default: false
+        })
+        .option("step-by-step", {
+          type: "boolean",
+          describe: "Execute and verify one parsed step at a time against its expected result",
+          default: false
+        })
+        .option("max-duration", {
+          type: "number",
+          describe: "Stop gracefully after this many seconds of wall-clock time",
+        })
+        .option("max-llm-calls", {
+          type: "number",
+          describe: "Stop gracefully after this many LLM calls",
+        })
+        .option("max-tokens", {
+          type: "number",
+          describe: "Stop gracefully after this many LLM tokens (input and output)",
+        })
+        .example(
+          "$0 resume --session factifai-session-1715000000000",
+          "Continue an interrupted run from the first step that has not passed"
+        )
+        .check((argv) => {
+          validateBudgetOptions(argv);
+          return true;
+        });
+    },
+    async (argv) => {
+      // Display logo
+      displayFactifaiLogo();
+
+      const sessionId = argv.session as string;
+      if (!FileCheckpointSaver.hasCheckpoints(sessionId)) {
+        console.error(`No checkpoints found for session: ${sessionId}`);
+        process.exit(1);
+      }
+
+      console.log(`Resuming session: ${sessionId}`);
+
+      // Set and validate the model provider, then show report configuration
+      prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+      const { reportFormat, skipReport, skipAnalysis, skipPlaywright } =
+        resolveReportOptions(argv);
+      const budget = resolveRunBudget(argv);
+
+      try {
+        const result = await resumeBrowserTask(sessionId, {
+          noReport: skipReport,
+          reportFormat,
+          skipAnalysis,
+          skipPlaywright,
+          interactive: argv.interactive as boolean,
+          onIntervention: promptForIntervention,
+          budget,
+          stepByStep: argv.stepByStep as boolean,
+        });
+
+        if (result.success) {
+          console.log("\n✅ Task completed successfully!");
+        } else {
+          console.error("\n❌ Task failed:", result.error);
+        }
+
+        process.exit(result.success ? 0 : 1);
+      } catch (error) {
+        console.error("Error resuming task:", error);
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    "replay",
+    "Replay the recorded actions of a session without the model, healing steps whose elements changed",
+    (yargs) => {
+      return yargs
+        .option("session", {
+          alias: "s",
+          type: "string",
+          describe: "Session ID of the recorded run to replay",
+          demandOption: true,
+        })
+        .option("replay-session", {
+          type: "string",
+          describe: "Session ID for the replay run (default: <session>-replay-<timestamp>)",
+        })
+        .option("heal", {
+          type: "boolean",
+          describe: "Re-run a step with the model when its recorded element cannot be found (disable with --no-heal)",
+          default: true,
+        })
+        .option("skip-report", {
+          type: "boolean",
+          describe: "Skip all report generation",
+          default: false
+        })
+        .option("report-format", {
+          type: "string",
+          describe: "Report format to generate (html, xml, both)",
+          choices: ["html", "xml", "both"],
+        })
+        .example(
+          "$0 replay --session factifai-session-1715000000000",
+          "Rerun a recorded session quickly and deterministically"
+        )
+        .example(
+          "$0 replay -s my-session --no-heal",
+          "Fail instead of calling the model when an element changed"
+        );
+    },
+    async (argv) => {
+      // Display logo
+      displayFactifaiLogo();
+
+      const sessionId = argv.session as string;
+      console.log(`Replaying session: ${sessionId}`);
+
+      // Healing needs a model provider; replaying alone does not
+      let heal = argv.heal as boolean;
+      if (heal && !argv.model && !process.env.MODEL_PROVIDER) {
+        console.warn("No model provider configured, replaying without healing");
+        heal = false;
+      } else if (heal) {
+        prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+      }
+      const reportFormat = argv['report-format'] as string ||
+                         ConfigManager.get('REPORT_FORMAT') ||
+                         'both';
+
+      try {
+        const result = await replaySession(sessionId, {
+          replaySessionId: argv['replay-session'] as string | undefined,
+          heal,
+          noReport: argv['skip-report'] as boolean,
+          reportFormat,
+        });
+
+        if (result.success) {
+          console.log("\n✅ Replay completed successfully!");
+        } else {
+          console.error("\n❌ Replay failed:", result.error);
+        }
+
+        process.exit(result.success ? 0 : 1);
+      } catch (error) {
+        console.error("Error replaying session:", error);
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    "run-suite <target>",
+    "Run every test case file in a directory or glob pattern with one aggregated report",
+    (yargs) => {
+      return yargs
+        .positional("target", {
+          describe: "Directory, file or glob pattern of test case files (.txt, .md, .yaml, .yml, .feature)",
+          type: "string",
+          demandOption: true,
+        })
+        .option("suite", {
+          type: "string",
+          describe: "Suite ID used for the aggregated report directory",
+          default: `factifai-suite-${Date.now()}`,
+        })
+        .option("skip-report", {
+          type: "boolean",
+          describe: "Skip all report generation",
+          default: false
+        })
+        .option("report-format", {
+          type: "string",
+          describe: "Report format to generate (html, xml, both)",
+          choices: ["html", "xml", "both"],
+        })
+        .option("skip-analysis", {
+          type: "boolean",
+          describe: "Skip test case quality analysis and suggestions",
+          default: false
+        })
+        .option("skip-playwright", {
+          type: "boolean",
+          describe: "Skip Playwright script generation",
+          default: false
+        })
+        .option("data", {
+          alias: "d",
+          type: "string",
+          describe: "CSV or JSON data file; test cases with {{placeholders}} run once per row",
+        })
+        .option("fixtures-dir", {
+          type: "string",
+          describe: "Folder with the fixtures referenced by @use and @teardown, never run as test cases",
+          default: DEFAULT_FIXTURES_DIR,
+        })
+        .option("tag", {
+          type: "string",
+          array: true,
+          describe: "Run only test cases with one of these tags (front matter, spec or Gherkin tags)",
+        })
+        .option("exclude-tag", {
+          type: "string",
+          array: true,
+          describe: "Skip test cases with any of these tags",
+        })
+        .option("grep", {
+          type: "string",
+          describe: "Run only test cases whose name, feature or file path matches this pattern",
+        })
+        .option("workers", {
+          alias: "w",
+          type: "number",
+          describe: "Number of test cases to run concurrently, each in its own browser context",
+          default: 1,
+        })
+        .option("step-by-step", {
+          type: "boolean",
+          describe: "Execute and verify one parsed step at a time against its expected result",
+          default: false
+        })
+        .option("max-duration", {
+          type: "number",
+          describe: "Stop each test case gracefully after this many seconds of wall-clock time",
+        })
+        .option("max-llm-calls", {
+          type: "number",
+          describe: "Stop each test case gracefully after this many LLM calls",
+        })
+        .option("max-tokens", {
+          type: "number",
+          describe: "Stop each test case gracefully after this many LLM tokens (input and output)",
+        })
+        .example("$0 run-suite ./tests", "Run all test cases in a directory")
+        .example(
+          '$0 run-suite "./tests/**/checkout-*.txt"',
+          "Run test cases matching a glob pattern"
+        )
+        .example("$0 run-suite ./tests --workers 4", "Run four test cases at a time")
+        .example(
+          '$0 run-suite ./tests --tag smoke --exclude-tag slow --grep checkout',
+          "Run the fast smoke tests about checkout"
+        )
+        .check((argv) => {
+          if (!Number.isInteger(argv.workers) || (argv.workers as number) < 1) {
+            throw new Error("--workers must be a positive integer");
+          }
+          if (argv.grep) {
+            try {
+              new RegExp(argv.grep as string);
+            } catch {
+              throw new Error(`--grep is not a valid regular expression: ${argv.grep}`);
+            }
+          }
+          validateBudgetOptions(argv);
+          return true;
+        });
+    },
+    async (argv) => {
+      // Display logo
+      displayFactifaiLogo();
+
+      // Fixture files may live next to the test cases but only run through @use and @teardown
+      const fixturesDir = path.resolve(argv.fixturesDir as string);
+      const testFiles = discoverTestFiles(argv.target as string).filter(
+        (filePath) => !filePath.startsWith(fixturesDir + path.sep)
+      );
+      if (testFiles.length === 0) {
+        console.error(`No test case files found for: ${argv.target}`);
+        process.exit(1);
+      }
+
+      console.log(`Found ${testFiles.length} test case file(s) in: ${argv.target}`);
+      console.log(`Suite ID: ${argv.suite}`);
+      console.log(`Workers: ${argv.workers}`);
+
+      // Set and validate the model provider, then show report configuration
+      prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+      const { reportFormat, skipReport, skipAnalysis, skipPlaywright } =
+        resolveReportOptions(argv);
+      const budget = resolveRunBudget(argv);
+
+      try {
+        const testCases = argv.data
+          ? expandWithDataFile(loadTestCases(testFiles), argv.data)
+          : loadTestCases(testFiles);
+        // Fail before launching a browser when the filters leave nothing to run
+        const selection: TestSelection = {
+          tags: argv.tag as string[] | undefined,
+          excludeTags: argv.excludeTag as string[] | undefined,
+          grep: argv.grep as string | undefined,
+        };
+        if (hasSelection(selection) && selectTestCases(testCases, selection).selected.length === 0) {
+          console.error(`No test cases match the filters: ${describeSelection(selection)}`);
+          process.exit(1);
+        }
+
+        // A suite of a single feature file is named after the feature
+        const features = new Set(testCases.map((testCase) => testCase.feature));
+        const suiteName =
+          features.size === 1 && testCases[0]?.feature
+            ? testCases[0].feature
+            : path.basename(path.resolve(argv.target as string));
+        const result = await runTestSuite(testCases, {
+          suiteId: argv.suite as string,
+          suiteName,
+          noReport: skipReport,
+          reportFormat,
+          skipAnalysis,
+          skipPlaywright,
+          workers: argv.workers as number,
+          budget,
+          stepByStep: argv.stepByStep as boolean,
+          fixturesDir,
+          selection,
+        });
+
+        if (result.success) {
+          console.log(`\n✅ All ${result.total} test cases passed!`);
+        } else {
+          console.error(
+            `\n❌ ${result.failed} of ${result.total} test cases failed`
+          );
+        }
+
+        process.exit(result.success ? 0 : 1);
+      } catch (error) {
+        console.error("Error executing suite:", error);
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    "plan [instruction]",
+    "Parse a test case into steps without executing it and write them as a structured spec",
+    (yargs) => {
+      return yargs
+        .positional("instruction", {
+          describe: "The test instruction to plan",
+          type: "string",
+          demandOption: false,
+        })
+        .option("file", {
+          alias: "f",
+          type: "string",
+          describe: "Path to a file containing test instructions",
+        })
+        .option("session", {
+          alias: "s",
+          type: "string",
+          describe: "Session ID used for the logs and the default plans folder",
+          default: `factifai-plan-${Date.now()}`,
+        })
+        .option("format", {
+          type: "string",
+          describe: "Write the steps as a YAML or JSON structured spec",
+          choices: ["yaml", "json"],
+          default: "yaml",
+        })
+        .option("output", {
+          alias: "o",
+          type: "string",
+          describe: "File to write the plan to (defaults to factifai/<session>/plans/)",
+        })
+        .option("skip-analysis", {
+          type: "boolean",
+          describe: "Skip test case quality analysis and suggestions",
+          default: false,
+        })
+        .example("$0 plan --file ./tests/checkout.txt", "Show and save the steps the agent would run")
+        .example(
+          "$0 plan -f ./tests/checkout.txt -o ./tests/checkout.yaml",
+          "Save the steps as a spec to review, edit and run with run --file"
+        )
+        .check((argv) => {
+          if (!argv.instruction && !argv.file) {
+            throw new Error("You must provide either an instruction or a file path");
+          }
+          if (argv.file && isFeatureFile(argv.file)) {
+            throw new Error("Feature files are structured already, run them with run --file");
+          }
+          return true;
+        });
+    },
+    async (argv) => {
+      displayFactifaiLogo();
+
+      let instruction: string;
+      if (argv.file) {
+        try {
+          const fs = require("fs");
+          instruction = fs.readFileSync(argv.file, "utf8");
+          console.log(`Planning test case from file: ${argv.file}`);
+        } catch (error) {
+          console.error(
+            `Error reading file: ${error instanceof Error ? error.message : String(error)}`
+          );
+          process.exit(1);
+        }
+      } else {
+        instruction = argv.instruction as string;
+        console.log("Planning test case provided on command line");
+      }
+
+      console.log(`Session ID: ${argv.session}`);
+      prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+
+      const result = await planTestCase(instruction, argv.session as string, {
+        name: argv.file ? path.basename(argv.file, path.extname(argv.file)) : undefined,
+        sourcePath: argv.file,
+        skipAnalysis: argv.skipAnalysis as boolean,
+        format: argv.format as "yaml" | "json",
+        outputPath: argv.output as string | undefined,
+      });
+
+      if (!result.success) {
+        console.error(`\n❌ Planning failed: ${result.error}`);
+      }
+
+      process.exit(result.success ? 0 : 1);
+    }
+  )
+  .command(
+    "lint <files..>",
+    "Check test case files for quality issues without running them",
+    (yargs) => {
+      return yargs
+        .positional("files", {
+          describe: "Test case files, directories or glob patterns (.txt, .md, .yaml, .yml, .feature)",
+          type: "string",
+          array: true,
+          demandOption: true,
+        })
+        .option("min-score", {
+          type: "number",
+          describe: "Fail test cases rated below this score (1-10)",
+        })
+        .option("skip-rating", {
+          type: "boolean",
+          describe: "Run only the static checks, without rating the test cases with the model",
+          default: false,
+        })
+        .option("json", {
+          type: "string",
+          describe: "Write the lint results as JSON to this file",
+        })
+        .option("junit", {
+          type: "string",
+          describe: "Write the lint results as JUnit XML to this file",
+        })
+        .option("fixtures-dir", {
+          type: "string",
+          describe: "Folder with the fixtures referenced by @use, never linted as test cases",
+          default: DEFAULT_FIXTURES_DIR,
+        })
+        .example("$0 lint ./tests", "Lint every test case in a directory")
+        .example(
+          "$0 lint ./tests --min-score 7 --junit lint-results.xml",
+          "Fail CI when a test case is rated below 7"
+        )
+        .example("$0 lint ./tests/*.txt --skip-rating", "Run only the static checks")
+        .check((argv) => {
+          const minScore = argv.minScore as number | undefined;
+          if (minScore !== undefined && (Number.isNaN(minScore) || minScore < 1 || minScore > 10)) {
+            throw new Error("--min-score must be a number from 1 to 10");
+          }
+          if (minScore !== undefined && argv.skipRating) {
+            throw new Error("--min-score cannot be combined with --skip-rating");
+          }
+          return true;
+        });
+    },
+    async (argv) => {
+      // Fixture files may live next to the test cases but are not test cases themselves
+      const fixturesDir = path.resolve(argv.fixturesDir as string);
+      const testFiles = [
+        ...new Set((argv.files as string[]).flatMap((target) => discoverTestFiles(target))),
+      ].filter((filePath) => !filePath.startsWith(fixturesDir + path.sep));
+      if (testFiles.length === 0) {
+        console.error(`No test case files found for: ${(argv.files as string[]).join(", ")}`);
+        process.exit(1);
+      }
+
+      console.log(`Linting ${testFiles.length} test case file(s)`);
+
+      // The model is only needed to rate the test cases
+      if (!argv.skipRating) {
+        prepareModelProvider(argv.model as string | undefined, argv.cache as boolean);
+      }
+
+      try {
+        const report = await lintTestCases(loadTestCases(testFiles), {
+          rating: !argv.skipRating,
+          minScore: argv.minScore as number | undefined,
+          fixturesDir,
+          jsonPath: argv.json as string | undefined,
+          junitPath: argv.junit as string | undefined,
+        });
+
+        if (report.failed === 0) {
+          console.log(`\n✅ All ${report.testCases.length} test cases passed the lint checks`);
+        } else {
+          console.error(
+            `\n❌ ${report.failed} of ${report.testCases.length} test cases failed the lint checks`
+          );
+        }
+
+        process.exit(report.failed === 0 ? 0 : 1);
+      } catch (error) {
+        console.error("Error linting test cases:", error);
+        process.exit(1);
+      }
+    }
+  )
   .command(
     "config",
     "Configure settings and API keys",
@@ -378,7 +1387,7 @@ const cli = yargs(hideBin(process.argv))
         .option("model", {
           type: "string",
           describe: "Set the default model provider",
-          choices: ["openai", "bedrock", "azure-openai"],
+          choices: [...MODEL_PROVIDERS],
         });
     },
     (argv) => {
@@ -491,6 +1500,59 @@ const cli = yargs(hideBin(process.argv))
           : "Not set (optional - only needed for temporary credentials)";
         console.log(`- AWS_SESSION_TOKEN: ${sessionTokenStatus}`);
 
+        // Show Anthropic configuration
+        console.log("\nAnthropic Configuration:");
+        console.log(`- ANTHROPIC_MODEL: ${getModelName("anthropic")}`);
+        console.log(`- ANTHROPIC_API_KEY: ${credentialStatus("ANTHROPIC_API_KEY", "anthropic")}`);
+
+        // Show Google Gemini configuration
+        console.log("\nGoogle Gemini Configuration:");
+        console.log(`- GEMINI_MODEL: ${getModelName("gemini")}`);
+        console.log(`- GOOGLE_API_KEY: ${credentialStatus("GOOGLE_API_KEY", "gemini")}`);
+
+        // Show OpenAI-compatible endpoint configuration
+        console.log("\nOpenAI-compatible Configuration:");
+        console.log(
+          `- OPENAI_COMPATIBLE_BASE_URL: ${
+            process.env.OPENAI_COMPATIBLE_BASE_URL ||
+            "Not set" + (process.env.MODEL_PROVIDER === "openai-compatible" ? " - Required!" : "")
+          }`
+        );
+        console.log(
+          `- OPENAI_COMPATIBLE_MODEL: ${
+            process.env.OPENAI_COMPATIBLE_MODEL ||
+            "Not set" + (process.env.MODEL_PROVIDER === "openai-compatible" ? " - Required!" : "")
+          }`
+        );
+        console.log(
+          `- OPENAI_COMPATIBLE_API_KEY: ${
+            credentialStatus("OPENAI_COMPATIBLE_API_KEY", null).replace(
+              /^Not set$/,
+              "Not set (optional - only needed if the endpoint requires a key)"
+            )
+          }`
+        );
+
+        // Show fake provider configuration
+        console.log("\nFake Model Configuration:");
+        console.log(
+          `- FAKE_MODEL_SCRIPT: ${
+            process.env.FAKE_MODEL_SCRIPT ||
+            "Not set" + (process.env.MODEL_PROVIDER === "fake" ? " - Required!" : "")
+          }`
+        );
+
+        // Show the provider and model of every model role
+        console.log("\nModel Routing:");
+        try {
+          const routing = getModelRouting();
+          MODEL_ROLES.forEach((role) => {
+            console.log(`- ${role}: ${describeModelRoute(role, routing)}`);
+          });
+        } catch (error) {
+          console.log(`- MODEL_ROUTING: ${error instanceof Error ? error.message : error}`);
+        }
+
         // Show report configuration
         console.log("\nReport Configuration:");
         console.log(
@@ -514,6 +1576,27 @@ const cli = yargs(hideBin(process.argv))
             "false (default)"
           }`
         );
+        console.log(
+          `- MAX_INPUT_LENGTH: ${
+            process.env.MAX_INPUT_LENGTH ||
+            config.MAX_INPUT_LENGTH ||
+            "5000 (default)"
+          }`
+        );
+        console.log(
+          `- MODEL_PRICES: ${
+            process.env.MODEL_PRICES ||
+            config.MODEL_PRICES ||
+            "built-in defaults"
+          }`
+        );
+        console.log(
+          `- RESPONSE_CACHE: ${
+            process.env.RESPONSE_CACHE ||
+            config.RESPONSE_CACHE ||
+            "true (default)"
+          } (${RESPONSE_CACHE_DIR})`
+        );
 
         console.log(`\nConfiguration location: ${ConfigManager.configPath}`);
       } else if (argv.set) {
@@ -548,41 +1631,7 @@ const cli = yargs(hideBin(process.argv))
                 "You may need to set additional credentials for this model provider."
               );
 
-              if (value === "openai") {
-                console.log("\nYou can set your OpenAI API key with:");
-                console.log(
-                  "  factifai-agent config --set OPENAI_API_KEY=your-api-key"
-                );
-              } else if (value === "azure-openai") {
-                console.log("\nYou can set your Azure OpenAI credentials with:");
-                console.log(
-                  "  factifai-agent config --set AZURE_OPENAI_API_KEY=your-api-key"
-                );
-                console.log(
-                  "  factifai-agent config --set AZURE_OPENAI_API_INSTANCE_NAME=your-instance-name"
-                );
-                console.log(
-                  "  factifai-agent config --set AZURE_OPENAI_API_DEPLOYMENT_NAME=your-deployment-name"
-                );
-                console.log(
-                  "  factifai-agent config --set AZURE_OPENAI_API_VERSION=your-api-version"
-                );
-              }
-              else if (value === "bedrock") {
-                console.log("\nYou can set your AWS credentials with:");
-                console.log(
-                  "  factifai-agent config --set AWS_ACCESS_KEY_ID=your-access-key"
-                );
-                console.log(
-                  "  factifai-agent config --set AWS_SECRET_ACCESS_KEY=your-secret-key"
-                );
-                console.log(
-                  "  factifai-agent config --set AWS_DEFAULT_REGION=your-region"
-                );
-                console.log(
-                  "  factifai-agent config --set AWS_SESSION_TOKEN=your-session-token #Optional: only needed for temporary credentials"
-                );
-              }
+              printCredentialHelp(value);
             }
           }
         } else {
@@ -608,41 +1657,7 @@ const cli = yargs(hideBin(process.argv))
               "You may need to set additional credentials for this model provider."
             );
 
-            if (modelValue === "openai") {
-              console.log("\nYou can set your OpenAI API key with:");
-              console.log(
-                "  factifai-agent config --set OPENAI_API_KEY=your-api-key"
-              );
-            } else if (modelValue === "azure-openai") {
-              console.log("\nYou can set your Azure OpenAI credentials with:");
-              console.log(
-                "  factifai-agent config --set AZURE_OPENAI_API_KEY=your-api-key"
-              );
-              console.log(
-                "  factifai-agent config --set AZURE_OPENAI_API_INSTANCE_NAME=your-instance-name"
-              );
-              console.log(
-                "  factifai-agent config --set AZURE_OPENAI_API_DEPLOYMENT_NAME=your-deployment-name"
-              );
-              console.log(
-                "  factifai-agent config --set AZURE_OPENAI_API_VERSION=your-api-version"
-              );
-            }
-            else if (modelValue === "bedrock") {
-              console.log("\nYou can set your AWS credentials with:");
-              console.log(
-                "  factifai-agent config --set AWS_ACCESS_KEY_ID=your-access-key"
-              );
-              console.log(
-                "  factifai-agent config --set AWS_SECRET_ACCESS_KEY=your-secret-key"
-              );
-              console.log(
-                "  factifai-agent config --set AWS_DEFAULT_REGION=your-region"
-              );
-              console.log(
-                "  factifai-agent config --set AWS_SESSION_TOKEN=your-session-token"
-              );
-            }
+            printCredentialHelp(modelValue);
           } else {
             console.log(
               "All required environment variables for this model provider are set."
@@ -726,6 +1741,30 @@ const cli = yargs(hideBin(process.argv))
         }`
       );
 
+      // API and local endpoint providers
+      const otherProviders: Array<[ModelProvider, string]> = [
+        ["anthropic", "Anthropic API models"],
+        ["gemini", "Google Gemini models"],
+        ["openai-compatible", "OpenAI-compatible endpoints (Ollama, vLLM, LM Studio)"],
+        ["fake", "Scripted responses for offline runs and tests"],
+      ];
+      otherProviders.forEach(([provider, description], index) => {
+        const missingEnvVars = getMissingEnvVars(provider);
+        console.log(`\n${index + 3}. ${provider} - ${description}`);
+        console.log(`   - Current model: ${getModelName(provider) || "Not set"}`);
+        if (provider === "openai-compatible") {
+          console.log(`   - Base URL: ${process.env.OPENAI_COMPATIBLE_BASE_URL || "Not set"}`);
+        } else if (provider === "fake") {
+          console.log(`   - Script: ${process.env.FAKE_MODEL_SCRIPT || "Not set"}`);
+        }
+        console.log(`   - Required env variables: ${REQUIRED_ENV_VARS[provider].join(", ")}`);
+        console.log(
+          `   - Status: ${
+            missingEnvVars.length === 0 ? "✅ Ready to use" : "❌ Missing required credentials"
+          }`
+        );
+      });
+
       console.log(
         "\nCurrent provider:",
         process.env.MODEL_PROVIDER ||
@@ -796,13 +1835,29 @@ const cli = yargs(hideBin(process.argv))
       }
     }
   )
+  .command(
+    "cache <action>",
+    "Manage the cache of LLM responses",
+    (yargs) => {
+      return yargs.positional("action", {
+        describe: "clear: delete every cached response",
+        type: "string",
+        choices: ["clear"],
+        demandOption: true,
+      });
+    },
+    () => {
+      const deleted = clearResponseCache();
+      console.log(`✅ Deleted ${deleted} cached response(s) from ${RESPONSE_CACHE_DIR}`);
+    }
+  )
   .demandCommand(1, "You must provide a valid command")
   .help()
   .alias("h", "help")
   .version()
   .alias("v", "version")
   .epilogue(
-    "For more information, visit https://factifai.io\nFile format: Use .txt or .md format for test instructions in files."
+    "For more information, visit https://factifai.io\nFile format: Use .txt or .md format for test instructions in files, or .yaml/.md test specs with a step table, or Gherkin .feature files."
   );
 
 // Parse arguments
@@ -0,0 +1,47 @@
+import { ConfigManager } from "../config-manager";
+import { interpolateReferences } from "../interpolation";
+
+describe("interpolateReferences", () => {
+  beforeEach(() => {
+    process.env.FACTIFAI_TEST_BASE_URL = "https://shop.example.com";
+    ConfigManager.set("shop.user", "ada");
+  });
+
+  afterEach(() => {
+    delete process.env.FACTIFAI_TEST_BASE_URL;
+  });
+
+  it("fills environment variables and configuration values", () => {
+    expect(interpolateReferences("Open ${env:FACTIFAI_TEST_BASE_URL}/login and log in as ${config:shop.user}")).toBe(
+      "Open https://shop.example.com/login and log in as ada"
+    );
+  });
+
+  it("keeps runtime variables and data placeholders as written", () => {
+    const text = "Type ${orderId} into {{ search }} and ${ env:NOT_A_REFERENCE } and $env:HOME";
+    expect(interpolateReferences(text)).toBe(text);
+  });
+
+  it.each([
+    ["an environment variable", "Open ${env:FACTIFAI_TEST_MISSING}", "No value for ${env:FACTIFAI_TEST_MISSING}"],
+    ["a configuration key", "Log in as ${config:shop.admin}", "No value for ${config:shop.admin}"],
+    ["a prototype key", "Open ${env:constructor} as ${config:toString}", "No value for ${env:constructor}, ${config:toString}"],
+  ])("fails for %s without a value", (_, text, message) => {
+    expect(() => interpolateReferences(text)).toThrow(message);
+  });
+
+  it("lists every missing reference once", () => {
+    expect(() => interpolateReferences("${env:FACTIFAI_TEST_A} ${env:FACTIFAI_TEST_B} ${env:FACTIFAI_TEST_A}")).toThrow(
+      /^No value for \$\{env:FACTIFAI_TEST_A\}, \$\{env:FACTIFAI_TEST_B\}\. Set the environment variables/
+    );
+  });
+
+  it("fills an empty environment variable", () => {
+    process.env.FACTIFAI_TEST_EMPTY = "";
+    try {
+      expect(interpolateReferences("[${env:FACTIFAI_TEST_EMPTY}]")).toBe("[]");
+    } finally {
+      delete process.env.FACTIFAI_TEST_EMPTY;
+    }
+  });
+});
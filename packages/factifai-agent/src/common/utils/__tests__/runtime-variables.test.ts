@@ -0,0 +1,65 @@
+import {
+  parseStoredVariable,
+  substituteVariables,
+  substituteVariablesInArgs,
+} from "../runtime-variables";
+
+describe("substituteVariables", () => {
+  it("replaces references to known variables", () => {
+    expect(
+      substituteVariables("Open order ${orderId} of ${user_name}", { orderId: "42", user_name: "ada" })
+    ).toBe("Open order 42 of ada");
+  });
+
+  it("keeps references to unknown variables", () => {
+    expect(substituteVariables("Open order ${orderId}", {})).toBe("Open order ${orderId}");
+  });
+
+  it("replaces a reference with an empty value", () => {
+    expect(substituteVariables("[${note}]", { note: "" })).toBe("[]");
+  });
+
+  it.each(["constructor", "toString", "hasOwnProperty"])(
+    "keeps a reference to the prototype key %s",
+    (name) => {
+      expect(substituteVariables(`Type \${${name}}`, {})).toBe(`Type \${${name}}`);
+    }
+  );
+
+  it("fills only the string values of tool call arguments", () => {
+    expect(
+      substituteVariablesInArgs(
+        { sessionId: "s1", text: "${orderId}", x: 10, options: { text: "${orderId}" } },
+        { orderId: "42" }
+      )
+    ).toEqual({ sessionId: "s1", text: "42", x: 10, options: { text: "${orderId}" } });
+  });
+});
+
+describe("parseStoredVariable", () => {
+  it("reads the name and value of a successful result", () => {
+    expect(
+      parseStoredVariable(JSON.stringify({ success: true, name: "orderId", value: "A-42" }))
+    ).toEqual({ name: "orderId", value: "A-42" });
+  });
+
+  it("stores a missing value as an empty string and numbers as text", () => {
+    expect(parseStoredVariable(JSON.stringify({ success: true, name: "empty" }))).toEqual({
+      name: "empty",
+      value: "",
+    });
+    expect(parseStoredVariable(JSON.stringify({ success: true, name: "total", value: 7 }))).toEqual({
+      name: "total",
+      value: "7",
+    });
+  });
+
+  it.each([
+    ["a failed result", JSON.stringify({ success: false, error: "Element not found" })],
+    ["a result without a name", JSON.stringify({ success: true, value: "A-42" })],
+    ["a tool node error", "Error: Received tool input did not match expected schema"],
+    ["JSON that is not an object", "null"],
+  ])("ignores %s", (_, content) => {
+    expect(parseStoredVariable(content)).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { hasOwn } from './object-utils';
 
 /**
  * Configuration manager for the factifai-agent CLI
@@ -101,7 +102,9 @@ export class ConfigManager {
   public static get(key: string, defaultValue?: string): string | undefined {
     if (!this.isInitialized) this.initialize();
     
-    return this.config[key] !== undefined ? this.config[key] : defaultValue;
+    return hasOwn(this.config, key) && this.config[key] !== undefined
+      ? this.config[key]
+      : defaultValue;
   }
 
   /**
@@ -0,0 +1,38 @@
+import { ConfigManager } from "./config-manager";
+import { hasOwn } from "./object-utils";
+
+// Matches ${env:NAME} and ${config:key} references, runtime variables like ${name} are left alone
+const REFERENCE_PATTERN = /\$\{(env|config):([A-Za-z_][\w.-]*)\}/g;
+
+/**
+ * Replace the ${env:NAME} and ${config:key} references of a text with the values of
+ * environment variables and configuration values, e.g. "Navigate to ${env:BASE_URL}"
+ * @param text The text to fill
+ * @returns The text with every reference replaced
+ * @throws Error listing the references that have no value
+ */
+export function interpolateReferences(text: string): string {
+  const missing = new Set<string>();
+
+  const result = text.replace(REFERENCE_PATTERN, (reference, source: string, name: string) => {
+    const value =
+      source === "env"
+        ? hasOwn(process.env, name)
+          ? process.env[name]
+          : undefined
+        : ConfigManager.get(name);
+    if (value === undefined) {
+      missing.add(reference);
+      return reference;
+    }
+    return value;
+  });
+
+  if (missing.size > 0) {
+    throw new Error(
+      `No value for ${[...missing].join(", ")}. Set the environment variables, or the configuration values with "factifai-agent config --set key=value"`
+    );
+  }
+
+  return result;
+}
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { getModel } from '../../core/models/models';
+import { DEFAULT_MAX_TOKENS, getModel } from '../../core/models/models';
 import { getSessionSubdirPath } from './path-utils';
 import { logger } from './logger';
 import { PLAYWRIGHT_DIR_NAME, SCRIPTS_SUBDIR_NAME } from '../../core/nodes/playwright/playwright-utils/action-extractor';
@@ -50,7 +50,7 @@ export async function generatePlaywrightCoordinateScript(
     });
 
     // Get the LLM model
-    const model = getModel(false);
+    const model = getModel(false, DEFAULT_MAX_TOKENS, 'script');
     if (!model) {
       throw new Error('Failed to initialize model');
     }
@@ -273,7 +273,7 @@ Generate the complete test script now.`;
 
       The script should be a complete, runnable Playwright script that can be executed independently.
       Include proper imports, setup, and teardown code.
-    `;
+    ` + buildRuntimeVariablesPrompt(actions, ScriptType.COORDINATE, format);
 
     // Generate the script using the LLM
     const response = await model.invoke([
@@ -328,7 +328,7 @@ export async function generatePlaywrightSelectorScript(
     });
 
     // Get the LLM model
-    const model = getModel(false);
+    const model = getModel(false, DEFAULT_MAX_TOKENS, 'script');
     if (!model) {
       throw new Error('Failed to initialize model');
     }
@@ -573,7 +573,7 @@ Generate the complete test script now.`;
       Include proper imports, setup, and teardown code.
 
       Remember to use Playwright's locator APIs (page.getByRole(), page.getByText(), etc.) instead of coordinates.
-    `;
+    ` + buildRuntimeVariablesPrompt(actions, ScriptType.SELECTOR, format);
 
     // Generate the script using the LLM
     const response = await model.invoke([
@@ -596,6 +596,48 @@ Generate the complete test script now.`;
   }
 }
 
+/**
+ * Build the prompt section for values read from the page with store_variable actions,
+ * so the script reads them when it runs instead of hard-coding the recorded values
+ * @param actions The recorded actions
+ * @param scriptType The kind of script being generated
+ * @param format The output format
+ * @returns The prompt section, empty when no values were stored
+ */
+function buildRuntimeVariablesPrompt(
+  actions: any[],
+  scriptType: ScriptType,
+  format: ScriptFormat
+): string {
+  const names = [
+    ...new Set(
+      actions
+        .filter(action => action.tool === 'store_variable')
+        .map(action => action.args?.name as string)
+    )
+  ];
+  if (names.length === 0) {
+    return '';
+  }
+
+  const readExample = scriptType === ScriptType.COORDINATE
+    ? `const ${names[0]} = await page.evaluate(({ x, y }) => (document.elementFromPoint(x, y) as HTMLElement | null)?.innerText.trim() ?? '', { x: 640, y: 320 });`
+    : `const ${names[0]} = (await page.getByTestId('order-number').innerText()).trim();`;
+
+  return `
+
+      RUNTIME VARIABLES:
+      The "store_variable" actions read a value from the page into a variable: ${names.join(', ')}.
+      - Declare each one as a const with the same name at that point of the script, read from the page when the script runs:
+        ${readExample}
+      - Later actions reference these values as \${name} in their arguments. Use the variable there (e.g. a template literal), NEVER the text inside \${...} as a literal.
+      - The "value" argument only shows what was read during the recorded run. NEVER hard-code it.
+      ${format === ScriptFormat.MODULE
+        ? `- Add the variables to the returned result: variables: { ${names.join(', ')} }, with "variables?: Record<string, string>" in ScriptResult.`
+        : `- Log each value after reading it: console.log(\`${names[0]}: \${${names[0]}}\`);`}
+    `;
+}
+
 /**
  * Initialize Playwright project structure in scripts directory
  * Creates package.json, playwright.config.ts, .gitignore, and tests folder
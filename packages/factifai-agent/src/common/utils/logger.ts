@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import { getSessionPath } from "./path-utils";
+import { getContextSessionId } from "./session-context";
 import chalk from "chalk";
 import ora from "ora";
 import figures from "figures";
@@ -91,12 +92,39 @@ export const logger = {
     this.info(`Log file path updated to session: ${sessionId}`);
   },
 
+  /**
+   * Get the log file path for the current session.
+   * Sessions running concurrently each write to their own session directory.
+   */
+  getLogFilePath(): string {
+    const contextSessionId = getContextSessionId();
+    if (contextSessionId) {
+      return path.join(getSessionPath(contextSessionId), "factifai.log");
+    }
+    return this.config.logFilePath;
+  },
+
+  /**
+   * Get the spinner registry key, scoped to the current session when running concurrently
+   */
+  getSpinnerKey(id: string): string {
+    const contextSessionId = getContextSessionId();
+    return contextSessionId ? `${contextSessionId}:${id}` : id;
+  },
+
+  /**
+   * Check whether a spinner with the given id is active
+   */
+  hasSpinner(id: string): boolean {
+    return Boolean(this.spinners[this.getSpinnerKey(id)]);
+  },
+
   /**
    * Ensure the log directory exists
    */
   ensureLogDirectory(): boolean {
     if (this.config.logToFile) {
-      const dir = path.dirname(this.config.logFilePath);
+      const dir = path.dirname(this.getLogFilePath());
       try {
         fs.mkdirSync(dir, { recursive: true });
         return true;
@@ -128,7 +156,7 @@ export const logger = {
           `${
             figures.cross
           } Cannot write to log file because directory could not be created: ${path.dirname(
-            this.config.logFilePath
+            this.getLogFilePath()
           )}`
         )
       );
@@ -137,7 +165,7 @@ export const logger = {
 
     try {
       // Strip ANSI color codes when writing to file
-      fs.appendFileSync(this.config.logFilePath, stripAnsi(message) + "\n");
+      fs.appendFileSync(this.getLogFilePath(), stripAnsi(message) + "\n");
     } catch (error) {
       console.error(
         chalk.red(
@@ -423,7 +451,7 @@ export const logger = {
    * Create and start a spinner
    */
   spinner(text: string, id?: string): SpinnerInstance {
-    const spinnerId = id || `spinner-${Date.now()}`;
+    const spinnerId = this.getSpinnerKey(id || `spinner-${Date.now()}`);
     const spinner = ora({
       text,
       color: "blue",
@@ -437,7 +465,8 @@ export const logger = {
    * Update an existing spinner
    */
   updateSpinner(id: string, text: string): SpinnerInstance | null {
-    const spinner = this.spinners[id];
+    const spinnerKey = this.getSpinnerKey(id);
+    const spinner = this.spinners[spinnerKey];
     if (spinner) {
       spinner.text = text;
       return spinner;
@@ -449,10 +478,11 @@ export const logger = {
    * Stop a spinner with success
    */
   spinnerSuccess(id: string, text?: string): void {
-    const spinner = this.spinners[id];
+    const spinnerKey = this.getSpinnerKey(id);
+    const spinner = this.spinners[spinnerKey];
     if (spinner) {
       spinner.succeed(text);
-      delete this.spinners[id];
+      delete this.spinners[spinnerKey];
 
       // Log to file
       if (text) {
@@ -465,10 +495,11 @@ export const logger = {
    * Stop a spinner with error
    */
   spinnerError(id: string, text?: string): void {
-    const spinner = this.spinners[id];
+    const spinnerKey = this.getSpinnerKey(id);
+    const spinner = this.spinners[spinnerKey];
     if (spinner) {
       spinner.fail(text);
-      delete this.spinners[id];
+      delete this.spinners[spinnerKey];
 
       // Log to file
       if (text) {
@@ -0,0 +1,7 @@
+/**
+ * Check whether an object has a key of its own. Keys inherited from the prototype, such as
+ * "constructor" or "toString", don't count, so names coming from test files can't match them.
+ */
+export function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -7,6 +7,8 @@ import * as path from "path";
 export const PARENT_DIR_NAME = "factifai";
 export const REPORTS_DIR_NAME = "reports";
 export const SCREENSHOTS_DIR_NAME = "screenshots";
+export const CHECKPOINTS_DIR_NAME = "checkpoints";
+export const PLANS_DIR_NAME = "plans";
 
 /**
  * Creates the parent directory structure and returns the full path to a session directory
@@ -0,0 +1,66 @@
+import { hasOwn } from "./object-utils";
+
+/**
+ * Values captured from the page during a run, by variable name
+ */
+export type RuntimeVariables = Record<string, string>;
+
+// Matches ${name} references to runtime variables
+const VARIABLE_REFERENCE_PATTERN = /\$\{([A-Za-z_]\w*)\}/g;
+
+// Names must be usable as identifiers in generated scripts
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+/**
+ * Replace the ${name} references of a text with the values of runtime variables.
+ * References to unknown variables are kept as they are.
+ * @param text The text to fill
+ * @param variables The runtime variables
+ * @returns The text with known references replaced
+ */
+export function substituteVariables(text: string, variables: RuntimeVariables): string {
+  return text.replace(VARIABLE_REFERENCE_PATTERN, (reference, name: string) =>
+    hasOwn(variables, name) ? variables[name] : reference
+  );
+}
+
+/**
+ * Replace the ${name} references in the string values of tool call arguments
+ * @param args The tool call arguments
+ * @param variables The runtime variables
+ * @returns A copy of the arguments with known references replaced
+ */
+export function substituteVariablesInArgs(
+  args: Record<string, any>,
+  variables: RuntimeVariables
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      typeof value === "string" ? substituteVariables(value, variables) : value,
+    ])
+  );
+}
+
+/**
+ * Read the name and value from the result of the storeVariable tool
+ * @param content The tool result, as JSON
+ * @returns The stored variable, or null when the tool failed or the result is not valid
+ */
+export function parseStoredVariable(content: string): { name: string; value: string } | null {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed?.success === true && typeof parsed.name === "string"
+      ? { name: parsed.name, value: String(parsed.value ?? "") }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format runtime variables as "name = value" lines
+ */
+export function describeVariables(variables: RuntimeVariables): string[] {
+  return Object.entries(variables).map(([name, value]) => `${name} = ${value}`);
+}
@@ -1,6 +1,7 @@
 import path from "path";
 import os from "os";
 import fs from "fs";
+import { hasOwn } from "./object-utils";
 
 export class SecretManager {
   private static configDir: string;
@@ -104,7 +105,7 @@ export class SecretManager {
    */
   public static get(key: string, defaultValue?: string): string | undefined {
     this.ensureInitialized();
-    return this.secrets[key] !== undefined ? this.secrets[key] : defaultValue;
+    return this.has(key) ? this.secrets[key] : defaultValue;
   }
 
   /**
@@ -123,7 +124,7 @@ export class SecretManager {
    */
   public static has(key: string): boolean {
     this.ensureInitialized();
-    return this.secrets[key] !== undefined;
+    return hasOwn(this.secrets, key) && this.secrets[key] !== undefined;
   }
 
   /**
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Context that follows a single test session through all async work,
+ * so concurrent sessions in one process don't share mutable state
+ */
+export interface SessionContext {
+  sessionId: string;
+}
+
+const sessionStorage = new AsyncLocalStorage<SessionContext>();
+
+/**
+ * Run a function within the context of a session
+ * @param sessionId The session ID
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export function runWithSessionContext<T>(sessionId: string, fn: () => T): T {
+  return sessionStorage.run({ sessionId }, fn);
+}
+
+/**
+ * Get the session ID of the currently running session, if any
+ * @returns The session ID or undefined when called outside a session context
+ */
+export function getContextSessionId(): string | undefined {
+  return sessionStorage.getStore()?.sessionId;
+}
@@ -0,0 +1,58 @@
+import type { GraphStateType } from "../../graph/graph";
+import { shouldContinueEdge } from "../edges";
+
+type TestStep = GraphStateType["testSteps"][number];
+
+const step = (id: number, segment?: number): TestStep => ({
+  id,
+  instruction: `Instruction ${id}`,
+  status: "passed",
+  notes: "",
+  ...(segment !== undefined && { segment }),
+});
+
+const state = (overrides: Partial<GraphStateType>) =>
+  ({
+    interventionRequest: null,
+    isComplete: false,
+    stepByStep: false,
+    lastError: null,
+    messages: [{ tool_calls: [{ name: "click" }] }],
+    segments: [],
+    currentSegmentIndex: 0,
+    testSteps: [],
+    ...overrides,
+  }) as unknown as GraphStateType;
+
+describe("shouldContinueEdge", () => {
+  it.each<[string, Partial<GraphStateType>, string]>([
+    ["an unsegmented instruction", { testSteps: [step(1)] }, "tools"],
+    [
+      "a segment that has been parsed",
+      { segments: ["first", "second"], currentSegmentIndex: 0, testSteps: [step(1, 1)] },
+      "tools",
+    ],
+    [
+      "the next segment before it is parsed",
+      { segments: ["first", "second"], currentSegmentIndex: 1, testSteps: [step(1, 1)] },
+      "nextSegment",
+    ],
+    [
+      "the last segment once it is parsed",
+      { segments: ["first", "second"], currentSegmentIndex: 1, testSteps: [step(1, 1), step(2, 2)] },
+      "tools",
+    ],
+    // Steps of a single segment are not numbered by segment, it would be parsed again forever
+    ["a single segment", { segments: ["only"], currentSegmentIndex: 0, testSteps: [step(1)] }, "tools"],
+    [
+      "a completed run with segments left",
+      { segments: ["first", "second"], currentSegmentIndex: 1, isComplete: true, testSteps: [step(1, 1)] },
+      "end",
+    ],
+    ["an intervention", { interventionRequest: { stepId: 1 } as GraphStateType["interventionRequest"] }, "humanReview"],
+    ["a finished step in step-by-step mode", { stepByStep: true, messages: [{ content: "done" }] }, "nextStep"],
+    ["a failed step in step-by-step mode", { stepByStep: true, lastError: "Step 1 failed" }, "end"],
+  ])("routes %s", (_, overrides, expected) => {
+    expect(shouldContinueEdge(state(overrides))).toBe(expected);
+  });
+});
@@ -1,6 +1,27 @@
 import { GraphStateType } from "../graph/graph";
 
 export const shouldContinueEdge = (state: GraphStateType) => {
+  // Pause for the operator in interactive mode
+  if (state.interventionRequest) {
+    return "humanReview";
+  }
+
+  // A finished segment of a long instruction continues with the parsing of the next one
+  if (state.isComplete === false && hasPendingSegment(state)) {
+    return "nextSegment";
+  }
+
+  // In step-by-step mode a finished step without pending tool calls moves on to the next one
+  if (state.stepByStep && state.isComplete === false) {
+    if (state.lastError) {
+      return "end";
+    }
+
+    if (!hasPendingToolCalls(state.messages)) {
+      return "nextStep";
+    }
+  }
+
   if (state.isComplete === false) {
     return "tools";
   }
@@ -8,6 +29,56 @@ export const shouldContinueEdge = (state: GraphStateType) => {
   return "end";
 };
 
+const hasPendingToolCalls = (messages: any[]) =>
+  messages[messages.length - 1]?.tool_calls?.length > 0;
+
+// Whether the current segment of a long instruction has not been parsed yet. Steps only
+// record their segment when there are several, a single segment would never count as parsed.
+const hasPendingSegment = (state: GraphStateType) =>
+  state.segments.length > 1 &&
+  state.currentSegmentIndex < state.segments.length &&
+  !state.testSteps.some((step) => step.segment === state.currentSegmentIndex + 1);
+
+export const afterParseEdge = (state: GraphStateType): "execute" | "track" => {
+  // Nothing to execute when preprocessing or the parsing of a later segment failed
+  if (state.isComplete === true && state.lastError) {
+    return "track";
+  }
+
+  return "execute";
+};
+
+export const afterPlanPreprocessEdge = (state: GraphStateType): "parse" | "end" => {
+  // There is nothing to parse when preprocessing failed
+  if (state.lastError) {
+    return "end";
+  }
+
+  return "parse";
+};
+
+export const afterPlanParseEdge = (state: GraphStateType): "nextSegment" | "end" => {
+  // A plan parses every segment of a long instruction, up to the first one that fails
+  if (
+    !state.lastError &&
+    !state.abortReason &&
+    state.currentSegmentIndex + 1 < state.segments.length
+  ) {
+    return "nextSegment";
+  }
+
+  return "end";
+};
+
+export const afterHumanReviewEdge = (state: GraphStateType): "execute" | "track" => {
+  // An aborted run goes straight to the final tracking and reporting
+  if (state.isComplete === true) {
+    return "track";
+  }
+
+  return "execute";
+};
+
 export const shouldGenerateReport = (state: GraphStateType) => {
   // Skip report generation if noReport flag is set
   if (state.noReport === true) {
@@ -23,8 +94,8 @@ export const shouldGenerateReport = (state: GraphStateType) => {
 
 
 export const shouldGeneratePlaywrightScript = (state: GraphStateType): "playwrightScript" | "report" | "end" => {
-  // Generate Playwright script if conditions are met and not skipped
-  if (!state.skipPlaywright && state.isComplete && !state.lastError && state.sessionId) {
+  // Generate Playwright script if conditions are met and not skipped, a run stopped early has no complete flow to script
+  if (!state.skipPlaywright && state.isComplete && !state.lastError && !state.abortReason && state.sessionId) {
     return "playwrightScript";
   }
 
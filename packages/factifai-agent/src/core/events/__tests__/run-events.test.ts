@@ -0,0 +1,92 @@
+import { RunEvents, streamRunEvents, type RunEventListener } from "../run-events";
+
+const SESSION_ID = "factifai-session-events";
+
+/**
+ * A run that emits a tool call for each of the given names and waits for its signal, or for finish() to be called
+ */
+function createRun(events: string[]) {
+  let finish: (value: string) => void = () => undefined;
+  let fail: (error: Error) => void = () => undefined;
+  let receivedSignal: AbortSignal | null = null;
+
+  const run = (onEvent: RunEventListener, signal: AbortSignal) => {
+    receivedSignal = signal;
+    const unsubscribe = RunEvents.subscribe(SESSION_ID, onEvent);
+    events.forEach((name) =>
+      RunEvents.emit(SESSION_ID, { type: "tool_call", toolCallId: name, name, args: {} })
+    );
+
+    return new Promise<string>((resolve, reject) => {
+      finish = resolve;
+      fail = reject;
+      signal.addEventListener("abort", () => reject(new Error(`aborted: ${signal.reason}`)));
+    }).finally(unsubscribe);
+  };
+
+  return {
+    run,
+    finish: (value: string) => finish(value),
+    fail: (error: Error) => fail(error),
+    signal: () => receivedSignal,
+  };
+}
+
+describe("streamRunEvents", () => {
+  it("yields the events of the run and returns its result", async () => {
+    const { run, finish } = createRun(["first", "second"]);
+    const stream = streamRunEvents(run);
+
+    const names: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      names.push(next.value.type === "tool_call" ? next.value.name : next.value.type);
+      if (names.length === 2) {
+        finish("result");
+      }
+      next = await stream.next();
+    }
+
+    expect(names).toEqual(["first", "second"]);
+    expect(next.value).toBe("result");
+  });
+
+  it("aborts the run when the consumer stops iterating early", async () => {
+    const { run, signal } = createRun(["first", "second"]);
+
+    for await (const event of streamRunEvents(run)) {
+      expect(event.sessionId).toBe(SESSION_ID);
+      break;
+    }
+
+    expect(signal()?.aborted).toBe(true);
+    expect(signal()?.reason).toBe("the event stream was closed");
+  });
+
+  it("does not leave a failure of an abandoned run unhandled", async () => {
+    const unhandled = jest.fn();
+    process.on("unhandledRejection", unhandled);
+
+    try {
+      const { run, fail } = createRun(["first"]);
+      const stream = streamRunEvents(run);
+      await stream.next();
+      fail(new Error("the browser crashed"));
+      await stream.return("stopped");
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", unhandled);
+    }
+  });
+
+  it("rejects with the error of a failed run", async () => {
+    const { run, fail } = createRun([]);
+    const stream = streamRunEvents(run);
+    const next = stream.next();
+    fail(new Error("the browser crashed"));
+
+    await expect(next).rejects.toThrow("the browser crashed");
+  });
+});
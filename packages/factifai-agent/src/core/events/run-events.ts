@@ -0,0 +1,176 @@
+import { EventEmitter } from "events";
+import type { GraphStateType } from "../graph/graph";
+import { logger } from "../../common/utils/logger";
+
+type TestStep = GraphStateType["testSteps"][number];
+
+/**
+ * Events published while a run progresses, discriminated by `type`
+ */
+export type RunEventPayload =
+  | { type: "run_started"; instruction: string | null; resumed: boolean }
+  | { type: "steps_parsed"; testSteps: TestStep[] }
+  | {
+      type: "step_status_changed";
+      stepId: number;
+      instruction: string;
+      previousStatus: TestStep["status"];
+      status: TestStep["status"];
+      notes: string;
+    }
+  | { type: "tool_call"; toolCallId: string; name: string; args: Record<string, any> }
+  | {
+      type: "tool_result";
+      toolCallId: string;
+      name: string;
+      content: string;
+      status: "success" | "error";
+    }
+  | {
+      type: "verification_result";
+      stepId: number | null;
+      action: string;
+      result: "SUCCESS" | "FAILURE";
+      explanation: string;
+    }
+  | { type: "variable_stored"; name: string; value: string }
+  | { type: "screenshot_captured"; path: string; url: string | null }
+  | { type: "report_written"; format: "xml" | "html"; path: string }
+  | { type: "script_generated"; scriptType: "coordinate" | "selector"; path: string }
+  | { type: "run_finished"; success: boolean; error: string | null };
+
+export type RunEventType = RunEventPayload["type"];
+
+/**
+ * A run event as delivered to listeners
+ */
+export type RunEvent = RunEventPayload & {
+  sessionId: string;
+  timestamp: number;
+};
+
+export type RunEventListener = (event: RunEvent) => void;
+
+/**
+ * Publishes run events per session, so concurrent sessions in one process
+ * only reach their own listeners
+ */
+export class RunEvents {
+  private static readonly emitter = new EventEmitter().setMaxListeners(0);
+
+  /**
+   * Listen to the events of a session
+   * @param sessionId The session ID
+   * @param listener Called for every event of the session
+   * @returns A function that removes the listener
+   */
+  static subscribe(sessionId: string, listener: RunEventListener): () => void {
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+
+  /**
+   * Publish an event of a session. Listener errors are logged and never interrupt the run.
+   * @param sessionId The session ID
+   * @param payload The event
+   */
+  static emit(sessionId: string, payload: RunEventPayload): void {
+    const event = { ...payload, sessionId, timestamp: Date.now() } as RunEvent;
+
+    for (const listener of this.emitter.listeners(sessionId) as RunEventListener[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.appendToFile(
+          `Run event listener failed on ${event.type}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Publish a step_status_changed event for every step whose status differs between two versions
+   * @param sessionId The session ID
+   * @param previousSteps The steps before the update
+   * @param updatedSteps The steps after the update
+   */
+  static emitStepChanges(
+    sessionId: string,
+    previousSteps: TestStep[],
+    updatedSteps: TestStep[]
+  ): void {
+    for (const step of updatedSteps) {
+      const previous = previousSteps.find((s) => s.id === step.id);
+      if (!previous || previous.status === step.status) {
+        continue;
+      }
+
+      this.emit(sessionId, {
+        type: "step_status_changed",
+        stepId: step.id,
+        instruction: step.instruction,
+        previousStatus: previous.status,
+        status: step.status,
+        notes: step.notes,
+      });
+    }
+  }
+}
+
+/**
+ * Turn a run that reports through a listener into an async iterator of its events.
+ * The iterator ends when the run finishes and returns the run's result. When the consumer
+ * stops iterating early the run is aborted through the signal it was given.
+ * @param run Starts the run with the listener to report to and the signal that cancels it
+ */
+export async function* streamRunEvents<T>(
+  run: (onEvent: RunEventListener, signal: AbortSignal) => Promise<T>
+): AsyncGenerator<RunEvent, T> {
+  const queue: RunEvent[] = [];
+  const controller = new AbortController();
+  let wake: (() => void) | null = null;
+  let finished = false;
+  let returned = false;
+
+  const result = run((event) => {
+    queue.push(event);
+    wake?.();
+  }, controller.signal).finally(() => {
+    finished = true;
+    wake?.();
+  });
+
+  try {
+    while (true) {
+      while (queue.length > 0) {
+        yield queue.shift()!;
+      }
+
+      if (finished) {
+        returned = true;
+        return result;
+      }
+
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  } finally {
+    if (!returned) {
+      // Nobody reads the result anymore, a failure of the run must not go unhandled
+      result.catch((error) =>
+        logger.appendToFile(
+          `Run failed after its event stream was closed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+    }
+    if (!finished) {
+      controller.abort("the event stream was closed");
+    }
+  }
+}
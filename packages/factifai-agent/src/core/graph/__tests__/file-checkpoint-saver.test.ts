@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  emptyCheckpoint,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+} from "@langchain/langgraph";
+import { FileCheckpointSaver } from "../file-checkpoint-saver";
+
+const THREAD_ID = "factifai-session-checkpoints";
+
+const threadConfig: RunnableConfig = { configurable: { thread_id: THREAD_ID, checkpoint_ns: "" } };
+
+// Checkpoint IDs sort in creation order, like the uuid6 IDs of the graph
+const createCheckpoint = (index: number): Checkpoint => ({
+  ...emptyCheckpoint(),
+  id: `checkpoint-${String(index).padStart(3, "0")}`,
+  channel_values: { instruction: `step ${index}`, steps: [{ id: index, status: "passed" }] },
+  channel_versions: { instruction: index },
+});
+
+const createMetadata = (step: number): CheckpointMetadata => ({
+  source: "loop",
+  step,
+  writes: null,
+  parents: {},
+});
+
+async function collect(saver: FileCheckpointSaver, config: RunnableConfig): Promise<CheckpointTuple[]> {
+  const tuples: CheckpointTuple[] = [];
+  for await (const tuple of saver.list(config)) {
+    tuples.push(tuple);
+  }
+  return tuples;
+}
+
+describe("FileCheckpointSaver", () => {
+  let workDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-checkpoints-"));
+    jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    filePath = path.join(workDir, "factifai", THREAD_ID, "checkpoints", "checkpoints.json");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("restores checkpoints, metadata and pending writes in a new saver", async () => {
+    const saver = new FileCheckpointSaver();
+    const firstConfig = await saver.put(threadConfig, createCheckpoint(1), createMetadata(0));
+    await saver.putWrites(firstConfig, [["steps", [{ id: 1, status: "failed" }]]], "task-1");
+    await saver.put(firstConfig, createCheckpoint(2), createMetadata(1));
+
+    const expectedLatest = await saver.getTuple(threadConfig);
+    const expectedFirst = await saver.getTuple(firstConfig);
+    const expectedList = await collect(saver, threadConfig);
+
+    const restored = new FileCheckpointSaver();
+    expect(FileCheckpointSaver.hasCheckpoints(THREAD_ID)).toBe(true);
+    expect(await restored.getTuple(threadConfig)).toEqual(expectedLatest);
+    expect(await restored.getTuple(firstConfig)).toEqual(expectedFirst);
+    expect(expectedFirst?.pendingWrites).toEqual([["task-1", "steps", [{ id: 1, status: "failed" }]]]);
+    expect((await collect(restored, threadConfig)).map((tuple) => tuple.checkpoint.id)).toEqual([
+      "checkpoint-002",
+      "checkpoint-001",
+    ]);
+    expect(await collect(restored, threadConfig)).toEqual(expectedList);
+  });
+
+  it("writes the file when a checkpoint is saved, not for pending writes", async () => {
+    const saver = new FileCheckpointSaver();
+    const config = await saver.put(threadConfig, createCheckpoint(1), createMetadata(0));
+    const saved = fs.readFileSync(filePath, "utf8");
+
+    await saver.putWrites(config, [["instruction", "changed"]], "task-1");
+
+    expect(fs.readFileSync(filePath, "utf8")).toBe(saved);
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it("keeps only the most recent checkpoints of a thread", async () => {
+    const saver = new FileCheckpointSaver(2);
+    let config = threadConfig;
+    for (let index = 1; index <= 4; index++) {
+      config = await saver.put(config, createCheckpoint(index), createMetadata(index - 1));
+    }
+
+    const restored = new FileCheckpointSaver(2);
+    expect((await collect(restored, threadConfig)).map((tuple) => tuple.checkpoint.id)).toEqual([
+      "checkpoint-004",
+      "checkpoint-003",
+    ]);
+  });
+
+  it("keeps the file consistent when checkpoints are saved concurrently", async () => {
+    const saver = new FileCheckpointSaver();
+    await Promise.all(
+      [1, 2, 3].map((index) => saver.put(threadConfig, createCheckpoint(index), createMetadata(index)))
+    );
+
+    const restored = new FileCheckpointSaver();
+    expect((await collect(restored, threadConfig)).map((tuple) => tuple.checkpoint.id)).toEqual([
+      "checkpoint-003",
+      "checkpoint-002",
+      "checkpoint-001",
+    ]);
+  });
+
+  it("deletes a thread from memory and disk", async () => {
+    const saver = new FileCheckpointSaver();
+    await saver.put(threadConfig, createCheckpoint(1), createMetadata(0));
+
+    saver.deleteThread(THREAD_ID);
+
+    expect(FileCheckpointSaver.hasCheckpoints(THREAD_ID)).toBe(false);
+    expect(await saver.getTuple(threadConfig)).toBeUndefined();
+    expect(await new FileCheckpointSaver().getTuple(threadConfig)).toBeUndefined();
+  });
+});
@@ -0,0 +1,245 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  MemorySaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+} from "@langchain/langgraph";
+import {
+  CHECKPOINTS_DIR_NAME,
+  PARENT_DIR_NAME,
+  getSessionSubdirPath,
+} from "../../common/utils/path-utils";
+import { logger } from "../../common/utils/logger";
+
+// Not re-exported by @langchain/langgraph, so derive them from MemorySaver
+type CheckpointListOptions = Parameters<MemorySaver["list"]>[1];
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1][number];
+
+const CHECKPOINT_FILE_NAME = "checkpoints.json";
+const CHECKPOINT_FILE_VERSION = 1;
+
+/**
+ * Number of checkpoints kept per thread; older ones are pruned to keep the file small
+ */
+export const DEFAULT_MAX_CHECKPOINTS = 10;
+
+/**
+ * On-disk representation of one thread's checkpoints and pending writes
+ */
+interface CheckpointFile {
+  version: number;
+  storage: Record<string, Record<string, [string, string, string | null | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const encode = (data: Uint8Array): string => Buffer.from(data).toString("base64");
+const decode = (data: string): Uint8Array => new Uint8Array(Buffer.from(data, "base64"));
+
+/**
+ * Checkpointer that keeps checkpoints in memory and mirrors every thread to
+ * factifai/<sessionId>/checkpoints/checkpoints.json, so interrupted runs can be resumed.
+ * The file is written when a checkpoint is saved; pending writes are kept in memory until
+ * then, a resumed run repeats the step they belong to.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private readonly loadedThreads = new Set<string>();
+  // Last file write of each thread, the next one waits for it so they never overlap
+  private readonly pendingSaves = new Map<string, Promise<void>>();
+
+  constructor(private readonly maxCheckpoints: number = DEFAULT_MAX_CHECKPOINTS) {
+    super();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    this.loadThread(config.configurable?.thread_id);
+    return super.getTuple(config);
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    this.loadThread(config.configurable?.thread_id);
+    yield* super.list(config, options);
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+
+    const nextConfig = await super.put(config, checkpoint, metadata);
+
+    this.pruneThread(threadId);
+    await this.saveThread(threadId);
+    return nextConfig;
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    this.loadThread(threadId);
+
+    await super.putWrites(config, writes, taskId);
+  }
+
+  /**
+   * Remove all checkpoints of a thread from memory and disk
+   * @param threadId The thread (session) ID
+   */
+  deleteThread(threadId: string): void {
+    this.loadedThreads.add(threadId);
+    delete this.storage[threadId];
+    for (const outerKey of Object.keys(this.writes)) {
+      if (JSON.parse(outerKey)[0] === threadId) {
+        delete this.writes[outerKey];
+      }
+    }
+
+    const filePath = getCheckpointFilePath(threadId);
+    if (fs.existsSync(filePath)) {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+
+  /**
+   * Check whether a checkpoint file exists for the given thread
+   * @param threadId The thread (session) ID
+   */
+  static hasCheckpoints(threadId: string): boolean {
+    return fs.existsSync(getCheckpointFilePath(threadId));
+  }
+
+  /**
+   * Load a thread's checkpoints from disk the first time it is accessed
+   */
+  private loadThread(threadId: string | undefined): void {
+    if (!threadId || this.loadedThreads.has(threadId)) {
+      return;
+    }
+    this.loadedThreads.add(threadId);
+
+    const filePath = getCheckpointFilePath(threadId);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const file: CheckpointFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+      this.storage[threadId] = {};
+      for (const [namespace, checkpoints] of Object.entries(file.storage)) {
+        this.storage[threadId][namespace] = {};
+        for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+          this.storage[threadId][namespace][checkpointId] = [
+            decode(checkpoint),
+            decode(metadata),
+            // JSON stores a missing parent as null, the first checkpoint has none
+            parentId ?? undefined,
+          ];
+        }
+      }
+
+      for (const [outerKey, writes] of Object.entries(file.writes)) {
+        this.writes[outerKey] = {};
+        for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+          this.writes[outerKey][innerKey] = [taskId, channel, decode(value)];
+        }
+      }
+    } catch (error) {
+      logger.warn(
+        `Failed to load checkpoints for session ${threadId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Drop all but the most recent checkpoints (and their pending writes) of a thread
+   */
+  private pruneThread(threadId: string): void {
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] ?? {})) {
+      // Checkpoint IDs are time-ordered, so the newest sort last
+      const staleIds = Object.keys(checkpoints).sort().slice(0, -this.maxCheckpoints);
+
+      for (const checkpointId of staleIds) {
+        delete checkpoints[checkpointId];
+        delete this.writes[JSON.stringify([threadId, namespace, checkpointId])];
+      }
+    }
+  }
+
+  /**
+   * Write a thread's checkpoints to disk, replacing the previous file atomically
+   */
+  private saveThread(threadId: string): Promise<void> {
+    const save = (this.pendingSaves.get(threadId) ?? Promise.resolve()).then(() =>
+      this.writeThreadFile(threadId)
+    );
+    this.pendingSaves.set(threadId, save);
+    return save;
+  }
+
+  private async writeThreadFile(threadId: string): Promise<void> {
+    const file: CheckpointFile = {
+      version: CHECKPOINT_FILE_VERSION,
+      storage: {},
+      writes: {},
+    };
+
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] ?? {})) {
+      file.storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        file.storage[namespace][checkpointId] = [encode(checkpoint), encode(metadata), parentId];
+      }
+    }
+
+    for (const [outerKey, writes] of Object.entries(this.writes)) {
+      if (JSON.parse(outerKey)[0] !== threadId) {
+        continue;
+      }
+      file.writes[outerKey] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+        file.writes[outerKey][innerKey] = [taskId, channel, encode(value)];
+      }
+    }
+
+    try {
+      const checkpointsDir = getSessionSubdirPath(threadId, CHECKPOINTS_DIR_NAME);
+      const filePath = path.join(checkpointsDir, CHECKPOINT_FILE_NAME);
+      const tempPath = `${filePath}.tmp`;
+
+      await fs.promises.writeFile(tempPath, JSON.stringify(file));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      logger.warn(
+        `Failed to persist checkpoints for session ${threadId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * Get the checkpoint file path of a thread without creating any directories
+ */
+function getCheckpointFilePath(threadId: string): string {
+  return path.join(
+    process.cwd(),
+    PARENT_DIR_NAME,
+    threadId,
+    CHECKPOINTS_DIR_NAME,
+    CHECKPOINT_FILE_NAME
+  );
+}
@@ -3,22 +3,55 @@ import {
   StateGraph,
   START,
   END,
-  MemorySaver,
 } from "@langchain/langgraph";
-import { ToolNode } from "@langchain/langgraph/prebuilt";
-import { ALL_TOOLS } from "../../tools";
 import { generateReportNode } from "../nodes/reporting/report-generation-node";
 import { executeAndVerifyNode } from "../nodes/execution/execution-and-verification-node";
 import { trackAndUpdateStepsNode } from "../nodes/tracking/tracking-node";
 import { parseTestStepsNode } from "../nodes/parsing/parsing-node";
 import { preprocessTestInputNode } from "../nodes/preprocessing/preprocessing-node";
-import { shouldContinueEdge, shouldGenerateReport, shouldGeneratePlaywrightScript } from "../edges/edges";
+import {
+  shouldContinueEdge,
+  shouldGenerateReport,
+  shouldGeneratePlaywrightScript,
+  afterHumanReviewEdge,
+  afterParseEdge,
+  afterPlanPreprocessEdge,
+  afterPlanParseEdge,
+} from "../edges/edges";
 import { generatePlaywrightScriptNode } from "../nodes/playwright/generate-playwright-script-node";
+import { humanReviewNode } from "../nodes/intervention/human-review-node";
+import { executeToolsNode } from "../nodes/tools/tools-node";
+import type {
+  InterventionRequest,
+  OperatorIntervention,
+} from "../nodes/intervention/schemas";
+import { FileCheckpointSaver } from "./file-checkpoint-saver";
+import type { RuntimeVariables } from "../../common/utils/runtime-variables";
+import type { TestCaseRating } from "../nodes/parsing/test-case-rating";
 
 export const State = Annotation.Root({
   // Base fields
   instruction: Annotation<string>(),
   processedInstruction: Annotation<string>(),
+  // File the instruction was read from, @include paths are resolved relative to it
+  sourcePath: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  // Ordered segments of an instruction longer than the maximum input length, empty for shorter ones
+  segments: Annotation<string[]>({
+    default: () => [],
+    reducer: (_, v) => v,
+  }),
+  // The segment being parsed and executed
+  currentSegmentIndex: Annotation<number>({
+    default: () => 0,
+    reducer: (_, v) => v,
+  }),
+  preprocessingError: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
   sessionId: Annotation<string>(),
   messages: Annotation<any[]>({
     default: () => [],
@@ -29,13 +62,24 @@ export const State = Annotation.Root({
     Array<{
       id: number;
       instruction: string;
-      status: "not_started" | "in_progress" | "passed" | "failed";
+      status: "not_started" | "in_progress" | "passed" | "failed" | "skipped" | "cancelled";
       notes: string;
+      expected_result?: string;
+      // Set by structured test specs
+      tags?: string[];
+      timeout?: number;
+      // Segment of a long instruction the step was parsed from, starting at 1
+      segment?: number;
     }>
   >({
     default: () => [],
     reducer: (_, v) => v,
   }),
+  // Quality rating of a free-text instruction, set when it is parsed
+  testCaseQuality: Annotation<TestCaseRating | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
   currentStepIndex: Annotation<number>({
     default: () => -1,
     reducer: (_, v) => v,
@@ -80,6 +124,59 @@ export const State = Annotation.Root({
     default: () => null,
     reducer: (_, v) => v,
   }),
+  // Last known browser URL, used to restore the page when resuming a session
+  lastUrl: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  // Values captured with the storeVariable tool, referenced as ${name} in later tool calls
+  variables: Annotation<RuntimeVariables>({
+    default: () => ({}),
+    reducer: (curr, v) => ({ ...curr, ...v }),
+  }),
+  // Note about already completed steps, added to the next prompt after a resume
+  resumeContext: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  // Step-by-step mode: execute one parsed step at a time and decide its status from its own verification
+  stepByStep: Annotation<boolean>({
+    default: () => false,
+    reducer: (_, v) => v,
+  }),
+  // Interactive mode: pause for the operator when a step fails all retries
+  interactive: Annotation<boolean>({
+    default: () => false,
+    reducer: (_, v) => v,
+  }),
+  interventionRequest: Annotation<InterventionRequest | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  // Operator hint added to the next execution prompt
+  operatorHint: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  interventions: Annotation<OperatorIntervention[]>({
+    default: () => [],
+    reducer: (curr, a) => [...curr, ...a],
+  }),
+  // Why the run stopped early, e.g. an exhausted run budget
+  abortReason: Annotation<string | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
+  // Whether the run was stopped through its AbortSignal
+  cancelled: Annotation<boolean>({
+    default: () => false,
+    reducer: (_, v) => v,
+  }),
+  // When the current step started in step-by-step mode, to enforce step timeouts
+  stepStartedAt: Annotation<{ stepId: number; time: number } | null>({
+    default: () => null,
+    reducer: (_, v) => v,
+  }),
   // Test execution time tracking fields
   testStartTime: Annotation<number | null>({
     default: () => null,
@@ -119,23 +216,35 @@ export const State = Annotation.Root({
 
 export type GraphStateType = (typeof State)["State"];
 
-const memory = new MemorySaver();
+// Checkpoints are persisted under each session directory so interrupted runs can be resumed
+export const checkpointer = new FileCheckpointSaver();
 
 export const browserAutomationGraph = new StateGraph(State)
   .addNode("preprocess", preprocessTestInputNode)
   .addNode("parse", parseTestStepsNode)
   .addNode("execute", executeAndVerifyNode)
   .addNode("track", trackAndUpdateStepsNode)
-  .addNode("tools", new ToolNode(ALL_TOOLS))
+  .addNode("tools", executeToolsNode)
   .addNode("report", generateReportNode)
   .addNode("playwrightScript", generatePlaywrightScriptNode)
+  .addNode("humanReview", humanReviewNode)
   .addEdge(START, "preprocess")
   .addEdge("preprocess", "parse")
-  .addEdge("parse", "execute")
+  .addConditionalEdges("parse", afterParseEdge, {
+    execute: "execute",
+    track: "track",
+  })
   .addConditionalEdges("execute", shouldContinueEdge, {
     tools: "tools",
+    humanReview: "humanReview",
+    nextStep: "execute", // step-by-step mode moves on to the next step
+    nextSegment: "parse", // a long instruction continues with its next segment
     end: "track", // call track for final verification
   })
+  .addConditionalEdges("humanReview", afterHumanReviewEdge, {
+    execute: "execute",
+    track: "track",
+  })
   .addConditionalEdges("track", shouldGeneratePlaywrightScript, {
     playwrightScript: "playwrightScript",
     report: "report",
@@ -148,4 +257,24 @@ export const browserAutomationGraph = new StateGraph(State)
   .addEdge("tools", "execute")
   .addEdge("tools", "track") // parallely execute track node along with execute node
   .addEdge("report", END) // After report, end the graph
-  .compile({ checkpointer: memory });
+  .compile({ checkpointer });
+
+// Preprocesses and parses an instruction without executing it, every segment of a long
+// instruction is parsed in turn
+export const testPlanGraph = new StateGraph(State)
+  .addNode("preprocess", preprocessTestInputNode)
+  .addNode("parse", parseTestStepsNode)
+  .addNode("nextSegment", ({ currentSegmentIndex }: GraphStateType) => ({
+    currentSegmentIndex: currentSegmentIndex + 1,
+  }))
+  .addEdge(START, "preprocess")
+  .addConditionalEdges("preprocess", afterPlanPreprocessEdge, {
+    parse: "parse",
+    end: END,
+  })
+  .addConditionalEdges("parse", afterPlanParseEdge, {
+    nextSegment: "nextSegment",
+    end: END,
+  })
+  .addEdge("nextSegment", "parse")
+  .compile();
@@ -0,0 +1,251 @@
+import { parse as parseYaml } from "yaml";
+import { featureToInstructions, parseFeature } from "../feature-loader";
+
+const gherkin = (...lines: string[]) => lines.join("\n");
+
+// Scenario names and steps, the parts most cases compare
+const stepsOf = (content: string) =>
+  Object.fromEntries(parseFeature(content).scenarios.map((scenario) => [scenario.name, scenario.spec.steps]));
+
+describe("parseFeature", () => {
+  it.each([
+    [
+      "And and But continue the keyword before them",
+      gherkin(
+        "Feature: Shop",
+        "  Scenario: Buy",
+        "    Given the shop is open",
+        "    And the cart is empty",
+        "    When I add a book",
+        "    But I remove it again",
+        "    Then the cart is empty",
+        "    And the total is 0"
+      ),
+      {
+        Buy: [
+          { action: "the shop is open" },
+          { action: "the cart is empty" },
+          { action: "I add a book" },
+          { action: "I remove it again", expected: "the cart is empty; the total is 0" },
+        ],
+      },
+    ],
+    [
+      "* continues the keyword before it and starts as Given",
+      gherkin("Feature: Shop", "  Scenario: Buy", "    * the shop is open", "    Then * is not a keyword", "    * the home page is shown"),
+      {
+        Buy: [{ action: "the shop is open", expected: "* is not a keyword; the home page is shown" }],
+      },
+    ],
+    [
+      "Then merges into the expected result of the step before it",
+      gherkin(
+        "Feature: Shop",
+        "  Scenario: Search",
+        "    When I search for books",
+        "    Then results are listed",
+        "    When I open the first result",
+        "    Then its details are shown"
+      ),
+      {
+        Search: [
+          { action: "I search for books", expected: "results are listed" },
+          { action: "I open the first result", expected: "its details are shown" },
+        ],
+      },
+    ],
+    [
+      "a leading Then becomes a verification step",
+      gherkin("Feature: Shop", "  Scenario: Home", "    Then the home page is shown"),
+      { Home: [{ action: "Verify that the home page is shown", expected: "the home page is shown" }] },
+    ],
+    [
+      "Background steps scope to the feature and to their Rule",
+      gherkin(
+        "Feature: Shop",
+        "  Background:",
+        "    Given the shop is open",
+        "  Scenario: Browse",
+        "    When I browse books",
+        "  Rule: Members",
+        "    Background:",
+        "      Given I am logged in",
+        "    Scenario: Reorder",
+        "      When I reorder my last order",
+        "  Rule: Guests",
+        "    Scenario: Checkout as guest",
+        "      When I check out as a guest"
+      ),
+      {
+        Browse: [{ action: "the shop is open" }, { action: "I browse books" }],
+        Reorder: [{ action: "the shop is open" }, { action: "I am logged in" }, { action: "I reorder my last order" }],
+        "Checkout as guest": [{ action: "the shop is open" }, { action: "I check out as a guest" }],
+      },
+    ],
+    [
+      "doc strings are appended to the step before them",
+      gherkin(
+        "Feature: Shop",
+        "  Scenario: Review",
+        "    When I write the review",
+        '      """',
+        "      Great book,",
+        "        would read again",
+        '      """',
+        "    Then the review is shown",
+        "      ```",
+        "      Great book,",
+        "      ```"
+      ),
+      {
+        Review: [
+          {
+            action: "I write the review\nGreat book,\nwould read again",
+            expected: "the review is shown\nGreat book,",
+          },
+        ],
+      },
+    ],
+    [
+      "data tables are appended to the step before them",
+      gherkin(
+        "Feature: Shop",
+        "  Scenario: Register",
+        "    When I register with",
+        "      | field | value     |",
+        "      | email | a\\|b@x.io |"
+      ),
+      { Register: [{ action: "I register with\n| field | value |\n| email | a|b@x.io |" }] },
+    ],
+    [
+      "comments and blank lines are ignored",
+      gherkin("# Shop tests", "Feature: Shop", "", "  Scenario: Browse", "    # not a step", "    When I browse books"),
+      { Browse: [{ action: "I browse books" }] },
+    ],
+  ])("%s", (_, content, expected) => {
+    expect(stepsOf(content)).toEqual(expected);
+  });
+
+  it("reads the name, description and tags of the feature", () => {
+    const feature = parseFeature(
+      gherkin(
+        "@shop @smoke",
+        "Feature: Shop",
+        "  Customers buy books.",
+        "  They pay by card.",
+        "  @checkout @smoke",
+        "  Scenario: Buy",
+        "    When I buy a book"
+      )
+    );
+
+    expect(feature).toMatchObject({
+      name: "Shop",
+      description: "Customers buy books.\nThey pay by card.",
+      tags: ["shop", "smoke"],
+    });
+    expect(feature.scenarios[0].tags).toEqual(["shop", "smoke", "checkout"]);
+    expect(feature.scenarios[0].spec).toEqual({
+      name: "Buy",
+      tags: ["shop", "smoke", "checkout"],
+      steps: [{ action: "I buy a book" }],
+    });
+  });
+
+  it("expands every Examples row of an outline into a scenario with its tags", () => {
+    const feature = parseFeature(
+      gherkin(
+        "Feature: Login",
+        "  @login",
+        "  Scenario Outline: Log in as <role>",
+        "    When I log in as <user>",
+        "    Then I see the <page> page",
+        "    @admin",
+        "    Examples: Admins",
+        "      | role  | user | page      |",
+        "      | admin | ada  | dashboard |",
+        "    Scenarios: Customers",
+        "      | role     | user  | page |",
+        "      | customer | grace | shop |",
+        "      | guest    | <none> | home |"
+      )
+    );
+
+    expect(
+      feature.scenarios.map(({ name, tags, spec }) => ({ name, tags, steps: spec.steps }))
+    ).toEqual([
+      {
+        name: "Log in as admin [admin, ada, dashboard]",
+        tags: ["login", "admin"],
+        steps: [{ action: "I log in as ada", expected: "I see the dashboard page" }],
+      },
+      {
+        name: "Log in as customer [customer, grace, shop]",
+        tags: ["login"],
+        steps: [{ action: "I log in as grace", expected: "I see the shop page" }],
+      },
+      {
+        name: "Log in as guest [guest, <none>, home]",
+        tags: ["login"],
+        steps: [{ action: "I log in as <none>", expected: "I see the home page" }],
+      },
+    ]);
+  });
+
+  it("keeps placeholders that name no column, including prototype keys", () => {
+    const steps = stepsOf(
+      gherkin(
+        "Feature: Login",
+        "  Scenario Outline: Log in",
+        "    When I log in as <user> with <constructor>",
+        "    Examples:",
+        "      | user |",
+        "      | ada  |"
+      )
+    );
+
+    expect(steps).toEqual({ "Log in [ada]": [{ action: "I log in as ada with <constructor>" }] });
+  });
+
+  it.each([
+    ["there is no Feature", "Scenario: Buy\n  When I buy a book", '"Scenario:" before the Feature (shop.feature, line 1)'],
+    ["the file is empty", "", "No Feature found in shop.feature"],
+    ["there are two Features", "Feature: A\nFeature: B", "Only one Feature is allowed per file (shop.feature, line 2)"],
+    ["a step is outside a scenario", "Feature: Shop\n  When I buy a book", "Step outside a Scenario or Background (shop.feature, line 2)"],
+    ["a doc string is not closed", 'Feature: Shop\n Scenario: Buy\n  When I buy\n  """\n  text', "Unterminated doc string (shop.feature, line 4)"],
+    ["a doc string has no step", 'Feature: Shop\n Scenario: Buy\n  """\n  text\n  """', "Doc string without a step (shop.feature, line 3)"],
+    ["a table has no step", "Feature: Shop\n Scenario: Buy\n  | a |", "Table without a step or Examples block (shop.feature, line 3)"],
+    ["Examples follow a plain Scenario", "Feature: Shop\n Scenario: Buy\n  When I buy\n  Examples:", "Examples outside a Scenario Outline (shop.feature, line 4)"],
+    [
+      "an Examples row has too few cells",
+      "Feature: Shop\n Scenario Outline: Buy <item>\n  When I buy <item>\n  Examples:\n   | item | count |\n   | book |",
+      "Examples row has 1 cells, expected 2 (shop.feature, line 6)",
+    ],
+    [
+      "an Examples row has too many cells",
+      "Feature: Shop\n Scenario Outline: Buy <item>\n  When I buy <item>\n  Examples:\n   | item |\n   | book | 2 |",
+      "Examples row has 2 cells, expected 1 (shop.feature, line 6)",
+    ],
+    ["an outline has no Examples rows", "Feature: Shop\n Scenario Outline: Buy\n  When I buy <item>\n  Examples:\n   | item |", 'Scenario Outline "Buy" has no Examples rows (shop.feature)'],
+    ["a scenario has no steps", "Feature: Shop\n Scenario: Buy", 'Scenario "Buy" has no steps'],
+    ["the feature has no scenarios", "Feature: Shop\n Background:\n  Given the shop is open", 'Feature "Shop" has no scenarios (shop.feature)'],
+  ])("fails when %s", (_, content, message) => {
+    expect(() => parseFeature(content, "shop.feature")).toThrow(message);
+  });
+});
+
+describe("featureToInstructions", () => {
+  it("turns every scenario into a YAML spec instruction", () => {
+    const [instruction] = featureToInstructions(
+      parseFeature(gherkin("@smoke", "Feature: Shop", "  Scenario: Buy", "    When I buy a book", "    Then it is in the cart"))
+    );
+
+    expect(instruction.name).toBe("Buy");
+    expect(instruction.tags).toEqual(["smoke"]);
+    expect(parseYaml(instruction.instruction)).toEqual({
+      name: "Buy",
+      tags: ["smoke"],
+      steps: [{ action: "I buy a book", expected: "it is in the cart" }],
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expandIncludes } from "../include-loader";
+
+describe("expandIncludes", () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-include-"));
+    jest.spyOn(process, "cwd").mockReturnValue(root);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.FACTIFAI_TEST_FLOW;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("resolves paths relative to the file that includes them", () => {
+    write("common/login.txt", "@include ./steps/credentials.txt\nClick sign in\n\n");
+    write("common/steps/credentials.txt", "Type {{user}} into the user field");
+    const testFile = write("tests/checkout/buy.txt", "");
+
+    const content = 'Open the shop\n  @include "../../common/login.txt"  \nBuy a book';
+
+    expect(expandIncludes(content, testFile)).toBe(
+      "Open the shop\nType {{user}} into the user field\nClick sign in\nBuy a book"
+    );
+  });
+
+  it("resolves paths of an instruction without a file against the working directory", () => {
+    write("common/login.txt", "Log in");
+
+    expect(expandIncludes("@include 'common/login.txt'\r\nBuy a book")).toBe("Log in\nBuy a book");
+  });
+
+  it("fills references in the path", () => {
+    process.env.FACTIFAI_TEST_FLOW = "login";
+    write("flows/login.txt", "Log in");
+
+    expect(expandIncludes("@include flows/${env:FACTIFAI_TEST_FLOW}.txt")).toBe("Log in");
+  });
+
+  it("keeps runtime variables, data placeholders and references of included content", () => {
+    const included = "Store the order number as ${orderId}\nSearch for {{ product }}\nOpen ${env:FACTIFAI_TEST_UNSET}";
+    write("common/order.txt", included);
+
+    expect(expandIncludes("@include common/order.txt")).toBe(included);
+  });
+
+  it("leaves lines that only mention @include alone", () => {
+    const content = "Type @include into the search field\n@include two files.txt";
+    expect(expandIncludes(content)).toBe(content);
+  });
+
+  it.each([
+    ["a file that includes itself", { "a.txt": "@include a.txt" }, "Circular @include: a.txt -> a.txt"],
+    [
+      "files that include each other",
+      { "a.txt": "@include nested/b.txt", "nested/b.txt": "@include ../a.txt" },
+      `Circular @include: a.txt -> ${path.join("nested", "b.txt")} -> a.txt`,
+    ],
+  ])("rejects %s", (_, files, message) => {
+    Object.entries(files).forEach(([file, content]) => write(file, content));
+
+    expect(() => expandIncludes(fs.readFileSync(path.join(root, "a.txt"), "utf8"), path.join(root, "a.txt"))).toThrow(
+      message
+    );
+  });
+
+  it("includes the same file twice when it is not a cycle", () => {
+    write("common/wait.txt", "Wait for the page");
+
+    expect(expandIncludes("@include common/wait.txt\n@include common/wait.txt")).toBe(
+      "Wait for the page\nWait for the page"
+    );
+  });
+
+  it.each([
+    ["a missing file", "@include missing.txt", "Included file not found: missing.txt (included from the instruction)"],
+    ["a directory", "@include common", "Included file not found: common (included from the instruction)"],
+    ["a missing reference", "@include ${env:FACTIFAI_TEST_UNSET}.txt", "No value for ${env:FACTIFAI_TEST_UNSET}"],
+  ])("rejects %s", (_, content, message) => {
+    fs.mkdirSync(path.join(root, "common"));
+
+    expect(() => expandIncludes(content)).toThrow(message);
+  });
+
+  it("names the including file of a missing file", () => {
+    write("common/login.txt", "@include credentials.txt");
+
+    expect(() => expandIncludes("@include common/login.txt")).toThrow(
+      `Included file not found: credentials.txt (included from ${path.join("common", "login.txt")})`
+    );
+  });
+});
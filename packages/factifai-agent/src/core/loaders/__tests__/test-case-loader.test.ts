@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { discoverTestFiles, loadTestCases } from "../test-case-loader";
+
+describe("discoverTestFiles", () => {
+  let root: string;
+
+  const write = (relativePath: string, content = "open the page") => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const discover = (pattern: string) =>
+    discoverTestFiles(path.join(root, pattern)).map((filePath) =>
+      path.relative(root, filePath).split(path.sep).join("/")
+    );
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-discovery-"));
+    [
+      "login.txt",
+      "checkout.md",
+      "notes.json",
+      "a/one.txt",
+      "a/two.md",
+      "b/three.txt",
+      "b/deep/four.txt",
+      "c/five.txt",
+      "c/test1.txt",
+      "c/test2.txt",
+      "c/testx.txt",
+      ".hidden/six.txt",
+      "node_modules/pkg/seven.txt",
+    ].forEach((file) => write(file));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("returns a single existing file as is", () => {
+    expect(discover("notes.json")).toEqual(["notes.json"]);
+  });
+
+  it("walks a directory for test case files in sorted order", () => {
+    expect(discover(".")).toEqual([
+      "a/one.txt",
+      "a/two.md",
+      "b/deep/four.txt",
+      "b/three.txt",
+      "c/five.txt",
+      "c/test1.txt",
+      "c/test2.txt",
+      "c/testx.txt",
+      "checkout.md",
+      "login.txt",
+    ]);
+  });
+
+  it.each([
+    ["*.txt", ["login.txt"]],
+    ["*/*.txt", ["a/one.txt", "b/three.txt", "c/five.txt", "c/test1.txt", "c/test2.txt", "c/testx.txt"]],
+    ["b/**/*.txt", ["b/deep/four.txt", "b/three.txt"]],
+    ["**/four.txt", ["b/deep/four.txt"]],
+    ["c/test?.txt", ["c/test1.txt", "c/test2.txt", "c/testx.txt"]],
+    ["{a,b}/*.txt", ["a/one.txt", "b/three.txt"]],
+    ["a/*.{txt,md}", ["a/one.txt", "a/two.md"]],
+    ["*/{one,deep/four}.txt", ["a/one.txt", "b/deep/four.txt"]],
+    ["c/test[0-9].txt", ["c/test1.txt", "c/test2.txt"]],
+    ["c/test[!0-9].txt", ["c/testx.txt"]],
+    ["[ab]/*.txt", ["a/one.txt", "b/three.txt"]],
+  ])("matches %s", (pattern, expected) => {
+    expect(discover(pattern)).toEqual(expected);
+  });
+
+  it("skips hidden folders and node_modules when matching a glob", () => {
+    expect(discover("**/{six,seven}.txt")).toEqual([]);
+  });
+
+  it("returns nothing when the base directory of the glob does not exist", () => {
+    expect(discover("missing/**/*.txt")).toEqual([]);
+  });
+
+  it.each([
+    ["{a,b/*.txt", '"{" is not closed'],
+    ["c/test[0-9.txt", '"[" is not closed'],
+  ])("rejects the unclosed glob %s", (pattern, message) => {
+    expect(() => discover(pattern)).toThrow(message);
+  });
+});
+
+describe("loadTestCases", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-load-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("derives unique ids from the file names", () => {
+    const files = ["Login Flow.txt", "nested/login flow.txt"].map((file) => {
+      const filePath = path.join(root, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, "open the login page");
+      return filePath;
+    });
+
+    expect(loadTestCases(files).map(({ id, name }) => ({ id, name }))).toEqual([
+      { id: "login-flow", name: "Login Flow" },
+      { id: "login-flow-2", name: "login flow" },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SecretManager } from "../../../common/utils/secret-manager";
+import type { TestCaseDefinition } from "../test-case-loader";
+import { expandTestCases, findPlaceholders, loadTestData } from "../test-data-loader";
+
+describe("loadTestData", () => {
+  let dataDir: string;
+
+  const writeData = (fileName: string, content: string) => {
+    const filePath = path.join(dataDir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-data-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["plain values", "user,city\nada,London\n", [{ user: "ada", city: "London" }]],
+    ["quoted commas", 'user,city\nada,"London, UK"\n', [{ user: "ada", city: "London, UK" }]],
+    ["quoted line breaks", 'user,address\nada,"1 Main St\nLondon"\n', [{ user: "ada", address: "1 Main St\nLondon" }]],
+    ["doubled quotes", 'user,nickname\nada,"the ""first"" one"\n', [{ user: "ada", nickname: 'the "first" one' }]],
+    ["a byte order mark", "\uFEFFuser,city\nada,London\n", [{ user: "ada", city: "London" }]],
+    ["CRLF line endings", "user,city\r\nada,London\r\ngrace,Paris\r\n", [
+      { user: "ada", city: "London" },
+      { user: "grace", city: "Paris" },
+    ]],
+    ["blank lines", "user,city\n\nada,London\n , \n\ngrace,Paris", [
+      { user: "ada", city: "London" },
+      { user: "grace", city: "Paris" },
+    ]],
+    ["missing and padded fields", " user , city \n ada \n", [{ user: "ada", city: "" }]],
+  ])("parses CSV with %s", (_, content, expected) => {
+    expect(loadTestData(writeData("users.csv", content))).toEqual(expected);
+  });
+
+  it("reads JSON rows and converts values to strings", () => {
+    const filePath = writeData("users.json", JSON.stringify([{ user: "ada", age: 36, admin: true }]));
+    expect(loadTestData(filePath)).toEqual([{ user: "ada", age: "36", admin: "true" }]);
+  });
+
+  it.each([
+    ["users.csv", "user,city\n", "Data file has no rows"],
+    ["users.json", '{"user": "ada"}', "must contain an array of objects"],
+    ["users.json", "[{", "Invalid JSON in data file"],
+    ["users.txt", "user\nada", 'Unsupported data file format ".txt"'],
+  ])("rejects %s containing %j", (fileName, content, message) => {
+    expect(() => loadTestData(writeData(fileName, content))).toThrow(message);
+  });
+
+  it("rejects a missing file", () => {
+    expect(() => loadTestData(path.join(dataDir, "missing.csv"))).toThrow("Data file not found");
+  });
+});
+
+describe("findPlaceholders", () => {
+  it("returns the unique names in order of first use", () => {
+    expect(findPlaceholders("Log in as {{ user }} in {{city}}, then greet {{user}} and {{ order.id }}")).toEqual([
+      "user",
+      "city",
+      "order.id",
+    ]);
+  });
+});
+
+describe("expandTestCases", () => {
+  const testCase = (instruction: string): TestCaseDefinition => ({
+    id: "login",
+    name: "Login",
+    filePath: "/tests/login.txt",
+    instruction,
+  });
+
+  afterEach(() => {
+    SecretManager.delete("LOGIN_PASSWORD");
+  });
+
+  it("creates one test case per row, named by the name column or the row number", () => {
+    const expanded = expandTestCases(
+      [testCase("Log in as {{user}}")],
+      [{ name: "Admin", user: "ada" }, { name: "admin", user: "root" }, { user: "grace" }]
+    );
+
+    expect(expanded.map(({ id, name, instruction }) => ({ id, name, instruction }))).toEqual([
+      { id: "login-admin", name: "Login [Admin]", instruction: "Log in as ada" },
+      { id: "login-admin-2", name: "Login [admin]", instruction: "Log in as root" },
+      { id: "login-row-3", name: "Login [row 3]", instruction: "Log in as grace" },
+    ]);
+  });
+
+  it("keeps test cases without placeholders", () => {
+    const plain = testCase("Open the home page");
+    expect(expandTestCases([plain], [{ user: "ada" }])).toEqual([plain]);
+  });
+
+  it("fails when a placeholder has no column in every row", () => {
+    expect(() =>
+      expandTestCases([testCase("Log in as {{user}} from {{city}}")], [{ user: "ada", city: "London" }, { user: "grace" }])
+    ).toThrow('Test case "Login" uses placeholders without a data column: city');
+  });
+
+  it.each(["constructor", "toString", "hasOwnProperty"])(
+    "does not take the prototype key %s for a column",
+    (name) => {
+      expect(() => expandTestCases([testCase(`Type {{${name}}}`)], [{ user: "ada" }])).toThrow(
+        `placeholders without a data column: ${name}`
+      );
+    }
+  );
+
+  it("replaces a placeholder without a column by the key of a secret", () => {
+    SecretManager.set("LOGIN_PASSWORD", "s3cret");
+
+    const [expanded] = expandTestCases(
+      [testCase("Log in as {{user}} with {{LOGIN_PASSWORD}}")],
+      [{ user: "ada" }]
+    );
+
+    expect(expanded.instruction).toBe("Log in as ada with LOGIN_PASSWORD");
+  });
+
+  it("prefers a data column over a secret of the same name", () => {
+    SecretManager.set("LOGIN_PASSWORD", "s3cret");
+
+    const [expanded] = expandTestCases([testCase("Type {{LOGIN_PASSWORD}}")], [{ LOGIN_PASSWORD: "from-data" }]);
+
+    expect(expanded.instruction).toBe("Type from-data");
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { TestCaseDefinition } from "../test-case-loader";
+import { describeSelection, hasSelection, selectTestCases, type TestSelection } from "../test-selection";
+import { runTestSuite } from "../../runners/suite-runner";
+
+const testCase = (name: string, tags: string[] = [], extra: Partial<TestCaseDefinition> = {}): TestCaseDefinition => ({
+  id: name.toLowerCase().replace(/\s+/g, "-"),
+  name,
+  filePath: `/suite/${name.toLowerCase().replace(/\s+/g, "-")}.txt`,
+  instruction: `Run ${name}`,
+  tags,
+  ...extra,
+});
+
+const testCases = [
+  testCase("Login", ["smoke", "auth"]),
+  testCase("Checkout", ["Smoke", "slow"]),
+  testCase("Search", ["regression"]),
+  testCase("Guest order", ["@checkout"], { feature: "Orders", filePath: "/suite/features/orders.feature" }),
+  testCase("Profile"),
+];
+
+const select = (selection: TestSelection) => {
+  const { selected, skipped } = selectTestCases(testCases, selection);
+  return {
+    selected: selected.map((candidate) => candidate.name),
+    skipped: Object.fromEntries(skipped.map(({ testCase, reason }) => [testCase.name, reason])),
+  };
+};
+
+describe("selectTestCases", () => {
+  it.each<[string, TestSelection, string[]]>([
+    ["no filters", {}, ["Login", "Checkout", "Search", "Guest order", "Profile"]],
+    ["a tag, case-insensitively", { tags: ["SMOKE"] }, ["Login", "Checkout"]],
+    ["any of several tags", { tags: ["auth", "regression"] }, ["Login", "Search"]],
+    ["comma-separated tags", { tags: ["auth, regression"] }, ["Login", "Search"]],
+    ["@-prefixed tags", { tags: ["@smoke"] }, ["Login", "Checkout"]],
+    ["tags written with @ on the test case", { tags: ["checkout"] }, ["Guest order"]],
+    ["excluded tags", { excludeTags: ["@slow,regression"] }, ["Login", "Guest order", "Profile"]],
+    ["grep over the name", { grep: "^log" }, ["Login"]],
+    ["grep over the feature", { grep: "orders" }, ["Guest order"]],
+    ["grep over the file path", { grep: "features/" }, ["Guest order"]],
+    ["tags and grep together", { tags: ["smoke"], grep: "check" }, ["Checkout"]],
+  ])("selects by %s", (_, selection, expected) => {
+    expect(select(selection).selected).toEqual(expected);
+  });
+
+  it("lets an excluded tag win over an included one", () => {
+    expect(select({ tags: ["smoke"], excludeTags: ["slow"] })).toEqual({
+      selected: ["Login"],
+      skipped: {
+        Checkout: 'Excluded by tag "slow"',
+        Search: 'Has none of the tags "smoke"',
+        "Guest order": 'Has none of the tags "smoke"',
+        Profile: 'Has none of the tags "smoke"',
+      },
+    });
+  });
+
+  it("names the grep pattern of the test cases it skips", () => {
+    expect(select({ tags: ["smoke", "auth"], grep: "login" }).skipped).toEqual({
+      Checkout: 'Does not match --grep "login"',
+      Search: 'Has none of the tags "smoke", "auth"',
+      "Guest order": 'Has none of the tags "smoke", "auth"',
+      Profile: 'Has none of the tags "smoke", "auth"',
+    });
+  });
+
+  it("rejects an invalid grep pattern", () => {
+    expect(() => selectTestCases(testCases, { grep: "(login" })).toThrow(/Invalid regular expression/);
+  });
+});
+
+describe("hasSelection and describeSelection", () => {
+  it.each<[TestSelection | undefined, boolean]>([
+    [undefined, false],
+    [{}, false],
+    [{ tags: [], excludeTags: [] }, false],
+    [{ tags: ["smoke"] }, true],
+    [{ excludeTags: ["slow"] }, true],
+    [{ grep: "login" }, true],
+  ])("hasSelection(%j) is %p", (selection, expected) => {
+    expect(hasSelection(selection)).toBe(expected);
+  });
+
+  it("describes the filters as command line options", () => {
+    expect(describeSelection({ tags: ["@Smoke,auth"], excludeTags: ["slow"], grep: "check" })).toBe(
+      '--tag smoke --tag auth --exclude-tag slow --grep "check"'
+    );
+  });
+});
+
+describe("runTestSuite with selection filters", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-selection-"));
+    jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("reports the test cases it leaves out as skipped testcases", async () => {
+    const result = await runTestSuite(testCases, {
+      suiteId: "factifai-suite-selection",
+      suiteName: "Selection",
+      selection: { tags: ["nightly"] },
+      reportFormat: "xml",
+    });
+
+    expect(result).toMatchObject({ total: 0, skipped: 5 });
+    const xml = fs.readFileSync(result.reportPaths[0], "utf8");
+    expect(xml).toContain('<testsuites name="Selection" tests="5" failures="0" errors="0" skipped="5"');
+    expect(xml).toContain(
+      '<testcase classname="factifai.tests" name="Login" time="0">\n      <skipped message="Has none of the tags &quot;nightly&quot; (filters: --tag nightly)"/>'
+    );
+    expect(xml).toContain('<testsuite name="Orders" tests="1" failures="0" errors="0" skipped="1"');
+  });
+});
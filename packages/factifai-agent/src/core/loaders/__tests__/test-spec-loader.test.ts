@@ -0,0 +1,148 @@
+import { parseTestSpec, readTestTags, specToTestSteps, testStepsToSpec } from "../test-spec-loader";
+
+describe("parseTestSpec", () => {
+  it("reads a YAML spec", () => {
+    const content = `name: Checkout
+tags: [smoke, checkout]
+steps:
+  - action: Open the shop
+    expected: The home page is shown
+  - id: 5
+    action: Add a book to the cart
+    tags: cart, books
+    timeout: 30
+`;
+
+    expect(parseTestSpec(content)).toEqual({
+      name: "Checkout",
+      tags: ["smoke", "checkout"],
+      steps: [
+        { action: "Open the shop", expected: "The home page is shown" },
+        { id: 5, action: "Add a book to the cart", tags: ["cart", "books"], timeout: 30 },
+      ],
+    });
+  });
+
+  it("reads a Markdown spec with front matter, heading and description", () => {
+    const content = [
+      "---",
+      "tags: smoke",
+      "---",
+      "# Checkout",
+      "Buys a single book.",
+      "",
+      "| # | Step | Expected Result | Timeout |",
+      "| --- | --- | :---: | --- |",
+      "| 1 | Open the shop | The home page is shown | 30s |",
+      "| 2 | Search for a \\| pipe | Results are listed | |",
+      "",
+      "Notes after the table are ignored.",
+    ].join("\r\n");
+
+    expect(parseTestSpec(content)).toEqual({
+      name: "Checkout",
+      description: "Buys a single book.",
+      tags: ["smoke"],
+      steps: [
+        { id: 1, action: "Open the shop", expected: "The home page is shown", timeout: 30 },
+        { id: 2, action: "Search for a | pipe", expected: "Results are listed" },
+      ],
+    });
+  });
+
+  it.each([
+    ["Step", "Expected"],
+    ["Action", "Expected Result"],
+    ["instruction", "EXPECTED"],
+  ])("accepts the %s and %s columns", (actionColumn, expectedColumn) => {
+    const content = `| ${actionColumn} | ${expectedColumn} |\n| --- | --- |\n| Open the shop | The home page is shown |`;
+
+    expect(parseTestSpec(content)?.steps).toEqual([
+      { action: "Open the shop", expected: "The home page is shown" },
+    ]);
+  });
+
+  it.each([
+    ["30", 30],
+    ["30s", 30],
+    [" 1.5 S ", 1.5],
+  ])("reads the timeout %j in seconds", (timeout, expected) => {
+    const content = `steps:\n  - action: Open the shop\n    timeout: "${timeout}"`;
+
+    expect(parseTestSpec(content)?.steps[0].timeout).toBe(expected);
+  });
+
+  it.each([
+    ["a free-text instruction", "Open the shop and add a book to the cart"],
+    ["a YAML sentence with a steps key", "steps: open the site and log in"],
+    ["a mapping with empty steps", "name: Checkout\nsteps:"],
+    ["a Markdown table without an expected column", "| Step | Notes |\n| --- | --- |\n| Open the shop | fast |"],
+    ["a YAML list", "- open the shop\n- add a book"],
+  ])("returns null for %s", (_, content) => {
+    expect(parseTestSpec(content)).toBeNull();
+  });
+
+  it.each([
+    [
+      "duplicate step ids",
+      "steps:\n  - id: 1\n    action: Open the shop\n  - action: Add a book\n  - id: 1\n    action: Pay",
+      "steps: step id 1 is used more than once",
+    ],
+    ["an empty action", "steps:\n  - action: '  '", "steps.0.action: action must not be empty"],
+    ["no steps", "steps: []", "steps: a test spec needs at least one step"],
+    ["an unknown step key", "steps:\n  - action: Open the shop\n    wait: 5", "Unrecognized key(s) in object: 'wait'"],
+    ["a negative timeout", "steps:\n  - action: Open the shop\n    timeout: -5", "steps.0.timeout"],
+    ["a timeout in minutes", "steps:\n  - action: Open the shop\n    timeout: 5m", "steps.0.timeout"],
+  ])("rejects a spec with %s", (_, content, message) => {
+    expect(() => parseTestSpec(content)).toThrow("Invalid test spec");
+    expect(() => parseTestSpec(content)).toThrow(message);
+  });
+
+  it("rejects an unknown column of a step table", () => {
+    const content = "| Step | Expected | Owner |\n| --- | --- | --- |\n| Open the shop | Home page | ada |";
+
+    expect(() => parseTestSpec(content)).toThrow('Unknown column "Owner" in the step table');
+  });
+
+  it("rejects front matter that is not a mapping", () => {
+    const content = "---\n- smoke\n---\n| Step | Expected |\n| --- | --- |\n| Open the shop | Home page |";
+
+    expect(() => parseTestSpec(content)).toThrow("Invalid front matter in test spec");
+  });
+});
+
+describe("specToTestSteps and testStepsToSpec", () => {
+  it("convert a spec into test steps and back", () => {
+    const spec = {
+      name: "Checkout",
+      steps: [
+        { id: 1, action: "Open the shop", expected: "The home page is shown", tags: ["smoke"] },
+        { id: 4, action: "Pay", timeout: 20 },
+      ],
+    };
+
+    const testSteps = specToTestSteps(spec);
+
+    expect(testSteps.map((step) => step.status)).toEqual(["in_progress", "not_started"]);
+    expect(testStepsToSpec(testSteps, "Checkout")).toEqual(spec);
+  });
+});
+
+describe("readTestTags", () => {
+  it("reads the tags of a spec and keeps its content", () => {
+    const content = "tags: [smoke]\nsteps:\n  - action: Open the shop";
+    expect(readTestTags(content)).toEqual({ instruction: content, tags: ["smoke"] });
+  });
+
+  it("removes the front matter of a free-text instruction", () => {
+    expect(readTestTags("---\ntags: smoke, login\n---\nOpen the shop")).toEqual({
+      instruction: "Open the shop",
+      tags: ["smoke", "login"],
+    });
+  });
+
+  it("has no tags for an invalid spec", () => {
+    const content = "steps: []";
+    expect(readTestTags(content)).toEqual({ instruction: content, tags: [] });
+  });
+});
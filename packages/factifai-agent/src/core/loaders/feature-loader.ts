@@ -0,0 +1,348 @@
+import * as fs from "fs";
+import * as path from "path";
+import { stringify as stringifyYaml } from "yaml";
+import { hasOwn } from "../../common/utils/object-utils";
+import type { TestSpec, TestSpecStep } from "./test-spec-loader";
+
+/**
+ * File extension of Gherkin feature files
+ */
+export const FEATURE_FILE_EXTENSION = ".feature";
+
+/**
+ * A scenario of a feature file, Scenario Outlines yield one scenario per Examples row
+ */
+export interface ScenarioDefinition {
+  name: string;
+  /** Tags of the feature, the scenario and its Examples block, without "@" */
+  tags: string[];
+  /** The scenario as a structured test spec, Background steps included */
+  spec: TestSpec;
+}
+
+/**
+ * A Gherkin feature with its expanded scenarios
+ */
+export interface FeatureDefinition {
+  name: string;
+  description: string;
+  tags: string[];
+  scenarios: ScenarioDefinition[];
+}
+
+type GherkinStep = { keyword: "given" | "when" | "then"; text: string };
+
+type ScenarioBlock = {
+  name: string;
+  tags: string[];
+  outline: boolean;
+  steps: GherkinStep[];
+  background: GherkinStep[];
+  examples: Array<{ tags: string[]; header: string[]; rows: string[][] }>;
+};
+
+// Keywords that open a block, e.g. "Scenario Outline: Log in as <role>"
+const BLOCK_KEYWORD = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+
+// Step lines, "And", "But" and "*" continue the previous keyword
+const STEP_KEYWORD = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+
+// "<role>" placeholders of a Scenario Outline
+const OUTLINE_PLACEHOLDER = /<([^<>]+)>/g;
+
+/**
+ * Whether a file is a Gherkin feature file
+ */
+export function isFeatureFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === FEATURE_FILE_EXTENSION;
+}
+
+/**
+ * Load and parse a Gherkin feature file
+ * @param filePath Path of the .feature file
+ * @returns The feature with its expanded scenarios
+ * @throws Error if the file cannot be read or is not valid Gherkin
+ */
+export function loadFeature(filePath: string): FeatureDefinition {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Feature file not found: ${filePath}`);
+  }
+
+  return parseFeature(fs.readFileSync(resolvedPath, "utf8"), filePath);
+}
+
+/**
+ * Parse Gherkin into scenarios of test steps. Given and When lines become the actions of
+ * steps, Then lines the expected results of the step before them. Background steps are
+ * prepended to every scenario of their feature or rule, and every Examples row of a
+ * Scenario Outline becomes a scenario with its <placeholders> filled in.
+ * @param content The Gherkin text
+ * @param source Name of the source for error messages
+ * @returns The feature with its expanded scenarios
+ * @throws Error if there is no Feature, a step is outside a scenario or an outline has no examples
+ */
+export function parseFeature(content: string, source: string = "feature"): FeatureDefinition {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+  let feature: { name: string; description: string[]; tags: string[] } | null = null;
+  let featureBackground: GherkinStep[] = [];
+  let ruleBackground: GherkinStep[] = [];
+  let inRule = false;
+  let pendingTags: string[] = [];
+  const blocks: ScenarioBlock[] = [];
+
+  // The block that steps and tables are added to
+  let current:
+    | { type: "background" }
+    | { type: "scenario"; block: ScenarioBlock }
+    | { type: "examples"; block: ScenarioBlock }
+    | null = null;
+  let lastStep: GherkinStep | null = null;
+
+  const fail = (lineIndex: number, message: string): never => {
+    throw new Error(`${message} (${source}, line ${lineIndex + 1})`);
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    // Doc strings belong to the step before them
+    if (line.startsWith('"""') || line.startsWith("```")) {
+      const delimiter = line.slice(0, 3);
+      const docLines: string[] = [];
+      let end = index + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(delimiter)) {
+        docLines.push(lines[end].trim());
+        end++;
+      }
+      if (end === lines.length) {
+        fail(index, "Unterminated doc string");
+      }
+      if (!lastStep) {
+        fail(index, "Doc string without a step");
+      }
+      lastStep!.text += `\n${docLines.join("\n")}`;
+      index = end;
+      continue;
+    }
+
+    if (line.startsWith("@")) {
+      pendingTags.push(
+        ...line
+          .split(/\s+/)
+          .filter((tag) => tag.startsWith("@"))
+          .map((tag) => tag.slice(1))
+      );
+      continue;
+    }
+
+    if (line.startsWith("|")) {
+      const cells = splitTableRow(line);
+      if (current?.type === "examples") {
+        const examples = current.block.examples[current.block.examples.length - 1];
+        if (examples.header.length === 0) {
+          examples.header = cells;
+        } else if (cells.length !== examples.header.length) {
+          fail(index, `Examples row has ${cells.length} cells, expected ${examples.header.length}`);
+        } else {
+          examples.rows.push(cells);
+        }
+      } else if (lastStep) {
+        // Data tables are passed on to the step as written
+        lastStep.text += `\n| ${cells.join(" | ")} |`;
+      } else {
+        fail(index, "Table without a step or Examples block");
+      }
+      continue;
+    }
+
+    const blockMatch = line.match(BLOCK_KEYWORD);
+    if (blockMatch) {
+      const [, keyword, name] = blockMatch;
+      const tags = pendingTags;
+      pendingTags = [];
+      lastStep = null;
+
+      if (keyword === "Feature") {
+        if (feature) {
+          fail(index, "Only one Feature is allowed per file");
+        }
+        feature = { name: name.trim(), description: [], tags };
+        current = null;
+      } else if (!feature) {
+        fail(index, `"${keyword}:" before the Feature`);
+      } else if (keyword === "Rule") {
+        inRule = true;
+        ruleBackground = [];
+        current = null;
+      } else if (keyword === "Background") {
+        if (inRule) {
+          ruleBackground = [];
+        } else {
+          featureBackground = [];
+        }
+        current = { type: "background" };
+      } else if (keyword === "Examples" || keyword === "Scenarios") {
+        const block: ScenarioBlock | null =
+          current && current.type !== "background" ? current.block : null;
+        if (!block?.outline) {
+          fail(index, "Examples outside a Scenario Outline");
+        }
+        block!.examples.push({ tags, header: [], rows: [] });
+        current = { type: "examples", block: block! };
+      } else {
+        const block: ScenarioBlock = {
+          name: name.trim(),
+          tags,
+          outline: keyword === "Scenario Outline" || keyword === "Scenario Template",
+          steps: [],
+          background: [...featureBackground, ...(inRule ? ruleBackground : [])],
+          examples: [],
+        };
+        blocks.push(block);
+        current = { type: "scenario", block };
+      }
+      continue;
+    }
+
+    const stepMatch = line.match(STEP_KEYWORD);
+    if (stepMatch && current && current.type !== "examples") {
+      const [, keyword, text] = stepMatch;
+      const steps =
+        current.type === "background"
+          ? inRule
+            ? ruleBackground
+            : featureBackground
+          : current.block.steps;
+      const previous = steps[steps.length - 1];
+      const resolvedKeyword = /^(And|But|\*)$/.test(keyword)
+        ? previous?.keyword || "given"
+        : (keyword.toLowerCase() as GherkinStep["keyword"]);
+
+      lastStep = { keyword: resolvedKeyword, text: text.trim() };
+      steps.push(lastStep);
+      continue;
+    }
+
+    if (stepMatch) {
+      fail(index, "Step outside a Scenario or Background");
+    }
+
+    // Free text after the Feature line describes the feature, elsewhere it is ignored
+    if (feature && !current && !inRule && blocks.length === 0) {
+      feature.description.push(line);
+    }
+  }
+
+  if (!feature) {
+    throw new Error(`No Feature found in ${source}`);
+  }
+
+  const featureTags = feature.tags;
+  const scenarios = blocks.flatMap((block) => {
+    const tags = [...featureTags, ...block.tags];
+    const steps = [...block.background, ...block.steps];
+
+    if (!block.outline) {
+      return [toScenario(block.name, unique(tags), steps)];
+    }
+
+    const rows = block.examples.flatMap((examples) =>
+      examples.rows.map((row) => ({ tags: examples.tags, values: zip(examples.header, row) }))
+    );
+    if (rows.length === 0) {
+      throw new Error(`Scenario Outline "${block.name}" has no Examples rows (${source})`);
+    }
+
+    return rows.map(({ tags: exampleTags, values }) => {
+      const fill = (text: string) =>
+        text.replace(OUTLINE_PLACEHOLDER, (placeholder, name: string) =>
+          hasOwn(values, name) ? values[name] : placeholder
+        );
+      const label = Object.values(values).join(", ");
+      return toScenario(
+        `${fill(block.name)} [${label}]`,
+        unique([...tags, ...exampleTags]),
+        steps.map((step) => ({ ...step, text: fill(step.text) }))
+      );
+    });
+  });
+
+  if (scenarios.length === 0) {
+    throw new Error(`Feature "${feature.name}" has no scenarios (${source})`);
+  }
+
+  return {
+    name: feature.name,
+    description: feature.description.join("\n"),
+    tags: featureTags,
+    scenarios,
+  };
+}
+
+/**
+ * Convert a feature into one structured test spec instruction per scenario
+ * @param feature The parsed feature
+ * @returns Test case names, instructions and tags in scenario order
+ */
+export function featureToInstructions(
+  feature: FeatureDefinition
+): Array<{ name: string; instruction: string; tags: string[] }> {
+  return feature.scenarios.map((scenario) => ({
+    name: scenario.name,
+    instruction: stringifyYaml(scenario.spec),
+    tags: scenario.tags,
+  }));
+}
+
+/**
+ * Map Gherkin steps to spec steps, a Then line sets the expected result of the step before it
+ */
+function toScenario(name: string, tags: string[], gherkinSteps: GherkinStep[]): ScenarioDefinition {
+  const steps: TestSpecStep[] = [];
+
+  for (const step of gherkinSteps) {
+    const previous = steps[steps.length - 1];
+    if (step.keyword !== "then") {
+      steps.push({ action: step.text });
+    } else if (previous) {
+      previous.expected = previous.expected ? `${previous.expected}; ${step.text}` : step.text;
+    } else {
+      steps.push({ action: `Verify that ${step.text}`, expected: step.text });
+    }
+  }
+
+  if (steps.length === 0) {
+    throw new Error(`Scenario "${name}" has no steps`);
+  }
+
+  return {
+    name,
+    tags,
+    spec: { name, ...(tags.length > 0 && { tags }), steps },
+  };
+}
+
+/**
+ * Split a Gherkin table row into trimmed cells, "\|" escapes a pipe inside a cell
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.replace(/\\\|/g, "|").trim());
+}
+
+function zip(header: string[], row: string[]): Record<string, string> {
+  return Object.fromEntries(header.map((column, index) => [column, row[index]]));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
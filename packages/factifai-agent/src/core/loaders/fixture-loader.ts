@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TEST_FILE_EXTENSIONS } from "./test-case-loader";
+import { FEATURE_FILE_EXTENSION } from "./feature-loader";
+
+/**
+ * Folder that holds the fixture files, relative to the working directory
+ */
+export const DEFAULT_FIXTURES_DIR = "fixtures";
+
+// A feature file holds several scenarios, so it cannot be a fixture
+const FIXTURE_FILE_EXTENSIONS = TEST_FILE_EXTENSIONS.filter(
+  (extension) => extension !== FEATURE_FILE_EXTENSION
+);
+
+// "@use login-as-admin" runs a fixture before the test
+const USE_DIRECTIVE = /^@use\s+([\w.-]+)\s*$/;
+// "@teardown logout" runs a fixture after the test, a bare "@teardown" starts a teardown block
+const TEARDOWN_DIRECTIVE = /^@teardown(?:\s+([\w.-]+))?\s*$/;
+
+/**
+ * Instructions of a test or fixture file, split by its fixture directives
+ */
+export interface FixtureDirectives {
+  /** The instruction without directives and teardown block */
+  instruction: string;
+  /** Fixtures to run before the instruction, in order */
+  use: string[];
+  /** Fixtures to run after the instruction, in order */
+  teardownFixtures: string[];
+  /** Instructions after a bare @teardown line, run after the instruction */
+  teardown: string | null;
+}
+
+/**
+ * A named fixture loaded from the fixtures folder
+ */
+export interface FixtureDefinition {
+  name: string;
+  filePath: string;
+  /** Instructions run when a test uses the fixture */
+  setup: string;
+  /** Instructions run after the test, even if it failed */
+  teardown: string | null;
+}
+
+/**
+ * Split the fixture directives and the teardown block from an instruction
+ * @param content The content of a test or fixture file
+ * @returns The remaining instruction and the directives
+ */
+export function parseFixtureDirectives(content: string): FixtureDirectives {
+  const use: string[] = [];
+  const teardownFixtures: string[] = [];
+  const instructionLines: string[] = [];
+  let teardownLines: string[] | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const useMatch = trimmed.match(USE_DIRECTIVE);
+    const teardownMatch = trimmed.match(TEARDOWN_DIRECTIVE);
+
+    if (useMatch) {
+      use.push(useMatch[1]);
+    } else if (teardownMatch?.[1]) {
+      teardownFixtures.push(teardownMatch[1]);
+    } else if (teardownMatch) {
+      teardownLines = teardownLines || [];
+    } else if (teardownLines) {
+      teardownLines.push(line);
+    } else {
+      instructionLines.push(line);
+    }
+  }
+
+  const teardown = teardownLines?.join("\n").trim() || null;
+  return {
+    instruction: instructionLines.join("\n").trim(),
+    use,
+    teardownFixtures,
+    teardown,
+  };
+}
+
+/**
+ * Whether an instruction uses fixtures or has a teardown block
+ */
+export function hasFixtureDirectives(directives: FixtureDirectives): boolean {
+  return (
+    directives.use.length > 0 ||
+    directives.teardownFixtures.length > 0 ||
+    directives.teardown !== null
+  );
+}
+
+/**
+ * Load a fixture by name from the fixtures folder, e.g. "login-as-admin" from fixtures/login-as-admin.txt
+ * @param name The fixture name
+ * @param fixturesDir The fixtures folder
+ * @returns The fixture with its setup and teardown instructions
+ * @throws Error if the fixture does not exist, is empty or uses other fixtures
+ */
+export function loadFixture(name: string, fixturesDir: string = DEFAULT_FIXTURES_DIR): FixtureDefinition {
+  const filePath = FIXTURE_FILE_EXTENSIONS.map((extension) =>
+    path.resolve(fixturesDir, `${name}${extension}`)
+  ).find((candidate) => fs.existsSync(candidate));
+
+  if (!filePath) {
+    throw new Error(
+      `Fixture "${name}" not found in ${path.resolve(fixturesDir)} (expected ${FIXTURE_FILE_EXTENSIONS.map((extension) => `${name}${extension}`).join(" or ")})`
+    );
+  }
+
+  const directives = parseFixtureDirectives(fs.readFileSync(filePath, "utf8"));
+  if (directives.use.length > 0 || directives.teardownFixtures.length > 0) {
+    throw new Error(`Fixture "${name}" cannot reference other fixtures`);
+  }
+  if (!directives.instruction) {
+    throw new Error(`Fixture "${name}" has no setup instructions: ${filePath}`);
+  }
+
+  return {
+    name,
+    filePath,
+    setup: directives.instruction,
+    teardown: directives.teardown,
+  };
+}
@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as path from "path";
+import { interpolateReferences } from "../../common/utils/interpolation";
+
+// "@include ./common/login.txt" inserts the content of another file, quotes around the path are optional
+const INCLUDE_DIRECTIVE = /^@include\s+(?:"([^"]+)"|'([^']+)'|(\S+))\s*$/;
+
+/**
+ * Replace the @include directives of an instruction with the content of the files they name.
+ * Paths are resolved relative to the file that contains the directive, and may use
+ * ${env:NAME} and ${config:key} references. Included files may include other files.
+ * @param content The instruction
+ * @param sourcePath The file the instruction was read from, relative paths of a
+ * top-level instruction without a file are resolved against the working directory
+ * @returns The instruction with every directive replaced
+ * @throws Error if an included file does not exist or files include each other in a cycle
+ */
+export function expandIncludes(content: string, sourcePath?: string | null): string {
+  const filePath = sourcePath ? path.resolve(sourcePath) : null;
+  return expandFile(content, filePath, filePath ? [filePath] : []);
+}
+
+/**
+ * Expand the directives of one file, ancestors are the files that led to it, itself included
+ */
+function expandFile(content: string, filePath: string | null, ancestors: string[]): string {
+  const baseDir = filePath ? path.dirname(filePath) : process.cwd();
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = line.trim().match(INCLUDE_DIRECTIVE);
+      if (!match) {
+        return line;
+      }
+
+      const target = interpolateReferences(match[1] ?? match[2] ?? match[3]);
+      const includedPath = path.resolve(baseDir, target);
+
+      if (ancestors.includes(includedPath)) {
+        const cycle = [...ancestors.slice(ancestors.indexOf(includedPath)), includedPath];
+        throw new Error(
+          `Circular @include: ${cycle.map((file) => path.relative(process.cwd(), file)).join(" -> ")}`
+        );
+      }
+      if (!fs.existsSync(includedPath) || !fs.statSync(includedPath).isFile()) {
+        throw new Error(
+          `Included file not found: ${target} (included from ${
+            filePath ? path.relative(process.cwd(), filePath) : "the instruction"
+          })`
+        );
+      }
+
+      const includedContent = fs.readFileSync(includedPath, "utf8").replace(/\s+$/, "");
+      return expandFile(includedContent, includedPath, [...ancestors, includedPath]);
+    })
+    .join("\n");
+}
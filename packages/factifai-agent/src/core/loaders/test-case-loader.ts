@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import * as path from "path";
+import { featureToInstructions, isFeatureFile, loadFeature } from "./feature-loader";
+import { readTestTags } from "./test-spec-loader";
+
+/**
+ * File extensions that are treated as test case files when discovering a suite
+ */
+export const TEST_FILE_EXTENSIONS = [".txt", ".md", ".yaml", ".yml", ".feature"];
+
+/**
+ * A single test case ready to be executed
+ */
+export interface TestCaseDefinition {
+  id: string;
+  name: string;
+  filePath: string;
+  instruction: string;
+  /** Name of the Gherkin feature the test case is a scenario of */
+  feature?: string;
+  /** Tags from the front matter, the structured spec or the Gherkin scenario, without "@" */
+  tags?: string[];
+}
+
+/**
+ * Discover test case files from a directory, a single file or a glob pattern
+ * @param target Directory path, file path or glob pattern (e.g. "tests/**\/*.txt")
+ * @returns Sorted list of absolute file paths
+ */
+export function discoverTestFiles(target: string): string[] {
+  const resolvedTarget = path.resolve(target);
+
+  if (fs.existsSync(resolvedTarget)) {
+    const stats = fs.statSync(resolvedTarget);
+
+    if (stats.isFile()) {
+      return [resolvedTarget];
+    }
+
+    if (stats.isDirectory()) {
+      return walkDirectory(resolvedTarget)
+        .filter((filePath) => isTestFile(filePath))
+        .sort();
+    }
+  }
+
+  // Not an existing path, treat the target as a glob pattern
+  const baseDir = getGlobBaseDirectory(resolvedTarget);
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  const pattern = globToRegExp(resolvedTarget);
+  return walkDirectory(baseDir)
+    .filter((filePath) => pattern.test(filePath.split(path.sep).join("/")))
+    .sort();
+}
+
+/**
+ * Load test case definitions from a list of files. Every scenario of a Gherkin
+ * feature file becomes a test case of its own.
+ * @param filePaths The test case files to load
+ * @returns Test case definitions in the same order as the files
+ * @throws Error if a feature file is not valid Gherkin
+ */
+export function loadTestCases(filePaths: string[]): TestCaseDefinition[] {
+  const usedIds = new Set<string>();
+
+  return filePaths.flatMap((filePath) =>
+    readTestFile(filePath).map(({ idName, ...entry }) => {
+      // Derive a unique, filesystem safe id from the file and scenario name
+      const baseId = idName.toLowerCase().replace(/[^a-z0-9-_]+/g, "-");
+      let id = baseId;
+      let suffix = 2;
+      while (usedIds.has(id)) {
+        id = `${baseId}-${suffix++}`;
+      }
+      usedIds.add(id);
+
+      return { id, filePath, ...entry };
+    })
+  );
+}
+
+/**
+ * Read the test cases of a file, a feature file has one per scenario
+ */
+function readTestFile(
+  filePath: string
+): Array<Omit<TestCaseDefinition, "id" | "filePath"> & { idName: string }> {
+  const name = path.basename(filePath, path.extname(filePath));
+
+  if (!isFeatureFile(filePath)) {
+    return [{ name, idName: name, ...readTestTags(fs.readFileSync(filePath, "utf8")) }];
+  }
+
+  const feature = loadFeature(filePath);
+  return featureToInstructions(feature).map((scenario) => ({
+    ...scenario,
+    idName: `${name}-${scenario.name}`,
+    feature: feature.name,
+  }));
+}
+
+/**
+ * Check whether a file has a supported test case extension
+ */
+function isTestFile(filePath: string): boolean {
+  return TEST_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Recursively list all files within a directory, skipping node_modules and hidden folders
+ */
+function walkDirectory(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") {
+      continue;
+    }
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walkDirectory(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Get the deepest directory of a glob pattern that contains no wildcards
+ */
+function getGlobBaseDirectory(pattern: string): string {
+  const segments = pattern.split(path.sep);
+  const wildcardIndex = segments.findIndex((segment) => /[*?[{]/.test(segment));
+  const baseSegments = wildcardIndex === -1 ? segments : segments.slice(0, wildcardIndex);
+  return baseSegments.join(path.sep) || path.sep;
+}
+
+/**
+ * Convert a glob pattern supporting *, **, ?, [abc] / [!abc] character classes and
+ * {a,b} alternatives into a regular expression
+ * @throws Error if a character class or alternative group is not closed
+ */
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.split(path.sep).join("/");
+  let regex = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === "*") {
+      if (normalized[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        regex += normalized[i + 2] === "/" ? "(?:.*/)?" : ".*";
+        i += normalized[i + 2] === "/" ? 2 : 1;
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[") {
+      const end = normalized.indexOf("]", i + 2);
+      if (end === -1) {
+        throw new Error(`Invalid glob pattern "${pattern}": "[" is not closed`);
+      }
+      const negated = normalized[i + 1] === "!" || normalized[i + 1] === "^";
+      const members = normalized
+        .slice(negated ? i + 2 : i + 1, end)
+        .replace(/[\\\]^]/g, "\\$&");
+      // A character class never matches the path separator
+      regex += negated ? `[^/${members}]` : `[${members}]`;
+      i = end;
+    } else if (char === "{") {
+      regex += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      regex += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      regex += "|";
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob pattern "${pattern}": "{" is not closed`);
+  }
+
+  return new RegExp(`^${regex}$`);
+}
@@ -0,0 +1,211 @@
+import * as fs from "fs";
+import * as path from "path";
+import { SecretManager } from "../../common/utils/secret-manager";
+import { hasOwn } from "../../common/utils/object-utils";
+import type { TestCaseDefinition } from "./test-case-loader";
+
+/**
+ * One row of a data table, mapping column names to values
+ */
+export type TestDataRow = Record<string, string>;
+
+// Matches {{name}} placeholders, allowing spaces inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Load the rows of a CSV file (first line is the header) or a JSON file (array of objects)
+ * @param filePath Path of the data file
+ * @returns The data rows in file order
+ * @throws Error if the file cannot be read or has an unsupported format
+ */
+export function loadTestData(filePath: string): TestDataRow[] {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Data file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(resolvedPath, "utf8");
+  const extension = path.extname(resolvedPath).toLowerCase();
+
+  let rows: TestDataRow[];
+  if (extension === ".csv") {
+    rows = parseCsv(content);
+  } else if (extension === ".json") {
+    rows = parseJsonRows(content, filePath);
+  } else {
+    throw new Error(`Unsupported data file format "${extension}", use .csv or .json`);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`Data file has no rows: ${filePath}`);
+  }
+
+  return rows;
+}
+
+/**
+ * Find the placeholder names used in an instruction
+ * @param instruction The test instruction
+ * @returns The unique placeholder names in order of first use
+ */
+export function findPlaceholders(instruction: string): string[] {
+  const names = [...instruction.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Expand every test case that uses placeholders into one test case per data row.
+ * Test cases without placeholders are kept as they are.
+ * @param testCases The test cases to expand
+ * @param rows The data rows
+ * @returns The expanded test cases, named and identified by row
+ * @throws Error if a placeholder has no column and is not a secret key
+ */
+export function expandTestCases(
+  testCases: TestCaseDefinition[],
+  rows: TestDataRow[]
+): TestCaseDefinition[] {
+  return testCases.flatMap((testCase) => {
+    const placeholders = findPlaceholders(testCase.instruction);
+    if (placeholders.length === 0) {
+      return [testCase];
+    }
+
+    // Fail before running anything when the data table cannot fill the test case
+    const missing = placeholders.filter(
+      (name) => !rows.every((row) => hasOwn(row, name)) && !SecretManager.has(name)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Test case "${testCase.name}" uses placeholders without a data column: ${missing.join(", ")}`
+      );
+    }
+
+    const usedIds = new Set<string>();
+    return rows.map((row, index) => {
+      const label = describeRow(row, index);
+
+      // Derive a unique, filesystem safe id from the row label
+      const baseId = `${testCase.id}-${label.toLowerCase().replace(/[^a-z0-9-_]+/g, "-")}`;
+      let id = baseId;
+      let suffix = 2;
+      while (usedIds.has(id)) {
+        id = `${baseId}-${suffix++}`;
+      }
+      usedIds.add(id);
+
+      return {
+        ...testCase,
+        id,
+        name: `${testCase.name} [${label}]`,
+        instruction: fillPlaceholders(testCase.instruction, row),
+      };
+    });
+  });
+}
+
+/**
+ * Replace the placeholders of an instruction with the values of a data row.
+ * A placeholder without a column that names a secret is replaced by the secret key,
+ * so the type tool resolves the value and it never reaches the prompt.
+ */
+function fillPlaceholders(instruction: string, row: TestDataRow): string {
+  return instruction.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    hasOwn(row, name) ? row[name] : SecretManager.has(name) ? name : placeholder
+  );
+}
+
+/**
+ * Name a row by its "name" column, or by its position
+ */
+function describeRow(row: TestDataRow, index: number): string {
+  return row.name?.trim() || `row ${index + 1}`;
+}
+
+/**
+ * Parse a JSON array of objects into data rows, converting values to strings
+ */
+function parseJsonRows(content: string, filePath: string): TestDataRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in data file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!Array.isArray(data) || data.some((row) => typeof row !== "object" || row === null || Array.isArray(row))) {
+    throw new Error(`Data file ${filePath} must contain an array of objects`);
+  }
+
+  return data.map((row) =>
+    Object.fromEntries(
+      Object.entries(row as Record<string, unknown>).map(([key, value]) => [
+        key,
+        typeof value === "string" ? value : JSON.stringify(value),
+      ])
+    )
+  );
+}
+
+/**
+ * Parse CSV content with a header line. Supports quoted values containing
+ * commas, line breaks and doubled quotes. Blank lines are ignored.
+ */
+function parseCsv(content: string): TestDataRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(value);
+    if (record.some((field) => field.trim() !== "")) {
+      records.push(record);
+    }
+    record = [];
+    value = "";
+  };
+
+  // Strip a byte order mark left by spreadsheet exports
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+    } else {
+      value += char;
+    }
+  }
+  endRecord();
+
+  const [header, ...dataRecords] = records;
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  return dataRecords.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, (fields[index] ?? "").trim()]))
+  );
+}
@@ -0,0 +1,101 @@
+import type { TestCaseDefinition } from "./test-case-loader";
+
+/**
+ * Filters that select the test cases of a suite
+ */
+export interface TestSelection {
+  /** Run only test cases with at least one of these tags */
+  tags?: string[];
+  /** Skip test cases with any of these tags */
+  excludeTags?: string[];
+  /** Run only test cases whose name, feature or file path matches this case-insensitive pattern */
+  grep?: string;
+}
+
+/**
+ * A test case left out by the selection filters
+ */
+export interface SkippedTestCase {
+  testCase: TestCaseDefinition;
+  reason: string;
+}
+
+/**
+ * Split test cases into those selected by the filters and those skipped.
+ * Tags are compared case-insensitively and without a leading "@".
+ * @param testCases The test cases in suite order
+ * @param selection The filters to apply
+ * @returns The selected test cases and the skipped ones with the reason
+ * @throws Error if the grep pattern is not a valid regular expression
+ */
+export function selectTestCases(
+  testCases: TestCaseDefinition[],
+  selection: TestSelection
+): { selected: TestCaseDefinition[]; skipped: SkippedTestCase[] } {
+  const tags = normalizeTags(selection.tags);
+  const excludeTags = normalizeTags(selection.excludeTags);
+  const grep = selection.grep ? new RegExp(selection.grep, "i") : null;
+
+  const selected: TestCaseDefinition[] = [];
+  const skipped: SkippedTestCase[] = [];
+
+  for (const testCase of testCases) {
+    const testTags = normalizeTags(testCase.tags);
+    const excluded = excludeTags.find((tag) => testTags.includes(tag));
+
+    let reason: string | null = null;
+    if (excluded) {
+      reason = `Excluded by tag "${excluded}"`;
+    } else if (tags.length > 0 && !tags.some((tag) => testTags.includes(tag))) {
+      reason = `Has none of the tags ${tags.map((tag) => `"${tag}"`).join(", ")}`;
+    } else if (
+      grep &&
+      ![testCase.name, testCase.feature, testCase.filePath].some(
+        (value) => value && grep.test(value)
+      )
+    ) {
+      reason = `Does not match --grep "${selection.grep}"`;
+    }
+
+    if (reason) {
+      skipped.push({ testCase, reason });
+    } else {
+      selected.push(testCase);
+    }
+  }
+
+  return { selected, skipped };
+}
+
+/**
+ * Whether any selection filter is set
+ */
+export function hasSelection(selection: TestSelection | undefined): boolean {
+  return Boolean(
+    selection &&
+      ((selection.tags?.length ?? 0) > 0 ||
+        (selection.excludeTags?.length ?? 0) > 0 ||
+        selection.grep)
+  );
+}
+
+/**
+ * Describe the selection filters as command line options, e.g. '--tag smoke --grep "checkout"'
+ */
+export function describeSelection(selection: TestSelection): string {
+  return [
+    ...normalizeTags(selection.tags).map((tag) => `--tag ${tag}`),
+    ...normalizeTags(selection.excludeTags).map((tag) => `--exclude-tag ${tag}`),
+    ...(selection.grep ? [`--grep "${selection.grep}"`] : []),
+  ].join(" ");
+}
+
+/**
+ * Lower-case tags and strip the "@" of Gherkin tags, "smoke,login" lists are split
+ */
+function normalizeTags(tags: string[] | undefined): string[] {
+  return (tags || [])
+    .flatMap((tag) => tag.split(","))
+    .map((tag) => tag.trim().replace(/^@/, "").toLowerCase())
+    .filter(Boolean);
+}
@@ -0,0 +1,295 @@
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { GraphStateType } from "../graph/graph";
+
+// Markdown table cells may list tags as "smoke, login"
+const tagsField = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value.split(",").map((tag) => tag.trim()).filter(Boolean)
+      : value,
+  z.array(z.string().trim().min(1))
+);
+
+// Timeouts are given in seconds, e.g. 30 or "30s"
+const timeoutField = z.preprocess(
+  (value) =>
+    typeof value === "string" && /^\s*\d+(\.\d+)?\s*s?\s*$/i.test(value)
+      ? parseFloat(value)
+      : value,
+  z.number().positive()
+);
+
+/**
+ * A single step of a structured test specification
+ */
+export const TestSpecStepSchema = z
+  .object({
+    id: z.coerce.number().int().positive().optional(),
+    action: z.string().trim().min(1, "action must not be empty"),
+    expected: z.string().trim().optional(),
+    tags: tagsField.optional(),
+    timeout: timeoutField.optional(),
+  })
+  .strict();
+
+/**
+ * A structured test specification, its steps are executed as written
+ */
+export const TestSpecSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    description: z.string().trim().optional(),
+    tags: tagsField.optional(),
+    steps: z.array(TestSpecStepSchema).min(1, "a test spec needs at least one step"),
+  })
+  .strict()
+  .superRefine((spec, context) => {
+    const ids = spec.steps.map((step, index) => step.id ?? index + 1);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate !== undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["steps"],
+        message: `step id ${duplicate} is used more than once`,
+      });
+    }
+  });
+
+export type TestSpecStep = z.infer<typeof TestSpecStepSchema>;
+export type TestSpec = z.infer<typeof TestSpecSchema>;
+
+// Column names of a Markdown step table, by the spec field they fill
+const TABLE_COLUMNS: Record<string, keyof TestSpecStep> = {
+  "#": "id",
+  id: "id",
+  step: "action",
+  action: "action",
+  instruction: "action",
+  expected: "expected",
+  "expected result": "expected",
+  tags: "tags",
+  timeout: "timeout",
+};
+
+// "| --- | :---: |" separates the header of a Markdown table from its rows
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+// "---" front matter at the start of a Markdown spec
+const FRONT_MATTER = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+
+/**
+ * Read a structured test specification from YAML, or from Markdown with a step table.
+ * Content in any other form is a free-text instruction and yields null.
+ * @param content The content of a test file
+ * @returns The validated spec, or null for a free-text instruction
+ * @throws Error if the content is a spec that does not pass validation
+ */
+export function parseTestSpec(content: string): TestSpec | null {
+  const text = content.replace(/\r\n?/g, "\n").trim();
+  const candidate = readYamlSpec(text) ?? readMarkdownSpec(text);
+  if (!candidate) {
+    return null;
+  }
+
+  const result = TestSpecSchema.safeParse(candidate);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "spec"}: ${issue.message}`
+    );
+    throw new Error(`Invalid test spec:\n- ${issues.join("\n- ")}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Convert the steps of a spec into the test steps of a run, the first step starts in progress
+ * @param spec The validated spec
+ * @returns The test steps in the order of the spec
+ */
+export function specToTestSteps(spec: TestSpec): GraphStateType["testSteps"] {
+  return spec.steps.map((step, index) => ({
+    id: step.id ?? index + 1,
+    instruction: step.action,
+    status: index === 0 ? "in_progress" : "not_started",
+    notes: "",
+    ...(step.expected && { expected_result: step.expected }),
+    ...(step.tags?.length && { tags: step.tags }),
+    ...(step.timeout && { timeout: step.timeout }),
+  }));
+}
+
+/**
+ * Convert the parsed test steps of a run into a structured spec that runs them as written
+ * @param testSteps The test steps, e.g. parsed from a free-text instruction
+ * @param name The name of the spec
+ * @returns The spec with the id, action, expected result, tags and timeout of every step
+ */
+export function testStepsToSpec(
+  testSteps: GraphStateType["testSteps"],
+  name?: string
+): TestSpec {
+  return {
+    ...(name && { name }),
+    steps: testSteps.map((step) => ({
+      id: step.id,
+      action: step.instruction,
+      ...(step.expected_result && { expected: step.expected_result }),
+      ...(step.tags?.length && { tags: step.tags }),
+      ...(step.timeout && { timeout: step.timeout }),
+    })),
+  };
+}
+
+/**
+ * Read the tags of a test file from its structured spec, or from the front matter of a
+ * free-text instruction. The front matter is not part of the instruction and is removed.
+ * @param content The content of a test file
+ * @returns The instruction to run and its tags
+ */
+export function readTestTags(content: string): { instruction: string; tags: string[] } {
+  let spec: TestSpec | null;
+  try {
+    spec = parseTestSpec(content);
+  } catch {
+    // An invalid spec has no tags, its errors are reported when it runs
+    return { instruction: content, tags: [] };
+  }
+  if (spec) {
+    return { instruction: content, tags: spec.tags || [] };
+  }
+
+  const text = content.replace(/\r\n?/g, "\n").trimStart();
+  const frontMatterMatch = text.match(FRONT_MATTER);
+  if (!frontMatterMatch) {
+    return { instruction: content, tags: [] };
+  }
+
+  let document: unknown;
+  try {
+    document = parseYaml(frontMatterMatch[1]);
+  } catch {
+    return { instruction: content, tags: [] };
+  }
+  const tags = isRecord(document) ? tagsField.safeParse(document.tags) : null;
+  return {
+    instruction: text.slice(frontMatterMatch[0].length),
+    tags: tags?.success ? tags.data : [],
+  };
+}
+
+/**
+ * A YAML document is a spec when it is a mapping with a list of steps. A plain sentence such
+ * as "steps: open the site and log in" is also valid YAML and stays a free-text instruction.
+ */
+function readYamlSpec(text: string): unknown {
+  let document: unknown;
+  try {
+    document = parseYaml(text);
+  } catch {
+    return null;
+  }
+
+  return isRecord(document) && Array.isArray(document.steps) ? document : null;
+}
+
+/**
+ * A Markdown document is a spec when it has a table with action and expected columns.
+ * The first heading names the spec, front matter may set its name, description and tags.
+ */
+function readMarkdownSpec(text: string): unknown {
+  const frontMatterMatch = text.match(FRONT_MATTER);
+  const body = frontMatterMatch ? text.slice(frontMatterMatch[0].length) : text;
+  const lines = body.split("\n");
+
+  const headerIndex = lines.findIndex(
+    (line, index) =>
+      line.trim().startsWith("|") &&
+      TABLE_SEPARATOR.test((lines[index + 1] || "").trim()) &&
+      isStepTableHeader(splitTableRow(line))
+  );
+  if (headerIndex === -1) {
+    return null;
+  }
+
+  let frontMatter: Record<string, unknown> = {};
+  if (frontMatterMatch) {
+    let document: unknown;
+    try {
+      document = parseYaml(frontMatterMatch[1]) ?? {};
+    } catch (error) {
+      throw new Error(
+        `Invalid front matter in test spec: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!isRecord(document)) {
+      throw new Error("Invalid front matter in test spec: expected key: value pairs");
+    }
+    frontMatter = document;
+  }
+
+  const columns = splitTableRow(lines[headerIndex]).map((cell) => {
+    const field = TABLE_COLUMNS[cell.toLowerCase()];
+    if (!field) {
+      throw new Error(
+        `Unknown column "${cell}" in the step table, use: ${Object.keys(TABLE_COLUMNS).join(", ")}`
+      );
+    }
+    return field;
+  });
+
+  const rows: string[][] = [];
+  for (const line of lines.slice(headerIndex + 2)) {
+    if (!line.trim().startsWith("|")) {
+      break;
+    }
+    rows.push(splitTableRow(line));
+  }
+
+  const steps = rows.map((cells) =>
+    Object.fromEntries(
+      columns
+        .map((field, index) => [field, cells[index] ?? ""] as const)
+        .filter(([, value]) => value !== "")
+    )
+  );
+
+  const heading = lines.slice(0, headerIndex).find((line) => /^#\s+/.test(line));
+  const description = lines
+    .slice(0, headerIndex)
+    .filter((line) => line !== heading)
+    .join("\n")
+    .trim();
+
+  return {
+    ...(heading && { name: heading.replace(/^#\s+/, "").trim() }),
+    ...(description && { description }),
+    ...frontMatter,
+    steps,
+  };
+}
+
+/**
+ * Tables without both an action and an expected column are left to the free-text parser
+ */
+function isStepTableHeader(cells: string[]): boolean {
+  const fields = cells.map((cell) => TABLE_COLUMNS[cell.toLowerCase()]);
+  return fields.includes("action") && fields.includes("expected");
+}
+
+/**
+ * Split a Markdown table row into trimmed cells, "\|" escapes a pipe inside a cell
+ */
+function splitTableRow(line: string): string[] {
+  const cells = line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/);
+  return cells.map((cell) => cell.replace(/\\\|/g, "|").trim());
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
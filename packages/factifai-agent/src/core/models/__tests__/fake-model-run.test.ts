@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { chromium, type Browser } from "playwright";
+import { parse as parseYaml } from "yaml";
+import { executeBrowserTask } from "../../../index";
+import type { RunEvent } from "../../events/run-events";
+import { planTestCase } from "../../runners/plan-runner";
+import { resetModelScripts } from "../fake-model";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const PAGE_URL = pathToFileURL(path.join(FIXTURES_DIR, "shop.html")).href;
+const INSTRUCTION = `Open ${PAGE_URL}\nClick "Add to cart"\nCheck that the cart shows 1 item`;
+
+// The browser run needs a Playwright Chromium, e.g. from `npx playwright install chromium`
+const describeWithBrowser = fs.existsSync(chromium.executablePath()) ? describe : describe.skip;
+
+describe("runs with the fake model provider", () => {
+  const environment = { ...process.env };
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-fake-run-"));
+    jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    // The script names the page by a placeholder, its file:// URL depends on the checkout
+    const script = fs
+      .readFileSync(path.join(FIXTURES_DIR, "shop-model-script.yaml"), "utf-8")
+      .replace(/\{\{pageUrl\}\}/g, PAGE_URL);
+    const scriptPath = path.join(workDir, "shop-model-script.yaml");
+    fs.writeFileSync(scriptPath, script);
+
+    process.env.MODEL_PROVIDER = "fake";
+    process.env.FAKE_MODEL_SCRIPT = scriptPath;
+    resetModelScripts();
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("plans the steps of the script without a browser", async () => {
+    const result = await planTestCase(INSTRUCTION, "factifai-session-fake-plan", { skipAnalysis: true });
+
+    expect(result).toMatchObject({ success: true, rating: null });
+    expect(result.testSteps.map(({ id, instruction, status }) => ({ id, instruction, status }))).toEqual([
+      { id: 1, instruction: `Navigate to ${PAGE_URL}`, status: "in_progress" },
+      { id: 2, instruction: 'Click the "Add to cart" button', status: "not_started" },
+    ]);
+    expect(parseYaml(fs.readFileSync(result.outputPath!, "utf-8"))).toEqual({
+      steps: [
+        { id: 1, action: `Navigate to ${PAGE_URL}`, expected: "The Trail Mug product page is shown" },
+        { id: 2, action: 'Click the "Add to cart" button', expected: "The cart shows 1 item" },
+      ],
+    });
+  });
+
+  it("fails the plan once the parse responses run out", async () => {
+    // Without --skip-analysis the quality rating takes the second parse response
+    const result = await planTestCase(INSTRUCTION, "factifai-session-fake-rating");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('ran out of "parse" responses after 2 call(s)');
+    expect(result.testSteps).toEqual([]);
+  });
+
+  it("reports a preprocessing error without parsing any steps", async () => {
+    delete process.env.FACTIFAI_MISSING_URL;
+    const events: RunEvent[] = [];
+
+    const result = await executeBrowserTask(
+      "Open ${env:FACTIFAI_MISSING_URL}",
+      "factifai-session-fake-preprocessing",
+      { reportFormat: "xml", onEvent: (event) => events.push(event) }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("No value for ${env:FACTIFAI_MISSING_URL}");
+    expect(result.testSteps).toEqual([]);
+    // The run stopped before the steps were parsed
+    expect(events.some((event) => event.type === "steps_parsed")).toBe(false);
+
+    const reportPath = events.flatMap((event) => (event.type === "report_written" ? [event.path] : []))[0];
+    const xml = fs.readFileSync(reportPath, "utf-8");
+    expect(xml).toContain('tests="1" failures="1"');
+    expect(xml).toContain("No value for ${env:FACTIFAI_MISSING_URL}");
+  });
+
+  describeWithBrowser("in a browser", () => {
+    let browser: Browser;
+
+    beforeAll(async () => {
+      browser = await chromium.launch({ executablePath: chromium.executablePath() });
+    });
+
+    afterAll(async () => {
+      await browser?.close();
+    });
+
+    it("executes the steps, writes the reports and generates the Playwright scripts", async () => {
+      const page = await browser.newPage({ viewport: { width: 1280, height: 720 } });
+      const events: RunEvent[] = [];
+
+      const result = await executeBrowserTask(INSTRUCTION, "factifai-session-fake-run", {
+        existingPage: page,
+        skipAnalysis: true,
+        reportFormat: "both",
+        onEvent: (event) => events.push(event),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.testSteps?.map(({ id, status }) => ({ id, status }))).toEqual([
+        { id: 1, status: "passed" },
+        { id: 2, status: "passed" },
+      ]);
+      // The scripted click hit the button of the page
+      expect(await page.textContent("#cart-count")).toBe("1");
+
+      const written = (type: "report_written" | "script_generated") =>
+        events.flatMap((event) =>
+          event.type === type ? [[event.type === "report_written" ? event.format : event.scriptType, event.path]] : []
+        );
+
+      const reports = Object.fromEntries(written("report_written"));
+      expect(Object.keys(reports).sort()).toEqual(["html", "xml"]);
+      const xml = fs.readFileSync(reports.xml, "utf-8");
+      expect(xml).toContain('tests="2" failures="0"');
+      expect(xml).toContain('Click the &quot;Add to cart&quot; button');
+      expect(fs.readFileSync(reports.html, "utf-8")).toContain("The Trail Mug was added to the cart");
+
+      const scripts = Object.fromEntries(written("script_generated"));
+      expect(fs.readFileSync(scripts.coordinate, "utf-8")).toContain("await page.mouse.click(120, 220);");
+      expect(fs.readFileSync(scripts.selector, "utf-8")).toContain(
+        "await page.getByRole('button', { name: 'Add to cart' }).click();"
+      );
+      expect(fs.readFileSync(scripts.selector, "utf-8")).not.toContain("```");
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { HumanMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { Annotation, START, StateGraph } from "@langchain/langgraph";
+import { runWithSessionContext } from "../../../common/utils/session-context";
+import { loadModelScript, resetModelScripts, ScriptedChatModel } from "../fake-model";
+
+const prompt = [new HumanMessage("Hello")];
+
+const navigateTool = tool(async () => "ok", {
+  name: "navigate",
+  description: "Navigate to a URL",
+  schema: z.object({ sessionId: z.string(), url: z.string() }),
+});
+
+const waitTool = tool(async () => "ok", {
+  name: "waitBySeconds",
+  description: "Wait for a number of seconds",
+  schema: z.object({ seconds: z.number() }),
+});
+
+// Invoke the model from a node of a one-node graph run as the session, like the nodes of the agent do
+const invokeInNode = async (
+  model: { invoke: (input: typeof prompt) => Promise<unknown> },
+  node: string,
+  sessionId: string
+): Promise<unknown> => {
+  const graph = new StateGraph(Annotation.Root({ response: Annotation<unknown> }))
+    .addNode(node, async () => ({ response: await model.invoke(prompt) }))
+    .addEdge(START, node)
+    .compile();
+
+  const state = await graph.invoke({}, { configurable: { thread_id: sessionId } });
+  return state.response;
+};
+
+describe("loadModelScript", () => {
+  let workDir: string;
+
+  const writeScript = (fileName: string, content: string): string => {
+    const filePath = path.join(workDir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-model-script-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("reads a YAML script and fills in the defaults of its responses", () => {
+    const scriptPath = writeScript(
+      "script.yaml",
+      [
+        "execute:",
+        "  - tool_calls:",
+        "      - name: reload",
+        "track:",
+        "  - structured: { updatedSteps: [] }",
+        "default:",
+        "  - content: Hello",
+      ].join("\n")
+    );
+
+    expect(loadModelScript(scriptPath)).toEqual({
+      execute: [{ content: "", tool_calls: [{ name: "reload", args: {} }] }],
+      track: [{ content: "", structured: { updatedSteps: [] } }],
+      default: [{ content: "Hello" }],
+    });
+  });
+
+  it("reads a JSON script", () => {
+    const scriptPath = writeScript("script.json", JSON.stringify({ parse: [{ content: "Cleaned" }] }));
+
+    expect(loadModelScript(scriptPath)).toEqual({ parse: [{ content: "Cleaned" }] });
+  });
+
+  it("rejects a missing script", () => {
+    const scriptPath = path.join(workDir, "missing.yaml");
+
+    expect(() => loadModelScript(scriptPath)).toThrow(`Model script not found: ${scriptPath}`);
+  });
+
+  it("rejects a script that is not valid YAML", () => {
+    const scriptPath = writeScript("broken.yaml", "execute: [\n  - content: a");
+
+    expect(() => loadModelScript(scriptPath)).toThrow(`Invalid model script ${scriptPath}: `);
+  });
+
+  it("lists every invalid response with its path", () => {
+    const scriptPath = writeScript(
+      "invalid.yaml",
+      [
+        "parse:",
+        "  - text: Hello",
+        "execute:",
+        "  - tool_calls:",
+        "      - name: ' '",
+        "track: not a list",
+      ].join("\n")
+    );
+
+    expect(() => loadModelScript(scriptPath)).toThrow(
+      `Invalid model script ${scriptPath}:\n` +
+        "- parse.0: Unrecognized key(s) in object: 'text'\n" +
+        "- execute.0.tool_calls.0.name: a tool call needs a name\n" +
+        "- track: Expected array, received string"
+    );
+  });
+
+  it("rejects a script that is not a map of response lists", () => {
+    const scriptPath = writeScript("list.yaml", "- content: Hello");
+
+    expect(() => loadModelScript(scriptPath)).toThrow(
+      `Invalid model script ${scriptPath}:\n- script: Expected object, received array`
+    );
+  });
+});
+
+describe("ScriptedChatModel", () => {
+  let workDir: string;
+  let scriptPath: string;
+
+  const writeScript = (script: Record<string, unknown>): void => {
+    fs.writeFileSync(scriptPath, JSON.stringify(script));
+  };
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-scripted-model-"));
+    scriptPath = path.join(workDir, "script.json");
+    resetModelScripts();
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("replays the responses of the node making the call in order", async () => {
+    writeScript({
+      parse: [{ content: "First parse" }, { content: "Second parse" }],
+      execute: [{ content: "First execute" }],
+    });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    const contents = [];
+    for (const node of ["parse", "execute", "parse"]) {
+      const response = (await invokeInNode(model, node, "session-a")) as { content: string };
+      contents.push(response.content);
+    }
+
+    expect(contents).toEqual(["First parse", "First execute", "Second parse"]);
+  });
+
+  it("answers calls outside a node, or of a node without a list, from the default list", async () => {
+    writeScript({ default: [{ content: "First" }, { content: "Second" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    const outside = await runWithSessionContext("session-a", () => model.invoke(prompt));
+    const inNode = (await invokeInNode(model, "report", "session-a")) as { content: string };
+
+    expect([outside.content, inNode.content]).toEqual(["First", "Second"]);
+  });
+
+  it("replays the script from the start for every session", async () => {
+    writeScript({ default: [{ content: "First" }, { content: "Second" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    await runWithSessionContext("session-a", () => model.invoke(prompt));
+    const response = await runWithSessionContext("session-b", () => model.invoke(prompt));
+
+    expect(response.content).toBe("First");
+  });
+
+  it("fails a call once the node ran out of responses", async () => {
+    writeScript({ execute: [{ content: "Only" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    await invokeInNode(model, "execute", "session-a");
+
+    await expect(invokeInNode(model, "execute", "session-a")).rejects.toThrow(
+      `Model script ${scriptPath} ran out of "execute" responses after 1 call(s)`
+    );
+  });
+
+  it("fails a call of a node the script has no list for and no default list", async () => {
+    writeScript({ parse: [{ content: "Cleaned" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    await expect(invokeInNode(model, "track", "session-a")).rejects.toThrow(
+      `Model script ${scriptPath} has no responses for "track" and no "default" list`
+    );
+  });
+
+  it("fills in the session of the run for tools that take one", async () => {
+    writeScript({
+      execute: [
+        {
+          content: "Navigating",
+          tool_calls: [
+            { name: "navigate", args: { url: "https://shop.example.com" } },
+            { name: "waitBySeconds", args: { seconds: 1 }, id: "wait-1" },
+          ],
+        },
+      ],
+    });
+    const model = new ScriptedChatModel({ scriptPath }).bindTools([navigateTool, waitTool]);
+
+    const response = (await invokeInNode(model, "execute", "session-a")) as {
+      tool_calls: { id: string; name: string; args: Record<string, unknown> }[];
+    };
+
+    expect(response.tool_calls).toEqual([
+      expect.objectContaining({
+        id: "scripted-execute-1-1",
+        name: "navigate",
+        args: { url: "https://shop.example.com", sessionId: "session-a" },
+      }),
+      expect.objectContaining({ id: "wait-1", name: "waitBySeconds", args: { seconds: 1 } }),
+    ]);
+  });
+
+  it.each<[string, (model: ScriptedChatModel) => { invoke: (input: typeof prompt) => Promise<unknown> }, string]>([
+    ["other tools", (model) => model.bindTools([navigateTool, waitTool]), "tools: navigate, waitBySeconds"],
+    ["no tools", (model) => model, "no tools"],
+  ])("rejects a call of an unknown tool when the call has %s", async (_, bind, available) => {
+    writeScript({ execute: [{ tool_calls: [{ name: "clickBySelector", args: { selector: "#buy" } }] }] });
+    const model = bind(new ScriptedChatModel({ scriptPath }));
+
+    await expect(invokeInNode(model, "execute", "session-a")).rejects.toThrow(
+      `Model script "execute" calls the unknown tool "clickBySelector", the call has ${available}`
+    );
+  });
+
+  it("returns a structured response as the result of a structured output call", async () => {
+    writeScript({ track: [{ structured: { updatedSteps: [{ id: 1, status: "passed", notes: "Done" }] } }] });
+    const model = new ScriptedChatModel({ scriptPath }).withStructuredOutput(
+      z.object({ updatedSteps: z.array(z.object({ id: z.number(), status: z.string(), notes: z.string() })) })
+    );
+
+    await expect(invokeInNode(model, "track", "session-a")).resolves.toEqual({
+      updatedSteps: [{ id: 1, status: "passed", notes: "Done" }],
+    });
+  });
+
+  it("rejects a structured response for a call that does not ask for one", async () => {
+    writeScript({ execute: [{ structured: { steps: [] } }] });
+    const model = new ScriptedChatModel({ scriptPath }).bindTools([navigateTool, waitTool]);
+
+    await expect(invokeInNode(model, "execute", "session-a")).rejects.toThrow(
+      'Model script "execute" has a structured response for a call that does not ask for one'
+    );
+  });
+
+  it("reports an estimate of the tokens of every call", async () => {
+    writeScript({ default: [{ content: "12345678" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+
+    const response = await runWithSessionContext("session-a", () => model.invoke(prompt));
+
+    expect(response.usage_metadata).toEqual({ input_tokens: 2, output_tokens: 3, total_tokens: 5 });
+  });
+
+  it("reads the script again and starts over after resetModelScripts", async () => {
+    writeScript({ default: [{ content: "Before" }] });
+    const model = new ScriptedChatModel({ scriptPath });
+    await runWithSessionContext("session-a", () => model.invoke(prompt));
+
+    writeScript({ default: [{ content: "After" }] });
+    resetModelScripts();
+    const response = await runWithSessionContext("session-a", () => model.invoke(prompt));
+
+    expect(response.content).toBe("After");
+  });
+});
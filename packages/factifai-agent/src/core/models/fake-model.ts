@@ -0,0 +1,224 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import { AsyncLocalStorageProviderSingleton } from "@langchain/core/singletons";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { getContextSessionId } from "../../common/utils/session-context";
+
+// Responses of calls made outside a graph node, or by a node the script has no list for
+export const DEFAULT_SCRIPT_KEY = "default";
+
+const scriptedToolCallSchema = z
+  .object({
+    name: z.string().trim().min(1, "a tool call needs a name"),
+    args: z.record(z.unknown()).default({}),
+    id: z.string().optional(),
+  })
+  .strict();
+
+const scriptedResponseSchema = z
+  .object({
+    content: z.string().default(""),
+    tool_calls: z.array(scriptedToolCallSchema).optional(),
+    structured: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+/**
+ * A script of model responses, by the graph node that makes the calls
+ * (e.g. parse, execute, track, report, playwrightScript) in the order they are made
+ */
+const modelScriptSchema = z.record(z.array(scriptedResponseSchema));
+
+export type ScriptedResponse = z.infer<typeof scriptedResponseSchema>;
+export type ModelScript = z.infer<typeof modelScriptSchema>;
+
+/**
+ * Read and validate a model script from a YAML or JSON file
+ * @param scriptPath Path of the script file
+ * @returns The responses of the script by node
+ * @throws Error if the file is missing or is not a valid script
+ */
+export function loadModelScript(scriptPath: string): ModelScript {
+  const resolvedPath = path.resolve(scriptPath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Model script not found: ${resolvedPath}`);
+  }
+
+  let document: unknown;
+  try {
+    document = parseYaml(fs.readFileSync(resolvedPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid model script ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = modelScriptSchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "script"}: ${issue.message}`
+    );
+    throw new Error(`Invalid model script ${resolvedPath}:\n- ${issues.join("\n- ")}`);
+  }
+
+  return result.data;
+}
+
+// Scripts by resolved path, read once per process
+const scripts = new Map<string, ModelScript>();
+// Position in the script by session and node, every session replays the script from the start
+const cursors = new Map<string, Map<string, number>>();
+
+/**
+ * Start every session over from the first response of its script, e.g. between test runs
+ * in one process
+ */
+export function resetModelScripts(): void {
+  scripts.clear();
+  cursors.clear();
+}
+
+export interface ScriptedChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: BindToolsInput[];
+}
+
+export interface ScriptedChatModelFields {
+  /** Path of the YAML or JSON script with the responses to replay */
+  scriptPath: string;
+}
+
+/**
+ * Chat model that replays the responses of a script instead of calling a provider, so the
+ * graph, tools, reports and script generation can run offline and give the same result
+ * every time. Each response is taken from the list of the graph node making the call:
+ * text content (e.g. "VERIFICATION:" and "ACTION INFO:" lines), tool calls, or a
+ * structured object for a withStructuredOutput() call.
+ */
+export class ScriptedChatModel extends BaseChatModel<ScriptedChatModelCallOptions> {
+  scriptPath: string;
+
+  static lc_name() {
+    return "ScriptedChatModel";
+  }
+
+  constructor(fields: ScriptedChatModelFields) {
+    super({});
+    this.scriptPath = path.resolve(fields.scriptPath);
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<ScriptedChatModelCallOptions>) {
+    return this.withConfig({ ...kwargs, tools });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const config = AsyncLocalStorageProviderSingleton.getRunnableConfig();
+    const node =
+      typeof config?.metadata?.langgraph_node === "string" ? config.metadata.langgraph_node : null;
+    const threadId = config?.configurable?.thread_id ?? config?.metadata?.thread_id;
+    const sessionId = typeof threadId === "string" ? threadId : getContextSessionId() || "";
+
+    const { key, position, response } = this.nextResponse(sessionId, node);
+    const tools = (options.tools || []).map((tool) => convertToOpenAITool(tool).function);
+
+    const toolCalls = (response.tool_calls || []).map((toolCall, index) => {
+      const tool = tools.find((candidate) => candidate.name === toolCall.name);
+      if (!tool) {
+        throw new Error(
+          `Model script "${key}" calls the unknown tool "${toolCall.name}", the call has ${
+            tools.length > 0 ? `tools: ${tools.map((candidate) => candidate.name).join(", ")}` : "no tools"
+          }`
+        );
+      }
+
+      // Browser tools take the session of the run, the script does not need to know it
+      const properties = (tool.parameters as { properties?: Record<string, unknown> }).properties;
+      const args =
+        properties && "sessionId" in properties && !("sessionId" in toolCall.args)
+          ? { ...toolCall.args, sessionId }
+          : toolCall.args;
+
+      return { id: toolCall.id || `scripted-${key}-${position + 1}-${index + 1}`, name: toolCall.name, args };
+    });
+
+    // withStructuredOutput() binds a single tool and reads its arguments as the result
+    if (response.structured) {
+      if (tools.length === 1) {
+        toolCalls.push({ id: `scripted-${key}-${position + 1}`, name: tools[0].name, args: response.structured });
+      } else {
+        throw new Error(
+          `Model script "${key}" has a structured response for a call that does not ask for one`
+        );
+      }
+    }
+
+    const inputTokens = estimateTokens(messages.map((message) => JSON.stringify(message.content)).join(""));
+    const outputTokens = estimateTokens(response.content + JSON.stringify(toolCalls));
+    const message = new AIMessage({
+      content: response.content,
+      tool_calls: toolCalls,
+      usage_metadata: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+    });
+
+    return { generations: [{ text: response.content, message }] };
+  }
+
+  /**
+   * Take the next response of the node from the script, or of the default list when the
+   * script has none for the node
+   */
+  private nextResponse(
+    sessionId: string,
+    node: string | null
+  ): { key: string; position: number; response: ScriptedResponse } {
+    let script = scripts.get(this.scriptPath);
+    if (!script) {
+      script = loadModelScript(this.scriptPath);
+      scripts.set(this.scriptPath, script);
+    }
+
+    const key = node && script[node] ? node : DEFAULT_SCRIPT_KEY;
+    const responses = script[key];
+    if (!responses) {
+      throw new Error(
+        `Model script ${this.scriptPath} has no responses for "${node || DEFAULT_SCRIPT_KEY}" and no "${DEFAULT_SCRIPT_KEY}" list`
+      );
+    }
+
+    const sessionCursors = cursors.get(sessionId) || new Map<string, number>();
+    cursors.set(sessionId, sessionCursors);
+    const position = sessionCursors.get(key) || 0;
+    if (position >= responses.length) {
+      throw new Error(
+        `Model script ${this.scriptPath} ran out of "${key}" responses after ${responses.length} call(s)`
+      );
+    }
+    sessionCursors.set(key, position + 1);
+
+    return { key, position, response: responses[position] };
+  }
+}
+
+// Rough token count for usage tracking and run budgets, about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -1,26 +1,278 @@
 import { ChatOpenAI, AzureChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { BedrockChat } from "@langchain/community/chat_models/bedrock";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
 import { logger } from "../../common/utils/logger";
+import { ScriptedChatModel } from "./fake-model";
+import { isResponseCacheEnabled, ResponseCache } from "./response-cache";
+import {
+  usageCallbackHandler,
+  USAGE_MODEL_METADATA_KEY,
+  USAGE_PROVIDER_METADATA_KEY,
+} from "./usage-tracker";
+
+// Supported model providers, "openai-compatible" is any endpoint with the OpenAI API (Ollama, vLLM, LM Studio)
+// and "fake" replays the responses of a script for offline runs
+export const MODEL_PROVIDERS = [
+  "openai",
+  "bedrock",
+  "azure-openai",
+  "anthropic",
+  "gemini",
+  "openai-compatible",
+  "fake",
+] as const;
 
 // Define model provider types
-export type ModelProvider = "openai" | "bedrock" | "azure-openai";
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+// Environment variables a provider cannot run without
+export const REQUIRED_ENV_VARS: Record<ModelProvider, string[]> = {
+  openai: ["OPENAI_API_KEY"],
+  "azure-openai": [
+    "AZURE_OPENAI_API_KEY",
+    "AZURE_OPENAI_API_INSTANCE_NAME",
+    "AZURE_OPENAI_API_DEPLOYMENT_NAME",
+    "AZURE_OPENAI_API_VERSION",
+  ],
+  bedrock: ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY", "AWS_DEFAULT_REGION"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  gemini: ["GOOGLE_API_KEY"],
+  "openai-compatible": ["OPENAI_COMPATIBLE_BASE_URL", "OPENAI_COMPATIBLE_MODEL"],
+  fake: ["FAKE_MODEL_SCRIPT"],
+};
+
+// Get the required environment variables of a provider that are not set
+export const getMissingEnvVars = (provider: ModelProvider): string[] =>
+  REQUIRED_ENV_VARS[provider].filter((envVar) => !process.env[envVar]);
+
+export const isModelProvider = (value: string | undefined): value is ModelProvider =>
+  (MODEL_PROVIDERS as readonly string[]).includes(value || "");
+
+// Roles of the model calls, each can be routed to its own provider, model and token limit
+export const MODEL_ROLES = ["clean", "rate", "parse", "execute", "track", "report", "script"] as const;
+
+export type ModelRole = (typeof MODEL_ROLES)[number];
+
+// Text-only roles whose answer depends on nothing but the prompt, their responses are cached
+export const CACHED_MODEL_ROLES: readonly ModelRole[] = ["clean", "rate", "parse", "report", "script"];
+
+// Output token limit of a model call unless the caller or its route sets another
+export const DEFAULT_MAX_TOKENS = 12000;
+
+const modelRouteSchema = z
+  .object({
+    provider: z.enum(MODEL_PROVIDERS).optional(),
+    model: z.string().trim().min(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const modelRoutingSchema = z.record(z.enum(MODEL_ROLES), modelRouteSchema);
+
+/**
+ * Provider, model and output token limit of a role, unset values fall back to the defaults
+ */
+export type ModelRoute = z.infer<typeof modelRouteSchema>;
+
+export type ModelRouting = Partial<Record<ModelRole, ModelRoute>>;
 
 // Get the model provider from environment
 export const getModelProvider = (): ModelProvider | undefined => {
   const provider = process.env.MODEL_PROVIDER?.toLowerCase();
-  return provider === "openai" || provider === "bedrock" || provider === "azure-openai"
-    ? (provider as ModelProvider)
-    : undefined;
+  return isModelProvider(provider) ? provider : undefined;
+};
+
+// Get the model name used for a provider
+export const getModelName = (provider: ModelProvider): string => {
+  switch (provider) {
+    case "openai":
+      return process.env.OPENAI_MODEL || "gpt-4.1";
+    case "azure-openai":
+      return process.env.AZURE_OPENAI_MODEL || "gpt-4.1";
+    case "bedrock":
+      return process.env.BEDROCK_MODEL || "us.anthropic.claude-3-7-sonnet-20250219-v1:0";
+    case "anthropic":
+      return process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514";
+    case "gemini":
+      return process.env.GEMINI_MODEL || "gemini-2.5-pro";
+    case "openai-compatible":
+      // Local servers have no default model, it is a required setting
+      return process.env.OPENAI_COMPATIBLE_MODEL || "";
+    case "fake":
+      return "scripted";
+  }
+};
+
+/**
+ * Read the routes of the model roles from the MODEL_ROUTING JSON,
+ * e.g. {"track":{"provider":"openai","model":"gpt-4.1-mini","maxTokens":4000}}
+ * @returns The route of every configured role
+ * @throws Error if MODEL_ROUTING is not valid JSON or has an unknown role, provider or setting
+ */
+export const getModelRouting = (): ModelRouting => {
+  if (!process.env.MODEL_ROUTING) {
+    return {};
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(process.env.MODEL_ROUTING);
+  } catch (error) {
+    throw new Error(`Invalid MODEL_ROUTING value: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = modelRoutingSchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "MODEL_ROUTING"}: ${issue.message}`
+    );
+    throw new Error(`Invalid MODEL_ROUTING value:\n- ${issues.join("\n- ")}`);
+  }
+
+  return result.data;
 };
 
-export const OpenAIModel = (streaming?: boolean, maxTokens = 12000) => {
+/**
+ * Check that the model routing can be read and that every provider it routes to has its
+ * required environment variables
+ * @returns The problems found, an empty list for a usable routing
+ */
+export const validateModelRouting = (): string[] => {
+  let routing: ModelRouting;
+  try {
+    routing = getModelRouting();
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  return Object.entries(routing).flatMap(([role, route]) => {
+    if (!route?.provider) {
+      return [];
+    }
+
+    // A route that names its model does not need the model setting of the provider
+    const missingEnvVars = getMissingEnvVars(route.provider).filter(
+      (envVar) => !(route.model && envVar === "OPENAI_COMPATIBLE_MODEL")
+    );
+    return missingEnvVars.length > 0
+      ? [`The ${role} role uses the ${route.provider} model, which requires: ${missingEnvVars.join(", ")}`]
+      : [];
+  });
+};
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPriceTable = Partial<Record<ModelProvider, Record<string, ModelPrice>>>;
+
+const OPENAI_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+};
+
+// Default prices used for cost estimates, override or extend them with the MODEL_PRICES config value
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  openai: OPENAI_PRICES,
+  "azure-openai": OPENAI_PRICES,
+  bedrock: {
+    "anthropic.claude-3-5-haiku": { input: 0.8, output: 4 },
+    "anthropic.claude-3-5-sonnet": { input: 3, output: 15 },
+    "anthropic.claude-3-7-sonnet": { input: 3, output: 15 },
+    "anthropic.claude-sonnet-4": { input: 3, output: 15 },
+    "anthropic.claude-opus-4": { input: 15, output: 75 },
+  },
+  anthropic: {
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-3-5-sonnet": { input: 3, output: 15 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-opus-4": { input: 15, output: 75 },
+  },
+  gemini: {
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+  },
+};
+
+// Get the price table, merging the MODEL_PRICES JSON (e.g. {"openai":{"gpt-4.1":{"input":2,"output":8}}}) over the defaults
+export const getModelPrices = (): ModelPriceTable => {
+  const prices: ModelPriceTable = {};
+  for (const [provider, models] of Object.entries(DEFAULT_MODEL_PRICES)) {
+    prices[provider as ModelProvider] = { ...models };
+  }
+
+  if (!process.env.MODEL_PRICES) {
+    return prices;
+  }
+
+  try {
+    const overrides = JSON.parse(process.env.MODEL_PRICES) as ModelPriceTable;
+    for (const [provider, models] of Object.entries(overrides)) {
+      prices[provider as ModelProvider] = {
+        ...prices[provider as ModelProvider],
+        ...models,
+      };
+    }
+  } catch (error) {
+    logger.warn(`Ignoring invalid MODEL_PRICES value: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return prices;
+};
+
+// Estimate the cost of a model call in USD, or null if the model has no known price
+export const estimateCost = (
+  provider: string | undefined,
+  modelName: string | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number | null => {
+  const models = provider ? getModelPrices()[provider as ModelProvider] : undefined;
+  if (!models || !modelName) {
+    return null;
+  }
+
+  // Exact match first, then the longest known name contained in the model ID (e.g. region prefixed Bedrock IDs)
+  const priceKey =
+    modelName in models
+      ? modelName
+      : Object.keys(models)
+          .filter((name) => modelName.includes(name))
+          .sort((a, b) => b.length - a.length)[0];
+  const price = priceKey ? models[priceKey] : undefined;
+  if (!price) {
+    return null;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export const OpenAIModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("openai")
+) => {
   // Check if OpenAI API key is provided when using OpenAI model
   if (process.env.MODEL_PROVIDER === "openai" && !process.env.OPENAI_API_KEY) {
     throw new Error("OPENAI_API_KEY is required when using the OpenAI model. Please set this environment variable.");
   }
 
-  const modelName = process.env.OPENAI_MODEL || "gpt-4.1";
   const isGPT5 = modelName.includes("gpt-5");
 
   return new ChatOpenAI({
@@ -32,7 +284,11 @@ export const OpenAIModel = (streaming?: boolean, maxTokens = 12000) => {
   });
 };
 
-export const AzureOpenAIModel = (streaming?: boolean, maxTokens = 12000) => {
+export const AzureOpenAIModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("azure-openai")
+) => {
   if (process.env.MODEL_PROVIDER === "azure-openai") {
     const requiredEnvVars = [
       "AZURE_OPENAI_API_KEY",
@@ -48,11 +304,10 @@ export const AzureOpenAIModel = (streaming?: boolean, maxTokens = 12000) => {
     }
   }
 
-  const modelName = process.env.AZURE_OPENAI_MODEL || "gpt-4.1";
   const isGPT5 = modelName.includes("gpt-5");
 
   return new AzureChatOpenAI({
-    modelName: process.env.AZURE_OPENAI_MODEL || "gpt-4.1",
+    modelName,
     azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
     azureOpenAIApiInstanceName: process.env.AZURE_OPENAI_API_INSTANCE_NAME,
     azureOpenAIApiDeploymentName: process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME,
@@ -62,7 +317,11 @@ export const AzureOpenAIModel = (streaming?: boolean, maxTokens = 12000) => {
   });
 };
 
-export const BedrockModel = (streaming?: boolean, maxTokens = 12000) => {
+export const BedrockModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("bedrock")
+) => {
   // Check if AWS credentials are provided when using Bedrock model
   if (process.env.MODEL_PROVIDER === "bedrock") {
     const missingCredentials = [];
@@ -101,9 +360,7 @@ export const BedrockModel = (streaming?: boolean, maxTokens = 12000) => {
   }
 
   return new BedrockChat({
-    model:
-      process.env.BEDROCK_MODEL ||
-      "us.anthropic.claude-3-7-sonnet-20250219-v1:0",
+    model: modelName,
     region: process.env.AWS_DEFAULT_REGION,
     credentials,
     modelKwargs: {
@@ -114,28 +371,136 @@ export const BedrockModel = (streaming?: boolean, maxTokens = 12000) => {
   });
 };
 
-// Model factory that returns the appropriate model based on the provider
+export const AnthropicModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("anthropic")
+) => {
+  if (process.env.MODEL_PROVIDER === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
+    throw new Error("ANTHROPIC_API_KEY is required when using the Anthropic model. Please set this environment variable.");
+  }
+
+  return new ChatAnthropic({
+    model: modelName,
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    streaming,
+    maxTokens,
+  });
+};
+
+export const GeminiModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("gemini")
+) => {
+  if (process.env.MODEL_PROVIDER === "gemini" && !process.env.GOOGLE_API_KEY) {
+    throw new Error("GOOGLE_API_KEY is required when using the Gemini model. Please set this environment variable.");
+  }
+
+  return new ChatGoogleGenerativeAI({
+    model: modelName,
+    apiKey: process.env.GOOGLE_API_KEY,
+    streaming,
+    maxOutputTokens: maxTokens,
+  });
+};
+
+export const OpenAICompatibleModel = (
+  streaming?: boolean,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  modelName = getModelName("openai-compatible")
+) => {
+  if (process.env.MODEL_PROVIDER === "openai-compatible") {
+    const missingEnvVars = getMissingEnvVars("openai-compatible");
+
+    if (missingEnvVars.length > 0) {
+      throw new Error(`The following OpenAI-compatible environment variables are required: ${missingEnvVars.join(", ")}. Please set these environment variables.`);
+    }
+  }
+
+  return new ChatOpenAI({
+    modelName,
+    // Local servers usually accept any key, the OpenAI client needs one to be set
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+    configuration: { baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL },
+    streaming,
+    maxTokens,
+  });
+};
+
+export const FakeModel = () => {
+  if (!process.env.FAKE_MODEL_SCRIPT) {
+    throw new Error("FAKE_MODEL_SCRIPT is required when using the fake model. Please set it to the path of a model script.");
+  }
+
+  return new ScriptedChatModel({ scriptPath: process.env.FAKE_MODEL_SCRIPT });
+};
+
+// Model factory that returns the appropriate model based on the provider, or on the route of the role
 export const getModel = (
   streaming?: boolean,
-  maxTokens = 12000
+  maxTokens = DEFAULT_MAX_TOKENS,
+  role?: ModelRole
 ): BaseChatModel => {
-  // Use provided provider or get from environment
-  const modelProvider = getModelProvider();
+  // Use the provider of the role's route or get it from environment
+  const route = role ? getModelRouting()[role] : undefined;
+  const modelProvider = route?.provider ?? getModelProvider();
 
   if (!modelProvider) {
     throw new Error(
-      "No model provider specified. Please set MODEL_PROVIDER environment variable or specify --model option."
+      process.env.MODEL_PROVIDER
+        ? `Unsupported model provider: ${process.env.MODEL_PROVIDER}. Use one of: ${MODEL_PROVIDERS.join(", ")}.`
+        : "No model provider specified. Please set MODEL_PROVIDER environment variable or specify --model option."
     );
   }
 
+  const modelName = route?.model ?? getModelName(modelProvider);
+  const tokens = route?.maxTokens ?? maxTokens;
+
+  let model: BaseChatModel;
   switch (modelProvider) {
     case "openai":
-      return OpenAIModel(streaming, maxTokens);
+      model = OpenAIModel(streaming, tokens, modelName);
+      break;
     case "bedrock":
-      return BedrockModel(streaming, maxTokens);
+      model = BedrockModel(streaming, tokens, modelName);
+      break;
     case "azure-openai":
-      return AzureOpenAIModel(streaming, maxTokens);
+      model = AzureOpenAIModel(streaming, tokens, modelName);
+      break;
+    case "anthropic":
+      model = AnthropicModel(streaming, tokens, modelName);
+      break;
+    case "gemini":
+      model = GeminiModel(streaming, tokens, modelName);
+      break;
+    case "openai-compatible":
+      model = OpenAICompatibleModel(streaming, tokens, modelName);
+      break;
+    case "fake":
+      model = FakeModel();
+      break;
     default:
       throw new Error(`Unsupported model provider: ${modelProvider}`);
   }
+
+  // Serve repeated calls from the response cache, scripted responses are replayed in order instead
+  if (
+    role &&
+    CACHED_MODEL_ROLES.includes(role) &&
+    modelProvider !== "fake" &&
+    isResponseCacheEnabled()
+  ) {
+    model.cache = new ResponseCache(role);
+  }
+
+  // Track usage and enforce run budgets for every model call
+  model.callbacks = [usageCallbackHandler];
+  model.metadata = {
+    ...model.metadata,
+    [USAGE_PROVIDER_METADATA_KEY]: modelProvider,
+    [USAGE_MODEL_METADATA_KEY]: modelName,
+  };
+
+  return model;
 };
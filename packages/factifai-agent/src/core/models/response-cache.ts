@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createHash } from "crypto";
+import chalk from "chalk";
+import {
+  BaseCache,
+  deserializeStoredGeneration,
+  serializeGeneration,
+} from "@langchain/core/caches";
+import type { StoredGeneration } from "@langchain/core/messages";
+import type { Generation } from "@langchain/core/outputs";
+import { logger } from "../../common/utils/logger";
+
+// Cached responses are shared by every session of the user
+export const RESPONSE_CACHE_DIR = path.join(os.homedir(), ".factifai", "cache");
+
+/**
+ * A cached model response
+ */
+interface ResponseCacheEntry {
+  createdAt: string;
+  generations: StoredGeneration[];
+}
+
+// Whether model responses may be served from the cache, RESPONSE_CACHE=false turns it off
+export const isResponseCacheEnabled = (): boolean =>
+  process.env.RESPONSE_CACHE?.toLowerCase() !== "false";
+
+/**
+ * On-disk cache of model responses, keyed by a hash of the model and its call options
+ * (including the schema of a structured output call) and of the prompt. Only calls whose
+ * answer depends on nothing but the prompt should use it, calls that look at the page must not.
+ */
+export class ResponseCache extends BaseCache<Generation[]> {
+  /**
+   * @param label Name of the calls in the log, e.g. their model role
+   * @param cacheDir Folder the responses are stored in
+   */
+  constructor(
+    private readonly label: string,
+    private readonly cacheDir = RESPONSE_CACHE_DIR
+  ) {
+    super();
+  }
+
+  async lookup(prompt: string, llmKey: string): Promise<Generation[] | null> {
+    const filePath = this.getEntryPath(prompt, llmKey);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as ResponseCacheEntry;
+      const generations = entry.generations.map((generation) => deserializeStoredGeneration(generation));
+      logger.appendToFile(
+        chalk.gray(`Using the cached ${this.label} response from ${entry.createdAt} (${path.basename(filePath)})`)
+      );
+      return generations;
+    } catch {
+      // An unreadable entry is a miss, the response of the model call replaces it
+      return null;
+    }
+  }
+
+  async update(prompt: string, llmKey: string, value: Generation[]): Promise<void> {
+    const entry: ResponseCacheEntry = {
+      createdAt: new Date().toISOString(),
+      generations: value.map((generation) => serializeGeneration(generation)),
+    };
+
+    try {
+      await fs.promises.mkdir(this.cacheDir, { recursive: true });
+      await fs.promises.writeFile(this.getEntryPath(prompt, llmKey), JSON.stringify(entry));
+    } catch (error) {
+      // The response was received, failing to cache it must not fail the call
+      logger.warn(
+        `Could not cache the ${this.label} response: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private getEntryPath(prompt: string, llmKey: string): string {
+    const hash = createHash("sha256").update(llmKey).update("\0").update(prompt).digest("hex");
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+}
+
+/**
+ * Delete every cached response
+ * @param cacheDir Folder the responses are stored in
+ * @returns The number of responses deleted
+ */
+export function clearResponseCache(cacheDir = RESPONSE_CACHE_DIR): number {
+  if (!fs.existsSync(cacheDir)) {
+    return 0;
+  }
+
+  const entries = fs.readdirSync(cacheDir).filter((file) => file.endsWith(".json"));
+  entries.forEach((file) => fs.rmSync(path.join(cacheDir, file), { force: true }));
+  return entries.length;
+}
@@ -0,0 +1,298 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMResult } from "@langchain/core/outputs";
+import { getContextSessionId } from "../../common/utils/session-context";
+import { formatDuration } from "../../common/utils/time-utils";
+
+/**
+ * Limits for a single run. Unset limits are not enforced.
+ */
+export interface RunBudget {
+  maxDurationMs?: number;
+  maxLlmCalls?: number;
+  maxTokens?: number;
+}
+
+export type BudgetKind = "duration" | "llmCalls" | "tokens";
+
+// Metadata keys getModel() uses to tell the tracker which provider and model served a call
+export const USAGE_PROVIDER_METADATA_KEY = "factifai_provider";
+export const USAGE_MODEL_METADATA_KEY = "factifai_model";
+
+/**
+ * Token usage of a single model call
+ */
+export interface UsageRecord {
+  // Graph node that made the call, e.g. parse, execute, track or report
+  node: string;
+  // Test step that was active when the call was made
+  stepId: number | null;
+  provider?: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  // The response came from the response cache, the call did not reach the provider
+  cached?: boolean;
+}
+
+/**
+ * Thrown when a model call is attempted after a run budget has been exhausted
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budget: BudgetKind,
+    message: string
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Usage of a single session
+ */
+interface SessionUsage {
+  budget: RunBudget;
+  startTime: number;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  activeStepId: number | null;
+  records: UsageRecord[];
+}
+
+/**
+ * Tracks model calls and token usage per session and enforces run budgets
+ */
+export class UsageTracker {
+  private static readonly sessions = new Map<string, SessionUsage>();
+
+  /**
+   * Start tracking a session, resetting any previous usage
+   * @param sessionId The session ID
+   * @param budget The budget for the run
+   */
+  static start(sessionId: string, budget: RunBudget = {}): void {
+    this.sessions.set(sessionId, {
+      budget,
+      startTime: Date.now(),
+      llmCalls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      activeStepId: null,
+      records: [],
+    });
+  }
+
+  /**
+   * Stop tracking a session
+   * @param sessionId The session ID
+   */
+  static end(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Record a model call that is about to start
+   * @throws BudgetExceededError if the session has no budget left
+   */
+  static recordCallStart(sessionId: string): void {
+    const usage = this.sessions.get(sessionId);
+    if (!usage) {
+      return;
+    }
+
+    const exceeded = this.getExceededBudget(sessionId);
+    if (exceeded) {
+      throw new BudgetExceededError(exceeded.budget, exceeded.reason);
+    }
+
+    usage.llmCalls++;
+  }
+
+  /**
+   * Set the test step that following model calls are attributed to
+   * @param sessionId The session ID
+   * @param stepId The active step ID, or null when no step is active
+   */
+  static setActiveStep(sessionId: string, stepId: number | null): void {
+    const usage = this.sessions.get(sessionId);
+    if (usage) {
+      usage.activeStepId = stepId;
+    }
+  }
+
+  /**
+   * Get the test step that model calls are currently attributed to
+   */
+  static getActiveStep(sessionId: string): number | null {
+    return this.sessions.get(sessionId)?.activeStepId ?? null;
+  }
+
+  /**
+   * Record the tokens used by a finished model call, a cached response does not count
+   * against the LLM call budget
+   */
+  static recordUsage(sessionId: string, record: UsageRecord): void {
+    const usage = this.sessions.get(sessionId);
+    if (!usage) {
+      return;
+    }
+
+    if (record.cached) {
+      usage.llmCalls = Math.max(0, usage.llmCalls - 1);
+    }
+
+    usage.inputTokens += record.inputTokens;
+    usage.outputTokens += record.outputTokens;
+    usage.records.push(record);
+  }
+
+  /**
+   * Get the usage records of a session, in call order
+   * @param sessionId The session ID
+   */
+  static getRecords(sessionId: string): UsageRecord[] {
+    return [...(this.sessions.get(sessionId)?.records || [])];
+  }
+
+  /**
+   * Check whether any budget of the session is exhausted
+   * @param sessionId The session ID
+   * @returns The exhausted budget and a human readable reason, or null
+   */
+  static getExceededBudget(
+    sessionId: string
+  ): { budget: BudgetKind; reason: string } | null {
+    const usage = this.sessions.get(sessionId);
+    if (!usage) {
+      return null;
+    }
+
+    const { budget } = usage;
+    const elapsed = Date.now() - usage.startTime;
+    const totalTokens = usage.inputTokens + usage.outputTokens;
+
+    if (budget.maxDurationMs !== undefined && elapsed >= budget.maxDurationMs) {
+      return {
+        budget: "duration",
+        reason: `Duration budget exhausted: ran for ${formatDuration(elapsed)} (limit ${formatDuration(budget.maxDurationMs)})`,
+      };
+    }
+
+    if (budget.maxLlmCalls !== undefined && usage.llmCalls >= budget.maxLlmCalls) {
+      return {
+        budget: "llmCalls",
+        reason: `LLM call budget exhausted: ${usage.llmCalls} of ${budget.maxLlmCalls} calls used`,
+      };
+    }
+
+    if (budget.maxTokens !== undefined && totalTokens >= budget.maxTokens) {
+      return {
+        budget: "tokens",
+        reason: `Token budget exhausted: ${totalTokens} of ${budget.maxTokens} tokens used`,
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Callback handler attached to every model from getModel() that feeds the UsageTracker.
+ * Errors are raised so a call over budget never reaches the provider.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "factifai_usage_tracker";
+  raiseError = true;
+  awaitHandlers = true;
+
+  private readonly pendingRuns = new Map<string, { sessionId: string; record: UsageRecord }>();
+
+  async handleChatModelStart(
+    _llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    const sessionId = resolveSessionId(metadata);
+    if (!sessionId) {
+      return;
+    }
+
+    UsageTracker.recordCallStart(sessionId);
+    this.pendingRuns.set(runId, {
+      sessionId,
+      record: {
+        node: typeof metadata?.langgraph_node === "string" ? metadata.langgraph_node : "other",
+        stepId: UsageTracker.getActiveStep(sessionId),
+        provider: metadata?.[USAGE_PROVIDER_METADATA_KEY] as string | undefined,
+        model: metadata?.[USAGE_MODEL_METADATA_KEY] as string | undefined,
+        inputTokens: 0,
+        outputTokens: 0,
+      },
+    });
+  }
+
+  async handleLLMEnd(
+    output: LLMResult,
+    runId: string,
+    _parentRunId?: string,
+    _tags?: string[],
+    extraParams?: Record<string, unknown>
+  ): Promise<void> {
+    const pending = this.pendingRuns.get(runId);
+    this.pendingRuns.delete(runId);
+    if (!pending) {
+      return;
+    }
+
+    UsageTracker.recordUsage(pending.sessionId, {
+      ...pending.record,
+      ...extractTokenUsage(output),
+      ...(extraParams?.cached === true && { cached: true }),
+    });
+  }
+
+  async handleLLMError(_error: unknown, runId: string): Promise<void> {
+    this.pendingRuns.delete(runId);
+  }
+}
+
+/**
+ * Shared handler instance, it keeps no per-session state of its own
+ */
+export const usageCallbackHandler = new UsageCallbackHandler();
+
+/**
+ * Resolve the session of a model call from the graph thread or the session context
+ */
+function resolveSessionId(metadata?: Record<string, unknown>): string | undefined {
+  const threadId = metadata?.thread_id;
+  return typeof threadId === "string" ? threadId : getContextSessionId();
+}
+
+/**
+ * Read token usage from the different shapes providers report it in
+ */
+function extractTokenUsage(output: LLMResult): { inputTokens: number; outputTokens: number } {
+  const message: any = (output.generations?.[0]?.[0] as any)?.message;
+  const usageMetadata = message?.usage_metadata;
+  if (usageMetadata) {
+    return {
+      inputTokens: usageMetadata.input_tokens || 0,
+      outputTokens: usageMetadata.output_tokens || 0,
+    };
+  }
+
+  const llmOutput: any = output.llmOutput || {};
+  const tokenUsage = llmOutput.tokenUsage || llmOutput.usage || {};
+  return {
+    inputTokens: tokenUsage.promptTokens || tokenUsage.input_tokens || 0,
+    outputTokens: tokenUsage.completionTokens || tokenUsage.output_tokens || 0,
+  };
+}
@@ -4,15 +4,21 @@ import {
   MessageContentComplex,
   SystemMessage,
 } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
 import chalk from "chalk";
 import { GraphStateType } from "../../graph/graph";
 import { logger } from "../../../common/utils/logger";
 import { getSessionSubdirPath, SCREENSHOTS_DIR_NAME } from "../../../common/utils/path-utils";
-import { getModel } from "../../models/models";
+import { DEFAULT_MAX_TOKENS, getModel } from "../../models/models";
 import { ALL_TOOLS } from "../../../tools";
 import { removeImageUrlsFromMessage } from "../../../common/utils/llm-utils";
 import { convertElementsToXml } from "../../../common/utils/xml-formatter";
+import { describeVariables, type RuntimeVariables } from "../../../common/utils/runtime-variables";
 import { processSuccessfulAction } from "../playwright/playwright-utils/action-extractor";
+import { findActiveStep } from "../intervention/human-review-node";
+import { skipStepsAfterFailure } from "../tracking/tracking-node";
+import { BudgetExceededError, UsageTracker } from "../../models/usage-tracker";
+import { RunEvents } from "../../events/run-events";
 
 // Helper function to capture current browser state
 const captureCurrentState = async (sessionId: string) => {
@@ -27,6 +33,7 @@ const captureCurrentState = async (sessionId: string) => {
       }
     );
     const screenshot = markedScreenshotResponse.image;
+    let screenshotPath: string | null = null;
 
     // Save screenshot to session/screenshots directory with timestamp
     if (screenshot) {
@@ -48,6 +55,7 @@ const captureCurrentState = async (sessionId: string) => {
       // Write the screenshot to the screenshots directory
       const imagePath = path.join(screenshotsDir, filename);
       fs.writeFileSync(imagePath, Buffer.from(screenshot, "base64"));
+      screenshotPath = imagePath;
       logger.appendToFile(
         chalk.cyan(`📷 Screenshot saved to ${imagePath} for debugging`)
       );
@@ -57,6 +65,10 @@ const captureCurrentState = async (sessionId: string) => {
 
     const currentUrl = (await getCurrentUrl(sessionId)).url ?? null;
 
+    if (screenshotPath) {
+      RunEvents.emit(sessionId, { type: "screenshot_captured", path: screenshotPath, url: currentUrl });
+    }
+
     // Marked elements on the page
     const markedElementsResult = markedScreenshotResponse?.elements;
     const visibleElements =
@@ -71,13 +83,25 @@ const captureCurrentState = async (sessionId: string) => {
     );
     logger.appendToFile(chalk.cyan(`🔍 Found ${JSON.stringify(visibleElements)}`));
 
-    return { screenshot, url: currentUrl, visibleElements, error: null };
+    return { screenshot, screenshotPath, url: currentUrl, visibleElements, error: null };
   } catch (error) {
     logger.error("Failed to capture browser state:", error);
-    return { screenshot: null, url: null, visibleElements: null, error };
+    return { screenshot: null, screenshotPath: null, url: null, visibleElements: null, error };
   }
 };
 
+// The step being executed in step-by-step mode
+type CurrentStep = {
+  step: GraphStateType["testSteps"][number];
+  totalSteps: number;
+};
+
+// Helper function to find the next step to execute in step-by-step mode
+const findCurrentStep = (testSteps: GraphStateType["testSteps"]) =>
+  testSteps.find(
+    (step) => step.status === "in_progress" || step.status === "not_started"
+  ) || null;
+
 // Helper function to build the system prompt
 const buildSystemPrompt = (
   sessionId: string,
@@ -87,7 +111,10 @@ const buildSystemPrompt = (
   retryCount: number,
   retryAction: string | null,
   maxRetries: number,
-  visibleElements: any[] | null
+  visibleElements: any[] | null,
+  operatorHint: string | null,
+  currentStep: CurrentStep | null,
+  variables: RuntimeVariables
 ) => {
   let systemPromptContent = `You are a browser automation QA assistant that helps execute test instructions on web pages SEQUENTIALLY.
   You have access to tools for navigation, clicking elements, typing text and multiple scrolling tools for dealing with long pages.
@@ -108,6 +135,7 @@ const buildSystemPrompt = (
   4. For chunk-based scrolling use scrollToNextChunk and scrollToPrevChunk
   5. Work step by step to complete the task
   6. ALWAYS include the sessionId parameter in EVERY tool call: "${sessionId}"
+  7. When the test needs a value shown on the page later on (e.g. an order number), read it with storeVariable and reference it as \${name} in the arguments of later tool calls
   
   MARKED VISIBLE ELEMENTS:
   The screenshot shows interactive elements with colored bounding boxes and numbered labels.
@@ -128,6 +156,40 @@ const buildSystemPrompt = (
     This action has failed verification. Please try a slightly different approach.`;
   }
 
+  // Limit the executor to the current step in step-by-step mode
+  if (currentStep) {
+    systemPromptContent += `
+    
+    CURRENT TEST STEP:
+    You are executing ONLY step ${currentStep.step.id} of ${currentStep.totalSteps}: "${currentStep.step.instruction}"
+    Expected result: "${currentStep.step.expected_result || "The step completes without errors"}"
+    Do not perform actions that belong to other steps of the test case.
+    
+    STEP COMPLETION:
+    Once the previous action is verified and the expected result of this step is achieved, or it clearly cannot be achieved, DO NOT USE ANY TOOLS and end your response with one of:
+    STEP RESULT: PASSED - <what you observed that confirms the expected result>
+    STEP RESULT: FAILED - <why the expected result was not achieved>`;
+  }
+
+  // List the values captured so far so the model can reference and verify them
+  const variableLines = describeVariables(variables);
+  if (variableLines.length > 0) {
+    systemPromptContent += `
+    
+    RUNTIME VARIABLES:
+    Values stored earlier in this run. Reference them as \${name} in tool arguments, they are filled in when the tool runs:
+    ${variableLines.join("\n    ")}`;
+  }
+
+  // Add guidance from the operator in interactive mode
+  if (operatorHint) {
+    systemPromptContent += `
+    
+    OPERATOR HINT:
+    A human operator reviewed the failing step and provided this guidance. Follow it when planning your next action:
+    "${operatorHint}"`;
+  }
+
   // Add verification instructions if there was a previous action
   if (lastAction && expectedOutcome) {
     systemPromptContent += `
@@ -185,12 +247,22 @@ const createHumanMessage = (
   currentUrl: string | null,
   retryCount: number,
   maxRetries: number,
-  visibleElements: any[] | null
+  visibleElements: any[] | null,
+  resumeContext: string | null,
+  currentStep: CurrentStep | null,
+  segment: { index: number; total: number } | null
 ) => {
+  const task = currentStep
+    ? `Execute step ${currentStep.step.id} of the test case: "${currentStep.step.instruction}"
+             Expected result: "${currentStep.step.expected_result || "The step completes without errors"}"`
+    : segment
+    ? `Execute part ${segment.index + 1} of ${segment.total} of this test case, the earlier parts have already been executed on the current page: "${processedInstruction}"`
+    : `Execute this test case: "${processedInstruction}"`;
+
   const humanMessageContent: any = [
     {
       type: "text",
-      text: `Execute this test case: "${processedInstruction}"
+      text: `${task}
              Current URL: ${currentUrl || "Unknown"}
              ${
                lastAction && expectedOutcome
@@ -205,6 +277,11 @@ const createHumanMessage = (
     },
   ];
 
+  // Tell the model which steps already passed before the run was interrupted
+  if (resumeContext) {
+    humanMessageContent.push({ type: "text", text: resumeContext });
+  }
+
   // Add the current screenshot with element coordinates
   humanMessageContent.push(
     {
@@ -231,6 +308,20 @@ ${convertElementsToXml(visibleElements)}`,
   return new HumanMessage({ content: humanMessageContent });
 };
 
+// Helper function to extract the step result in step-by-step mode
+const parseStepResult = (responseText: string) => {
+  const stepResultMatch = responseText.match(
+    /STEP RESULT:\s*(PASSED|FAILED)\s*-?\s*([\s\S]*)$/i
+  );
+
+  if (!stepResultMatch) return null;
+
+  return {
+    result: stepResultMatch[1].trim().toUpperCase(),
+    explanation: stepResultMatch[2].trim(),
+  };
+};
+
 // Helper function to extract verification result
 const parseVerificationResult = (responseText: string) => {
   const verificationMatch = responseText.match(
@@ -284,6 +375,80 @@ const extractActionInfo = (responseContent: any) => {
   return { nextAction, nextExpectedOutcome };
 };
 
+/**
+ * Complete the run gracefully when a budget is exhausted, the report explains why it stopped
+ */
+const budgetExhaustedResult = (
+  sessionId: string,
+  reason: string,
+  testStartTime: number | null
+) => {
+  logger.warn(chalk.yellow(`Stopping test execution: ${reason}`));
+  logger.appendToFile(`TEST_EXECUTION_BUDGET_EXHAUSTED: ${reason}, sessionId=${sessionId}`);
+
+  const testEndTime = Date.now();
+  return {
+    isComplete: true,
+    abortReason: reason,
+    testStartTime: testStartTime ?? testEndTime,
+    testEndTime,
+    testDuration: testStartTime ? testEndTime - testStartTime : 0,
+  };
+};
+
+/**
+ * Complete the run after the last step in step-by-step mode
+ */
+const completeRun = (sessionId: string, testStartTime: number | null) => {
+  const testEndTime = Date.now();
+  const testDuration = testStartTime ? testEndTime - testStartTime : null;
+  logger.appendToFile(`TEST_EXECUTION_COMPLETE: ${testEndTime} (${new Date(testEndTime).toISOString()}), duration=${testDuration}ms, sessionId=${sessionId}`);
+
+  return {
+    isComplete: true,
+    testStartTime,
+    testEndTime,
+    testDuration,
+  };
+};
+
+/**
+ * Continue with the next segment of a long instruction once the current one is finished
+ */
+const nextSegmentResult = (sessionId: string, currentSegmentIndex: number, totalSegments: number) => {
+  logger.info(
+    chalk.cyan(`Segment ${currentSegmentIndex + 1} of ${totalSegments} finished, parsing the next segment`)
+  );
+  logger.appendToFile(`TEST_SEGMENT_COMPLETE: segment=${currentSegmentIndex + 1}/${totalSegments}, sessionId=${sessionId}`);
+
+  return {
+    isComplete: false,
+    currentSegmentIndex: currentSegmentIndex + 1,
+    // The next segment starts without a pending action to verify
+    lastAction: null,
+    expectedOutcome: null,
+    retryCount: 0,
+    retryAction: "",
+  };
+};
+
+/**
+ * Set the status and notes of a single step
+ */
+const updateStep = (
+  sessionId: string,
+  testSteps: GraphStateType["testSteps"],
+  stepId: number,
+  status: GraphStateType["testSteps"][number]["status"],
+  notes: string
+) => {
+  const updatedSteps = testSteps.map((step) =>
+    step.id === stepId ? { ...step, status, notes } : step
+  );
+  RunEvents.emitStepChanges(sessionId, testSteps, updatedSteps);
+  return updatedSteps;
+};
+
 // Flag to check if shutting down to prevent operations during cleanup
 let isShuttingDown = false;
 
@@ -305,8 +470,17 @@ export const executeAndVerifyNode = async ({
   retryAction = "",
   maxRetries = 3,
   testStartTime,
-  skipPlaywright
-}: GraphStateType) => {
+  skipPlaywright,
+  resumeContext,
+  interactive,
+  operatorHint,
+  stepByStep,
+  testSteps = [],
+  variables = {},
+  stepStartedAt,
+  segments = [],
+  currentSegmentIndex = 0,
+}: GraphStateType, config?: RunnableConfig) => {
   // Check if we're in the process of shutting down
   if (isShuttingDown) {
     console.log("Execution aborted due to shutdown in progress");
@@ -316,6 +490,15 @@ export const executeAndVerifyNode = async ({
     };
   }
 
+  // Stop before another model call once a run budget is exhausted
+  const exceededBudget = UsageTracker.getExceededBudget(sessionId);
+  if (exceededBudget) {
+    return budgetExhaustedResult(sessionId, exceededBudget.reason, testStartTime);
+  }
+
+  // Attribute the token usage of this and the following tracking calls to the active step
+  UsageTracker.setActiveStep(sessionId, findActiveStep(testSteps)?.id ?? null);
+
   // Record the test start time on first execution (when not retrying and no previous action)
   if (!testStartTime && retryCount === 0 && !lastAction) {
     testStartTime = Date.now();
@@ -325,6 +508,44 @@ export const executeAndVerifyNode = async ({
     );
     logger.appendToFile(`TEST_EXECUTION_START: ${testStartTime} (${startTimeFormatted}), sessionId=${sessionId}, instruction=${processedInstruction.substring(0, 100)}...`);
   }
+  // Whether a long instruction has segments left after the current one
+  const hasNextSegment = currentSegmentIndex < segments.length - 1;
+
+  // In step-by-step mode the executor only sees the current step
+  let currentStep: CurrentStep | null = null;
+  if (stepByStep) {
+    const step = findCurrentStep(testSteps);
+    if (!step) {
+      // Every step has been decided, e.g. the operator passed or skipped the last one
+      return hasNextSegment
+        ? { ...nextSegmentResult(sessionId, currentSegmentIndex, segments.length), testStartTime }
+        : completeRun(sessionId, testStartTime);
+    }
+
+    if (step.status === "not_started") {
+      testSteps = updateStep(sessionId, testSteps, step.id, "in_progress", step.notes);
+    }
+    currentStep = { step: { ...step, status: "in_progress" }, totalSteps: testSteps.length };
+
+    // The timeout of a step counts from its first execution
+    if (stepStartedAt?.stepId !== step.id) {
+      stepStartedAt = { stepId: step.id, time: Date.now() };
+    }
+    if (step.timeout && Date.now() - stepStartedAt.time > step.timeout * 1000) {
+      const reason = `Step ${step.id} timed out after ${step.timeout}s`;
+      logger.error(chalk.red(reason));
+      return {
+        ...completeRun(sessionId, testStartTime),
+        testSteps: skipStepsAfterFailure(
+          sessionId,
+          updateStep(sessionId, testSteps, step.id, "failed", reason)
+        ),
+        lastError: reason,
+        stepStartedAt: null,
+      };
+    }
+  }
+
   // Capture current browser state
   const captureResult = await captureCurrentState(sessionId);
   const currentScreenshot = captureResult.screenshot;
@@ -347,7 +568,10 @@ export const executeAndVerifyNode = async ({
     retryCount,
     retryAction,
     maxRetries,
-    visibleElements
+    visibleElements,
+    operatorHint,
+    currentStep,
+    variables
   );
 
   // Create human message with screenshots
@@ -359,7 +583,10 @@ export const executeAndVerifyNode = async ({
     currentUrl,
     retryCount,
     maxRetries,
-    visibleElements
+    visibleElements,
+    resumeContext,
+    currentStep,
+    segments.length > 1 ? { index: currentSegmentIndex, total: segments.length } : null
   );
 
   // Log retry attempts
@@ -373,7 +600,7 @@ export const executeAndVerifyNode = async ({
 
   try {
     // Get model with tools
-    const model = getModel(false);
+    const model = getModel(false, DEFAULT_MAX_TOKENS, "execute");
     if (!model) {
       throw new Error("Failed to initialize model");
     }
@@ -396,12 +623,24 @@ export const executeAndVerifyNode = async ({
       );
     }
 
+    for (const toolCall of response.tool_calls || []) {
+      RunEvents.emit(sessionId, {
+        type: "tool_call",
+        toolCallId: toolCall.id || "",
+        name: toolCall.name,
+        args: toolCall.args,
+      });
+    }
+
     // Convert response content to string for processing
     const responseText =
       typeof response.content === "string"
         ? response.content
         : JSON.stringify(response.content);
 
+    // Whether the previous action was verified, which also retires any operator hint
+    let actionVerified = false;
+
     // Process verification if there was a previous action
     if (lastAction && expectedOutcome) {
       const verification = parseVerificationResult(responseText);
@@ -412,6 +651,13 @@ export const executeAndVerifyNode = async ({
             `Verification result: ${verification.result} - ${verification.explanation}`
           )
         );
+        RunEvents.emit(sessionId, {
+          type: "verification_result",
+          stepId: findActiveStep(testSteps)?.id ?? null,
+          action: lastAction,
+          result: verification.result === "SUCCESS" ? "SUCCESS" : "FAILURE",
+          explanation: verification.explanation,
+        });
 
         // Handle verification failure
         if (verification.result === "FAILURE") {
@@ -422,6 +668,42 @@ export const executeAndVerifyNode = async ({
                 `Maximum retries (${maxRetries}) reached for action: "${lastAction}"`
               )
             );
+
+            // In interactive mode, pause and let the operator decide how to continue
+            if (interactive) {
+              const activeStep = findActiveStep(testSteps);
+              return {
+                messages: [removeImageUrlsFromMessage(humanMessage), response],
+                retryCount: 0,
+                retryAction: "",
+                lastUrl: currentUrl,
+                interventionRequest: {
+                  stepId: activeStep?.id ?? null,
+                  stepInstruction: activeStep?.instruction ?? null,
+                  failedAction: lastAction,
+                  reason: verification.explanation,
+                  screenshotPath: captureResult.screenshotPath,
+                  currentUrl,
+                },
+              };
+            }
+
+            // In step-by-step mode the step fails and the run stops, later steps depend on it
+            if (currentStep) {
+              return {
+                ...completeRun(sessionId, testStartTime),
+                messages: [removeImageUrlsFromMessage(humanMessage), response],
+                testSteps: skipStepsAfterFailure(
+                  sessionId,
+                  updateStep(sessionId, testSteps, currentStep.step.id, "failed", verification.explanation)
+                ),
+                lastUrl: currentUrl,
+                lastError: `Step ${currentStep.step.id} failed after ${retryCount} retries: ${verification.explanation}`,
+                retryCount: 0,
+                retryAction: "",
+              };
+            }
+
             return {
               messages: [
                 ...messages,
@@ -429,6 +711,7 @@ export const executeAndVerifyNode = async ({
                 response,
               ],
               isComplete: false,
+              lastUrl: currentUrl,
               lastError: `Verification failed after ${retryCount} retries: ${verification.explanation}`,
               retryCount: 0, // Reset retry count
               retryAction: "",
@@ -451,6 +734,8 @@ export const executeAndVerifyNode = async ({
             ],
             retryCount: retryCount + 1,
             retryAction: lastAction,
+            lastUrl: currentUrl,
+            ...(currentStep && { stepStartedAt }),
           };
         } else if (retryCount > 0) {
           // Log success after retries
@@ -461,9 +746,16 @@ export const executeAndVerifyNode = async ({
           );
         }
         
+        actionVerified = verification.result === "SUCCESS";
+
         // If verification was successful, store the action for Playwright script generation
         if (verification.result === "SUCCESS" && !skipPlaywright) {
-          processSuccessfulAction(sessionId, messages, verification.explanation);
+          processSuccessfulAction(
+            sessionId,
+            messages,
+            verification.explanation,
+            findActiveStep(testSteps)?.id
+          );
         }
       }
     }
@@ -490,6 +782,102 @@ export const executeAndVerifyNode = async ({
       shouldComplete = true;
     }
 
+    // In step-by-step mode a response without tool calls finishes the current step only
+    if (currentStep && shouldComplete) {
+      const stepResult = parseStepResult(responseText);
+      // Without an explicit result the step passes only if its last action was verified
+      const passed = stepResult ? stepResult.result === "PASSED" : actionVerified;
+      const notes =
+        stepResult?.explanation ||
+        (passed
+          ? "The last action of the step was verified"
+          : "The executor finished the step without reporting a result");
+
+      // In interactive mode the operator decides how to continue with a failed step
+      if (!passed && interactive) {
+        return {
+          messages: cleaned,
+          testSteps,
+          lastUrl: currentUrl,
+          interventionRequest: {
+            stepId: currentStep.step.id,
+            stepInstruction: currentStep.step.instruction,
+            failedAction: lastAction,
+            reason: notes,
+            screenshotPath: captureResult.screenshotPath,
+            currentUrl,
+          },
+        };
+      }
+
+      const updatedSteps = updateStep(
+        sessionId,
+        testSteps,
+        currentStep.step.id,
+        passed ? "passed" : "failed",
+        notes
+      );
+      const nextStep = passed ? findCurrentStep(updatedSteps) : null;
+      logger.appendToFile(
+        `STEP_RESULT: step=${currentStep.step.id}, passed=${passed}, notes=${notes}`
+      );
+
+      if (!nextStep && passed && hasNextSegment) {
+        return {
+          ...nextSegmentResult(sessionId, currentSegmentIndex, segments.length),
+          messages: cleaned,
+          testSteps: updatedSteps,
+          testStartTime,
+          lastUrl: currentUrl,
+          resumeContext: null,
+          operatorHint: null,
+        };
+      }
+
+      // A failed step ends the run, the steps after it are skipped
+      if (!nextStep) {
+        return {
+          ...completeRun(sessionId, testStartTime),
+          messages: cleaned,
+          testSteps: skipStepsAfterFailure(sessionId, updatedSteps),
+          lastUrl: currentUrl,
+          resumeContext: null,
+          operatorHint: null,
+          ...(!passed && {
+            lastError: `Step ${currentStep.step.id} failed: ${notes}`,
+          }),
+        };
+      }
+
+      return {
+        messages: cleaned,
+        testSteps: updateStep(sessionId, updatedSteps, nextStep.id, "in_progress", nextStep.notes),
+        currentStepIndex: updatedSteps.findIndex((step) => step.id === nextStep.id),
+        isComplete: false,
+        // The next step starts without a pending action to verify
+        lastAction: null,
+        expectedOutcome: null,
+        retryCount: 0,
+        retryAction: "",
+        testStartTime,
+        lastUrl: currentUrl,
+        resumeContext: null,
+        operatorHint: null,
+      };
+    }
+
+    // A finished segment of a long instruction continues with the next one on the same page
+    if (shouldComplete && hasNextSegment) {
+      return {
+        ...nextSegmentResult(sessionId, currentSegmentIndex, segments.length),
+        messages: cleaned,
+        testStartTime,
+        lastUrl: currentUrl,
+        resumeContext: null,
+        operatorHint: actionVerified ? null : operatorHint,
+      };
+    }
+
     // Record the test end time and calculate duration when execution is complete
     let testEndTime = null;
     let testDuration = null;
@@ -514,14 +902,32 @@ export const executeAndVerifyNode = async ({
       testStartTime,
       testEndTime,
       testDuration,
+      lastUrl: currentUrl,
+      resumeContext: null,
+      operatorHint: actionVerified ? null : operatorHint,
+      ...(currentStep && { testSteps, stepStartedAt }),
     };
   } catch (error) {
+    // A cancelled run has already stopped, its pending model call was aborted on purpose
+    if (config?.signal?.aborted) {
+      logger.appendToFile(`TEST_EXECUTION_CANCELLED: sessionId=${sessionId}`);
+      return {};
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return {
+        ...budgetExhaustedResult(sessionId, error.message, testStartTime),
+        lastUrl: currentUrl,
+      };
+    }
+
     console.error("Error executing instruction:", error);
     logger.appendToFile(`TEST_EXECUTION_ERROR: ${error instanceof Error ? error.message : String(error)}`);
     logger.appendToFile(`TEST_EXECUTION_ERROR_STACK: ${error instanceof Error && error.stack ? error.stack : 'No stack trace'}`);
     logger.appendToFile(`TEST_EXECUTION_ERROR_CONTEXT: sessionId=${sessionId}, lastAction="${lastAction}", retryCount=${retryCount}`);
     return {
       lastError: `Error executing instruction: ${error}`,
+      lastUrl: currentUrl,
     };
   }
 };
@@ -0,0 +1,124 @@
+import chalk from "chalk";
+import { interrupt } from "@langchain/langgraph";
+import { GraphStateType } from "../../graph/graph";
+import { logger } from "../../../common/utils/logger";
+import { TEST_STATUS } from "../reporting/schemas";
+import { RunEvents } from "../../events/run-events";
+import {
+  INTERVENTION_ACTION,
+  type InterventionDecision,
+  type OperatorIntervention,
+} from "./schemas";
+
+/**
+ * Find the step that is currently being worked on
+ * @param testSteps The test steps
+ * @returns The in-progress step, or the first step that has not finished yet
+ */
+export const findActiveStep = (testSteps: GraphStateType["testSteps"]) =>
+  testSteps.find((step) => step.status === TEST_STATUS.IN_PROGRESS) ||
+  testSteps.find(
+    (step) =>
+      step.status === TEST_STATUS.FAILED ||
+      step.status === TEST_STATUS.NOT_STARTED
+  ) ||
+  null;
+
+/**
+ * Pauses an interactive run after a step failed all retries and applies the
+ * operator's decision: retry with a hint, skip the step, mark it passed or abort
+ */
+export const humanReviewNode = async ({
+  interventionRequest,
+  sessionId,
+  testSteps = [],
+}: GraphStateType) => {
+  if (!interventionRequest) {
+    return {};
+  }
+
+  // Pause the graph until the operator answers; resumed via Command({ resume })
+  const decision = interrupt<typeof interventionRequest, InterventionDecision>(
+    interventionRequest
+  );
+
+  const { stepId, stepInstruction, reason } = interventionRequest;
+  const stepLabel = stepId !== null ? `Step ${stepId}` : "The current step";
+
+  const intervention: OperatorIntervention = {
+    stepId,
+    stepInstruction,
+    action: decision.action,
+    hint: decision.hint?.trim() || null,
+    reason,
+    timestamp: Date.now(),
+  };
+
+  logger.appendToFile(
+    `OPERATOR_INTERVENTION: action=${intervention.action}, step=${stepId}, hint="${
+      intervention.hint || ""
+    }"`
+  );
+
+  // Shared reset so the next execution plans a fresh action
+  const resetAction = {
+    interventionRequest: null,
+    interventions: [intervention],
+    lastAction: null,
+    expectedOutcome: null,
+    retryCount: 0,
+    retryAction: "",
+  };
+
+  switch (decision.action) {
+    case INTERVENTION_ACTION.HINT:
+      logger.info(chalk.cyan(`Retrying ${stepLabel.toLowerCase()} with operator hint`));
+      return {
+        ...resetAction,
+        operatorHint: intervention.hint,
+      };
+
+    case INTERVENTION_ACTION.SKIP:
+      logger.info(chalk.yellow(`${stepLabel} skipped by operator`));
+      return {
+        ...resetAction,
+        testSteps: updateStepStatus(sessionId, testSteps, stepId, TEST_STATUS.SKIPPED, "Skipped by operator"),
+        operatorHint: `${stepLabel} ("${stepInstruction}") was skipped by the operator. Do not attempt it, continue with the next step.`,
+      };
+
+    case INTERVENTION_ACTION.PASS:
+      logger.info(chalk.green(`${stepLabel} marked as passed by operator`));
+      return {
+        ...resetAction,
+        testSteps: updateStepStatus(sessionId, testSteps, stepId, TEST_STATUS.PASSED, "Marked as passed by operator"),
+        operatorHint: `${stepLabel} ("${stepInstruction}") was verified manually by the operator and passed. Continue with the next step.`,
+      };
+
+    case INTERVENTION_ACTION.ABORT:
+    default:
+      logger.warn(chalk.red(`Run aborted by operator at ${stepLabel.toLowerCase()}`));
+      return {
+        ...resetAction,
+        testSteps: updateStepStatus(sessionId, testSteps, stepId, TEST_STATUS.FAILED, reason),
+        isComplete: true,
+        lastError: `Run aborted by operator at ${stepLabel.toLowerCase()}: ${reason}`,
+      };
+  }
+};
+
+/**
+ * Set the status of a single step and record why in its notes
+ */
+function updateStepStatus(
+  sessionId: string,
+  testSteps: GraphStateType["testSteps"],
+  stepId: number | null,
+  status: GraphStateType["testSteps"][number]["status"],
+  notes: string
+): GraphStateType["testSteps"] {
+  const updatedSteps = testSteps.map((step) =>
+    step.id === stepId ? { ...step, status, notes } : step
+  );
+  RunEvents.emitStepChanges(sessionId, testSteps, updatedSteps);
+  return updatedSteps;
+}
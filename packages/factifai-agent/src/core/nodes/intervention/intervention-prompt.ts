@@ -0,0 +1,99 @@
+import * as readline from "readline";
+import boxen from "boxen";
+import chalk from "chalk";
+import figures from "figures";
+import {
+  INTERVENTION_ACTION,
+  type InterventionDecision,
+  type InterventionRequest,
+} from "./schemas";
+
+const CHOICES: Record<string, InterventionDecision["action"]> = {
+  h: INTERVENTION_ACTION.HINT,
+  s: INTERVENTION_ACTION.SKIP,
+  p: INTERVENTION_ACTION.PASS,
+  a: INTERVENTION_ACTION.ABORT,
+};
+
+/**
+ * Ask the operator in the console how to continue after a step failed all retries
+ * @param request Details about the failing step
+ * @returns The operator's decision
+ */
+export async function promptForIntervention(
+  request: InterventionRequest
+): Promise<InterventionDecision> {
+  console.log(
+    boxen(
+      chalk.bold.yellow("Step failed after all retries") +
+        "\n\n" +
+        chalk.bold("Step: ") +
+        (request.stepId !== null
+          ? `${request.stepId}. ${request.stepInstruction}`
+          : "Unknown") +
+        "\n" +
+        chalk.bold("Failed action: ") +
+        (request.failedAction || "Unknown") +
+        "\n" +
+        chalk.bold("Reason: ") +
+        request.reason +
+        "\n" +
+        chalk.bold("URL: ") +
+        (request.currentUrl || "Unknown") +
+        "\n" +
+        chalk.bold("Screenshot: ") +
+        (request.screenshotPath || "Not available"),
+      {
+        title: chalk.bold.yellow("Operator Input Needed"),
+        padding: 1,
+        margin: { top: 1, bottom: 1 },
+        borderStyle: "round",
+        borderColor: "yellow",
+      }
+    )
+  );
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const ask = (question: string) =>
+    new Promise<string | null>((resolve) => {
+      // Ctrl-C while waiting for input aborts the run
+      rl.once("SIGINT", () => resolve(null));
+      rl.question(question, (answer) => resolve(answer.trim()));
+    });
+
+  try {
+    while (true) {
+      const answer = await ask(
+        `${chalk.cyan(figures.pointer)} [h]int and retry, [s]kip step, mark [p]assed, [a]bort: `
+      );
+      if (answer === null) {
+        return { action: INTERVENTION_ACTION.ABORT };
+      }
+
+      const action = CHOICES[answer.toLowerCase().charAt(0)];
+      if (!action) {
+        console.log(chalk.yellow("Please choose h, s, p or a"));
+        continue;
+      }
+
+      if (action !== INTERVENTION_ACTION.HINT) {
+        return { action };
+      }
+
+      const hint = await ask(`${chalk.cyan(figures.pointer)} Hint for the agent: `);
+      if (hint === null) {
+        return { action: INTERVENTION_ACTION.ABORT };
+      }
+      if (hint) {
+        return { action, hint };
+      }
+      console.log(chalk.yellow("The hint cannot be empty"));
+    }
+  } finally {
+    rl.close();
+  }
+}
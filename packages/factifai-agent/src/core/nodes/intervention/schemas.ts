@@ -0,0 +1,44 @@
+/**
+ * What the operator chose to do about a step that failed after all retries
+ */
+export const INTERVENTION_ACTION = {
+  HINT: "hint",
+  SKIP: "skip",
+  PASS: "pass",
+  ABORT: "abort",
+} as const;
+
+export type InterventionAction =
+  (typeof INTERVENTION_ACTION)[keyof typeof INTERVENTION_ACTION];
+
+/**
+ * Details shown to the operator when an interactive run pauses
+ */
+export interface InterventionRequest {
+  stepId: number | null;
+  stepInstruction: string | null;
+  failedAction: string | null;
+  reason: string;
+  screenshotPath: string | null;
+  currentUrl: string | null;
+}
+
+/**
+ * The operator's answer to an intervention request
+ */
+export interface InterventionDecision {
+  action: InterventionAction;
+  hint?: string;
+}
+
+/**
+ * An intervention as recorded in the state and the report
+ */
+export interface OperatorIntervention {
+  stepId: number | null;
+  stepInstruction: string | null;
+  action: InterventionAction;
+  hint: string | null;
+  reason: string;
+  timestamp: number;
+}
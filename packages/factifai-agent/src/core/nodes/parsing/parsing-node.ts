@@ -6,7 +6,11 @@ import figures from "figures";
 import { table } from "table";
 import { logger } from "../../../common/utils/logger";
 import { GraphStateType } from "../../graph/graph";
-import { getModel } from "../../models/models";
+import { DEFAULT_MAX_TOKENS, getModel } from "../../models/models";
+import { BudgetExceededError } from "../../models/usage-tracker";
+import { RunEvents } from "../../events/run-events";
+import { parseTestSpec, specToTestSteps } from "../../loaders/test-spec-loader";
+import { rateTestCase } from "./test-case-rating";
 
 /**
  * Clean and reformat instruction text for better LLM processing
@@ -28,7 +32,7 @@ async function cleanInstructionForLLM(instruction: string) {
     );
 
     const userMessage = new HumanMessage(instruction);
-    const model = getModel();
+    const model = getModel(false, DEFAULT_MAX_TOKENS, "clean");
 
     // Execute the cleaning
     const result = await model.invoke([systemPrompt, userMessage]);
@@ -47,11 +51,29 @@ async function cleanInstructionForLLM(instruction: string) {
 export const parseTestStepsNode = async ({
   processedInstruction,
   skipAnalysis,
+  sessionId,
+  segments = [],
+  currentSegmentIndex = 0,
+  testSteps: previousSteps = [],
+  testStartTime,
+  preprocessingError,
 }: GraphStateType) => {
+  // A long instruction is parsed one segment at a time, right before the segment is executed
+  const segment =
+    segments.length > 1
+      ? { index: currentSegmentIndex, total: segments.length }
+      : null;
+  if (segment) {
+    processedInstruction = segments[segment.index];
+  }
+
   if (!processedInstruction) {
-    logger.warn(
-      chalk.yellow(`${figures.warning} No test instruction provided`)
-    );
+    // A preprocessing error has already been reported
+    if (!preprocessingError) {
+      logger.warn(
+        chalk.yellow(`${figures.warning} No test instruction provided`)
+      );
+    }
     return {
       testSteps: [],
       currentStepIndex: -1,
@@ -59,6 +81,42 @@ export const parseTestStepsNode = async ({
   }
 
   try {
+    // A structured spec defines its steps already, they run as written without the
+    // cleaning, rating and parsing model calls
+    const spec = segment ? null : parseTestSpec(processedInstruction);
+    if (spec) {
+      const testSteps = specToTestSteps(spec);
+
+      console.log(
+        boxen(
+          chalk.bold.green("TEST SPEC LOADED") +
+            "\n\n" +
+            (spec.name ? `${chalk.blue("Test Spec:")} ${spec.name}\n` : "") +
+            (spec.tags?.length ? `${chalk.blue("Tags:")} ${spec.tags.join(", ")}\n` : "") +
+            `${chalk.blue("Test Steps:")} ${chalk.bold(testSteps.length)}`,
+          {
+            padding: 1,
+            borderStyle: "round",
+            borderColor: "green",
+            margin: { top: 1, bottom: 1 },
+          }
+        )
+      );
+
+      displayFormattedSteps(testSteps);
+
+      RunEvents.emit(sessionId, { type: "steps_parsed", testSteps });
+
+      return {
+        processedInstruction,
+        testSteps,
+        currentStepIndex: 0,
+      };
+    }
+
+    // Steps of earlier segments are kept, the new ones are appended
+    const previousStepCount = segment ? previousSteps.length : 0;
+
     // Start a spinner for instruction cleanup
     const cleanupSpinnerId = "instruction-cleanup";
     logger.spinner(
@@ -196,7 +254,7 @@ export const parseTestStepsNode = async ({
     );
 
     // Get the model with structured output
-    const model = getModel().withStructuredOutput(outputSchema);
+    const model = getModel(false, DEFAULT_MAX_TOKENS, "parse").withStructuredOutput(outputSchema);
 
     // RETRY MECHANISM - Try up to 3 times with different approaches
     let result;
@@ -229,6 +287,11 @@ export const parseTestStepsNode = async ({
           );
         }
       } catch (error) {
+        // Retrying cannot help once the run budget is exhausted
+        if (error instanceof BudgetExceededError) {
+          throw error;
+        }
+
         parseError = error;
         retryCount++;
 
@@ -269,7 +332,7 @@ export const parseTestStepsNode = async ({
             "You are a test step parser. List each step on a new line with format: 'Step X: [instruction] -> [expected result]'"
           );
 
-          const regularModel = getModel();
+          const regularModel = getModel(false, DEFAULT_MAX_TOKENS, "parse");
           const textResponse = await regularModel.invoke([
             fallbackSystemPrompt,
             userMessage,
@@ -332,10 +395,23 @@ export const parseTestStepsNode = async ({
       ];
     }
 
+    // Steps of later segments continue the numbering of the steps parsed before them
+    if (segment) {
+      testSteps = [
+        ...previousSteps,
+        ...testSteps.map((step: any, index: number) => ({
+          ...step,
+          id: previousSteps.length + index + 1,
+          status: index === 0 ? "in_progress" : "not_started",
+          segment: segment.index + 1,
+        })),
+      ];
+    }
+
     // Complete the spinner with success - keep it simple
     logger.spinnerSuccess(
       parsingSpinnerId,
-      `Successfully parsed ${chalk.bold(testSteps.length)} test steps`
+      `Successfully parsed ${chalk.bold(testSteps.length - previousStepCount)} test steps`
     );
 
     // Display completion box - clean and minimal
@@ -343,7 +419,10 @@ export const parseTestStepsNode = async ({
       boxen(
         chalk.bold.green("PARSING COMPLETED") +
           "\n\n" +
-          `${chalk.blue("Test Steps:")} ${chalk.bold(testSteps.length)}\n` +
+          (segment
+            ? `${chalk.blue("Segment:")} ${segment.index + 1} of ${segment.total}\n`
+            : "") +
+          `${chalk.blue("Test Steps:")} ${chalk.bold(testSteps.length - previousStepCount)}\n` +
           `${chalk.blue("Test Cases Quality:")} ${ratingColor(
             `${testCaseRating.rating}/10`
           )}`,
@@ -358,7 +437,7 @@ export const parseTestStepsNode = async ({
 
     // Display steps in a neat table
     displayFormattedSteps(
-      testSteps as Array<{
+      testSteps.slice(previousStepCount) as Array<{
         id: number;
         instruction: string;
         status: "not_started" | "in_progress" | "passed" | "failed";
@@ -367,19 +446,21 @@ export const parseTestStepsNode = async ({
       }>
     );
 
+    RunEvents.emit(sessionId, { type: "steps_parsed", testSteps });
+
     return {
       processedInstruction, // Return the cleaned instruction
       testSteps,
-      currentStepIndex: testSteps.length > 0 ? 0 : -1,
+      currentStepIndex: testSteps.length > previousStepCount ? previousStepCount : -1,
       testCaseQuality: testCaseRating, // Add the test case quality rating to the state
     };
   } catch (error) {
     // If we have active spinners, fail them
-    if (logger.spinners["quality-analysis"]) {
+    if (logger.hasSpinner("quality-analysis")) {
       logger.spinnerError("quality-analysis", "Quality analysis failed");
     }
 
-    if (logger.spinners["parsing-steps"]) {
+    if (logger.hasSpinner("parsing-steps")) {
       logger.spinnerError("parsing-steps", "Parsing steps failed");
     }
 
@@ -399,6 +480,31 @@ export const parseTestStepsNode = async ({
 
     logger.error(`Error parsing test steps:`, error);
 
+    // Steps of earlier segments keep their results, the run stops before the unparsed segment
+    if (segment) {
+      const testEndTime = Date.now();
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      return {
+        processedInstruction,
+        isComplete: true,
+        testEndTime,
+        testDuration: testStartTime ? testEndTime - testStartTime : null,
+        ...(error instanceof BudgetExceededError
+          ? { abortReason: reason }
+          : { lastError: `Parsing segment ${segment.index + 1} of ${segment.total} failed: ${reason}` }),
+      };
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return {
+        processedInstruction,
+        testSteps: [],
+        currentStepIndex: -1,
+        isComplete: true,
+        abortReason: error.message,
+      };
+    }
+
     return {
       processedInstruction, // Include the original or partially cleaned instruction
       testSteps: [],
@@ -415,7 +521,7 @@ function displayFormattedSteps(
   testSteps: Array<{
     id: number;
     instruction: string;
-    status: "not_started" | "in_progress" | "passed" | "failed";
+    status: GraphStateType["testSteps"][number]["status"];
     expected_result?: string;
     notes?: string;
   }>
@@ -469,87 +575,3 @@ function displayFormattedSteps(
   // Print the table
   console.log(table(tableData, tableConfig));
 }
-
-/**
- * Rate the quality of a test case and provide improvement suggestions
- */
-async function rateTestCase(testCase: string) {
-  try {
-    const systemPrompt = new SystemMessage(
-      `You are a test quality analyst specialized in evaluating browser automation test cases. 
-      Rate test cases based on these criteria:
-      1. Clarity: Are the steps clear and unambiguous?
-      2. Atomicity: Is each step focused on a single action?
-      3. Verifiability: Are expected results clearly defined?
-      4. Completeness: Does it cover the entire flow with proper validation?
-      5. Error handling: Does it consider failure scenarios?
-      6. Test data: Are specific inputs and test data clearly defined?
-      7. Independence: Could the test run in isolation?`
-    );
-
-    const userMessage = new HumanMessage(
-      `Evaluate the following test case and rate it on a scale of 1-10:
-      
-      "${testCase}"
-      
-      Provide a detailed analysis of strengths and weaknesses.`
-    );
-
-    // Define the rating schema
-    const ratingSchema = z.object({
-      rating: z.number().describe("Overall quality rating from 1-10"),
-      strengths: z.array(z.string()).describe("Key strengths of the test case"),
-      weaknesses: z.array(z.string()).describe("Areas for improvement"),
-      improvementSuggestions: z
-        .string()
-        .describe("Specific suggestions to improve the test case"),
-      criteriaRatings: z.object({
-        clarity: z.number().describe("Rating for clarity from 1-10"),
-        atomicity: z
-          .number()
-          .describe("Rating for step atomicity from 1 to 10"),
-        verifiability: z
-          .number()
-          .describe("Rating for clear expected results from 1 to 10"),
-        completeness: z
-          .number()
-          .describe("Rating for workflow coverage from 1 to 10"),
-        errorHandling: z
-          .number()
-          .describe("Rating for error scenario handling from 1 to 10"),
-        testData: z
-          .number()
-          .describe("Rating for specific test data definition from 1 to 10"),
-        independence: z
-          .number()
-          .describe("Rating for test independence from 1 to 10"),
-      }),
-    });
-
-    // Get the model with structured output
-    const model = getModel().withStructuredOutput(ratingSchema);
-
-    // Execute the analysis
-    const rating = await model.invoke([systemPrompt, userMessage]);
-
-    return rating;
-  } catch (error) {
-    logger.error("Error rating test case:", error);
-    return {
-      rating: 5, // Default middle rating if analysis fails
-      strengths: ["Unable to analyze strengths"],
-      weaknesses: ["Unable to analyze weaknesses"],
-      improvementSuggestions:
-        "Error occurred during test case quality analysis",
-      criteriaRatings: {
-        clarity: 5,
-        atomicity: 5,
-        verifiability: 5,
-        completeness: 5,
-        errorHandling: 5,
-        testData: 5,
-        independence: 5,
-      },
-    };
-  }
-}
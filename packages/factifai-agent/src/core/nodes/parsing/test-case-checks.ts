@@ -0,0 +1,196 @@
+import { parseTestSpec } from "../../loaders/test-spec-loader";
+import type { LintIssue } from "../reporting/schemas";
+
+/**
+ * A step of a test case as seen by the static checks
+ */
+interface CheckedStep {
+  id: number;
+  action: string;
+  expected: string | null;
+}
+
+// "1. Click login", "2) ...", "Step 3: ...", "- Click login"
+const STEP_LINE = /^\s*(?:step\s*\d+\s*[:.)-]|\d+\s*[.)]|[-*•])\s+(.+)$/i;
+// "Expected: ..." or "- Expected result: ..." on a line of its own, belongs to the step before it
+const EXPECTED_LINE = /^\s*(?:[-*•]\s*)?expected(?:\s+results?)?\s*[:\-–]\s*(.+)$/i;
+// "Click login. Expected: the dashboard opens"
+const INLINE_EXPECTED = /[\s.;,(-]+expected(?:\s+results?)?\s*:\s*(.+?)\)?$/i;
+
+// Something the browser can navigate to, including ${env:BASE_URL} style references
+const URL_PATTERN =
+  /\bhttps?:\/\/\S+|\bwww\.\S+|\blocalhost(?::\d+)?\b|\$\{(?:env|config):[^}]+\}|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|dev|app|co|ai|gov|edu|info|biz|us|uk|de|in)\b/i;
+
+// Steps that check something are their own expected result
+const VERIFICATION_STEP =
+  /^(?:verify|check that|check if|check whether|assert|confirm|ensure|validate|expect|make sure|then)\b|\bshould\b/i;
+
+// Verbs that do not say what to do on the page
+const AMBIGUOUS_VERBS = [
+  "handle",
+  "process",
+  "manage",
+  "test",
+  "try",
+  "do",
+  "perform",
+  "deal with",
+  "work with",
+  "interact with",
+  "play with",
+  "go through",
+  "check out",
+  "take care of",
+];
+const AMBIGUOUS_VERB = new RegExp(`^(?:${AMBIGUOUS_VERBS.join("|").replace(/ /g, "\\s+")})\\b`, "i");
+const VAGUE_PHRASE = /\b(?:etc\.?|and so on|and so forth|as needed|if necessary|somehow)(?=\W|$)/i;
+
+// Verbs that start a browser action, a step with two of them does more than one thing
+const ACTION_VERB =
+  /^(?:click|tap|double-click|right-click|type|enter|fill(?:\s+in)?|input|select|choose|pick|navigate|go\s+to|open|visit|press|submit|scroll|hover|upload|download|drag|drop|log\s*in|log\s*out|sign\s+in|sign\s+out|search|add|remove|delete|uncheck|toggle|close|clear|wait|refresh|reload|switch|accept|dismiss)\b/i;
+// Connectors between the parts of a step, quoted text is removed before splitting
+const ACTION_CONNECTOR = /\s*(?:,\s*(?:and\s+|then\s+)?|;\s*|\s+and\s+then\s+|\s+then\s+|\s+and\s+)/i;
+
+/**
+ * Run the deterministic checks on a test case: a starting URL, an expected result for
+ * every step, unambiguous verbs and one action per step
+ * @param instruction The test case, with includes expanded and fixture directives removed
+ * @param setupInstructions Setup of the fixtures the test case uses, they may open the start page
+ * @returns The issues found, an empty list for a clean test case
+ */
+export function checkTestCase(instruction: string, setupInstructions: string[] = []): LintIssue[] {
+  let steps: CheckedStep[];
+  try {
+    steps = readSteps(instruction);
+  } catch (error) {
+    return [
+      {
+        rule: "invalid-test",
+        severity: "error",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    ];
+  }
+
+  if (steps.length === 0) {
+    return [{ rule: "invalid-test", severity: "error", message: "The test case has no steps" }];
+  }
+
+  const issues: LintIssue[] = [];
+
+  if (![instruction, ...setupInstructions].some((text) => URL_PATTERN.test(text))) {
+    issues.push({
+      rule: "missing-url",
+      severity: "error",
+      message: "No URL to start from, name the page to open (e.g. https://example.com)",
+    });
+  }
+
+  steps.forEach((step, index) => {
+    const action = step.action.trim();
+    const verifiedLater = isVerification(steps[index + 1]?.action || "");
+
+    if (!step.expected && !isVerification(action) && !verifiedLater) {
+      issues.push({
+        rule: "missing-expected-result",
+        severity: "warning",
+        message: "No expected result, add what the page should show after this step",
+        step: step.id,
+      });
+    }
+
+    const ambiguousVerb = action.match(AMBIGUOUS_VERB) || action.match(VAGUE_PHRASE);
+    if (ambiguousVerb) {
+      issues.push({
+        rule: "ambiguous-verb",
+        severity: "warning",
+        message: `"${ambiguousVerb[0].replace(/\s+/g, " ")}" is ambiguous, say which element to use and how`,
+        step: step.id,
+      });
+    }
+
+    const actions = countActions(action);
+    if (actions > 1) {
+      issues.push({
+        rule: "multiple-actions",
+        severity: "warning",
+        message: `The step does ${actions} actions, split it into one step per action`,
+        step: step.id,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Read the steps of a structured spec, or of a free-text instruction from its numbered or
+ * bulleted lines. Free text without a list is read one sentence at a time.
+ * @throws Error if the instruction is a spec that does not pass validation
+ */
+function readSteps(instruction: string): CheckedStep[] {
+  const spec = parseTestSpec(instruction);
+  if (spec) {
+    return spec.steps.map((step, index) => ({
+      id: step.id ?? index + 1,
+      action: step.action,
+      expected: step.expected || null,
+    }));
+  }
+
+  const lines = instruction.split(/\r?\n/).filter((line) => line.trim());
+  const isList = lines.some((line) => STEP_LINE.test(line) && !EXPECTED_LINE.test(line));
+  const entries = isList
+    ? lines
+    : lines.flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z])/));
+
+  const steps: CheckedStep[] = [];
+  for (const entry of entries) {
+    const expectedMatch = entry.match(EXPECTED_LINE);
+    const previous = steps[steps.length - 1];
+    if (expectedMatch && previous) {
+      previous.expected = previous.expected
+        ? `${previous.expected}; ${expectedMatch[1].trim()}`
+        : expectedMatch[1].trim();
+      continue;
+    }
+
+    // Lines outside the list of a free-text instruction are descriptions, not steps
+    const text = isList ? entry.match(STEP_LINE)?.[1] : entry;
+    if (text?.trim()) {
+      steps.push(toStep(steps.length + 1, text));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Split an inline expected result from the action of a free-text step
+ */
+function toStep(id: number, text: string): CheckedStep {
+  const inlineMatch = text.match(INLINE_EXPECTED);
+  if (!inlineMatch || inlineMatch.index === undefined) {
+    return { id, action: text.trim(), expected: null };
+  }
+
+  return {
+    id,
+    action: text.slice(0, inlineMatch.index).trim(),
+    expected: inlineMatch[1].trim(),
+  };
+}
+
+function isVerification(action: string): boolean {
+  return VERIFICATION_STEP.test(action.trim());
+}
+
+/**
+ * Count the parts of a step that start with an action verb, ignoring quoted text
+ */
+function countActions(action: string): number {
+  const withoutQuotes = action.replace(/"[^"]*"|(?<!\w)'[^']*'(?!\w)|`[^`]*`/g, '""');
+  return withoutQuotes
+    .split(ACTION_CONNECTOR)
+    .filter((part) => ACTION_VERB.test(part.trim())).length;
+}
@@ -0,0 +1,102 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import { logger } from "../../../common/utils/logger";
+import { DEFAULT_MAX_TOKENS, getModel } from "../../models/models";
+
+// Define the rating schema
+const ratingSchema = z.object({
+  rating: z.number().describe("Overall quality rating from 1-10"),
+  strengths: z.array(z.string()).describe("Key strengths of the test case"),
+  weaknesses: z.array(z.string()).describe("Areas for improvement"),
+  improvementSuggestions: z
+    .string()
+    .describe("Specific suggestions to improve the test case"),
+  criteriaRatings: z.object({
+    clarity: z.number().describe("Rating for clarity from 1-10"),
+    atomicity: z
+      .number()
+      .describe("Rating for step atomicity from 1 to 10"),
+    verifiability: z
+      .number()
+      .describe("Rating for clear expected results from 1 to 10"),
+    completeness: z
+      .number()
+      .describe("Rating for workflow coverage from 1 to 10"),
+    errorHandling: z
+      .number()
+      .describe("Rating for error scenario handling from 1 to 10"),
+    testData: z
+      .number()
+      .describe("Rating for specific test data definition from 1 to 10"),
+    independence: z
+      .number()
+      .describe("Rating for test independence from 1 to 10"),
+  }),
+});
+
+/**
+ * Quality rating of a test case, overall and per criterion
+ */
+export type TestCaseRating = z.infer<typeof ratingSchema>;
+
+/**
+ * Ask the model to rate the quality of a test case
+ * @param testCase The test case text
+ * @returns The rating with strengths, weaknesses and improvement suggestions
+ * @throws Error if the model call fails
+ */
+export async function requestTestCaseRating(testCase: string): Promise<TestCaseRating> {
+  const systemPrompt = new SystemMessage(
+    `You are a test quality analyst specialized in evaluating browser automation test cases.
+      Rate test cases based on these criteria:
+      1. Clarity: Are the steps clear and unambiguous?
+      2. Atomicity: Is each step focused on a single action?
+      3. Verifiability: Are expected results clearly defined?
+      4. Completeness: Does it cover the entire flow with proper validation?
+      5. Error handling: Does it consider failure scenarios?
+      6. Test data: Are specific inputs and test data clearly defined?
+      7. Independence: Could the test run in isolation?`
+  );
+
+  const userMessage = new HumanMessage(
+    `Evaluate the following test case and rate it on a scale of 1-10:
+
+      "${testCase}"
+
+      Provide a detailed analysis of strengths and weaknesses.`
+  );
+
+  // Get the model with structured output
+  const model = getModel(false, DEFAULT_MAX_TOKENS, "rate").withStructuredOutput(ratingSchema);
+
+  // Execute the analysis
+  return model.invoke([systemPrompt, userMessage]);
+}
+
+/**
+ * Rate the quality of a test case and provide improvement suggestions,
+ * a middle rating is returned if the analysis fails
+ */
+export async function rateTestCase(testCase: string): Promise<TestCaseRating> {
+  try {
+    return await requestTestCaseRating(testCase);
+  } catch (error) {
+    logger.error("Error rating test case:", error);
+    return {
+      rating: 5, // Default middle rating if analysis fails
+      strengths: ["Unable to analyze strengths"],
+      weaknesses: ["Unable to analyze weaknesses"],
+      improvementSuggestions:
+        "Error occurred during test case quality analysis",
+      criteriaRatings: {
+        clarity: 5,
+        atomicity: 5,
+        verifiability: 5,
+        completeness: 5,
+        errorHandling: 5,
+        testData: 5,
+        independence: 5,
+      },
+    };
+  }
+}
@@ -11,6 +11,7 @@ import {
   ScriptFormat
 } from '../../../common/utils/llm-script-generator';
 import { getActionsFilePath, getSessionActions } from './playwright-utils/action-extractor';
+import { RunEvents } from '../../events/run-events';
 
 /**
  * Display header for Playwright script generation
@@ -112,6 +113,7 @@ export const generatePlaywrightScriptNode = async ({
       format,
       `${scriptBaseName}-coordinate`
     );
+    RunEvents.emit(sessionId, { type: 'script_generated', scriptType: 'coordinate', path: coordinateScriptPath });
 
     enhancedLogger.success(
       `${chalk.green(figures.tick)} Coordinate-based Playwright ${formatLabel} generated successfully`
@@ -138,6 +140,7 @@ export const generatePlaywrightScriptNode = async ({
       format,
       `${scriptBaseName}-selector`
     );
+    RunEvents.emit(sessionId, { type: 'script_generated', scriptType: 'selector', path: selectorScriptPath });
 
     enhancedLogger.success(
       `${chalk.green(figures.tick)} Selector-based Playwright ${formatLabel} generated successfully`
@@ -9,6 +9,18 @@ export const PLAYWRIGHT_DIR_NAME = 'playwright';
 export const ACTIONS_SUBDIR_NAME = 'actions';
 export const SCRIPTS_SUBDIR_NAME = 'scripts';
 
+/**
+ * An action recorded in actions.json after the model verified it succeeded
+ */
+export interface RecordedAction {
+  tool: string;
+  args: Record<string, any>;
+  description?: string;
+  // Test step that was active when the action ran, missing in older recordings
+  stepId?: number;
+  timestamp?: number;
+}
+
 /**
  * Store a successful action by appending to actions.json file
  * @param sessionId The session ID
@@ -68,7 +80,7 @@ export function storeSuccessfulAction(sessionId: string, action: any): string {
  * @param sessionId The session ID
  * @returns Array of stored actions
  */
-export function getSessionActions(sessionId: string): any[] {
+export function getSessionActions(sessionId: string): RecordedAction[] {
   try {
     // Get the path to the actions file
     const actionsPath = getActionsFilePath(sessionId);
@@ -113,9 +125,10 @@ export function getScriptsDirectoryPath(sessionId: string): string {
  * @param sessionId The session ID
  * @param messages Array of messages to search for tool calls
  * @param verificationExplanation Optional explanation from verification result
+ * @param stepId Optional ID of the test step the action belongs to
  * @returns void
  */
-export function processSuccessfulAction(sessionId: string, messages: any[], verificationExplanation?: string): void {
+export function processSuccessfulAction(sessionId: string, messages: any[], verificationExplanation?: string, stepId?: number): void {
   // Look for tool calls and their responses in messages
   let toolCallData = null;
   let toolResponse = null;
@@ -250,6 +263,29 @@ export function processSuccessfulAction(sessionId: string, messages: any[], veri
           }
         };
         break;
+      case 'storeVariable':
+        actionData = {
+          tool: "store_variable",
+          args: {
+            name: toolCallData.args.name,
+            ...(toolCallData.args.selector && { selector: toolCallData.args.selector }),
+            ...(toolCallData.args.x !== undefined && {
+              coordinates: {
+                x: toolCallData.args.x,
+                y: toolCallData.args.y
+              }
+            })
+          }
+        };
+
+        // Keep the value read during the run for reference, and the element to locate it again
+        if (toolResponse) {
+          (actionData.args as any).value = toolResponse.value;
+          if (toolResponse.element) {
+            (actionData.args as any).element = toolResponse.element;
+          }
+        }
+        break;
       // Add other tool mappings as needed
     }
 
@@ -259,6 +295,11 @@ export function processSuccessfulAction(sessionId: string, messages: any[], veri
         (actionData as any).description = verificationExplanation;
       }
 
+      // Remember the step so the action can be replayed step by step
+      if (stepId !== undefined) {
+        (actionData as any).stepId = stepId;
+      }
+
       // Store the successful action
       storeSuccessfulAction(sessionId, actionData);
     }
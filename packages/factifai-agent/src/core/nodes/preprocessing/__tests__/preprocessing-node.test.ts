@@ -0,0 +1,114 @@
+import type { GraphStateType } from "../../../graph/graph";
+import { getMaxInputLength, preprocessTestInputNode, splitIntoSegments } from "../preprocessing-node";
+
+const words = (count: number, word = "word") => Array.from({ length: count }, () => word).join(" ");
+
+describe("splitIntoSegments", () => {
+  it("keeps a short instruction as a single segment", () => {
+    expect(splitIntoSegments("  Open the shop  ", 100)).toEqual(["Open the shop"]);
+  });
+
+  it.each<[string, string, number, string[]]>([
+    [
+      "paragraphs",
+      "Open the shop.\nSearch for books.\n\n  \nAdd a book.\nPay by card.",
+      40,
+      ["Open the shop.\nSearch for books.", "Add a book.\nPay by card."],
+    ],
+    [
+      "lines of a paragraph that is too long",
+      "Open the shop and search.\nAdd the first book.\nPay by card and confirm.",
+      50,
+      ["Open the shop and search.\nAdd the first book.", "Pay by card and confirm."],
+    ],
+    [
+      "sentences of a line that is too long",
+      "Open the shop. Search for books! Add one? Pay by card.",
+      35,
+      ["Open the shop. Search for books!", "Add one? Pay by card."],
+    ],
+    [
+      "words of a sentence that is too long",
+      "open the shop and search for books and add one",
+      20,
+      ["open the shop and", "search for books and", "add one"],
+    ],
+    [
+      "characters of a word that is too long",
+      "go https://shop.example.com/a/very/long/path done",
+      12,
+      ["go", "https://shop", ".example.com", "/a/very/long", "/path done"],
+    ],
+  ])("splits at %s", (_, text, maxLength, expected) => {
+    const segments = splitIntoSegments(text, maxLength);
+
+    expect(segments).toEqual(expected);
+    segments.forEach((segment) => expect(segment.length).toBeLessThanOrEqual(maxLength));
+  });
+
+  it("keeps every word in order", () => {
+    const text = Array.from({ length: 60 }, (_, index) => `Step ${index + 1}: click button ${index + 1}.`).join("\n");
+
+    const segments = splitIntoSegments(text, 200);
+
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segments.join(" ").split(/\s+/)).toEqual(text.split(/\s+/));
+  });
+});
+
+describe("getMaxInputLength", () => {
+  afterEach(() => {
+    delete process.env.MAX_INPUT_LENGTH;
+  });
+
+  it.each<[string | undefined, number]>([
+    [undefined, 5000],
+    ["800", 800],
+    ["99", 5000],
+    ["12.5", 5000],
+    ["lots", 5000],
+  ])("reads MAX_INPUT_LENGTH %p as %p", (configured, expected) => {
+    if (configured !== undefined) {
+      process.env.MAX_INPUT_LENGTH = configured;
+    }
+    expect(getMaxInputLength()).toBe(expected);
+  });
+});
+
+describe("preprocessTestInputNode", () => {
+  beforeEach(() => {
+    process.env.MAX_INPUT_LENGTH = "100";
+  });
+
+  afterEach(() => {
+    delete process.env.MAX_INPUT_LENGTH;
+  });
+
+  const preprocess = (instruction: string) =>
+    preprocessTestInputNode({ instruction, sourcePath: null } as unknown as GraphStateType);
+
+  it("splits a long instruction into several segments", async () => {
+    const result = await preprocess(`${words(15)}\n\n${words(15)}`);
+
+    expect(result.segments).toEqual([words(15), words(15)]);
+    expect(result).toMatchObject({ currentSegmentIndex: 0 });
+  });
+
+  it("keeps a short instruction unsegmented", async () => {
+    expect((await preprocess(words(5))).segments).toEqual([]);
+  });
+
+  // The edges loop over segments while one has no steps yet, a single segment never gets any
+  it("never returns a single segment for a long instruction that packs into one", async () => {
+    const result = await preprocess(`${words(5)}${" ".repeat(200)}\n\n\n`);
+
+    expect(result.processedInstruction.length).toBeGreaterThan(100);
+    expect(result.segments).toEqual([]);
+  });
+
+  it("never splits a structured test spec", async () => {
+    const spec = `steps:\n${Array.from({ length: 10 }, (_, index) => `  - action: Click button number ${index + 1}`).join("\n")}`;
+
+    expect((await preprocess(spec)).segments).toEqual([]);
+  });
+});
@@ -1,39 +1,122 @@
+import chalk from "chalk";
 import { GraphStateType } from "../../graph/graph";
 import { logger } from "../../../common/utils/logger";
+import { parseTestSpec } from "../../loaders/test-spec-loader";
+import { expandIncludes } from "../../loaders/include-loader";
+import { interpolateReferences } from "../../../common/utils/interpolation";
 
 /**
  * Configuration for preprocessing limitations
  */
 export const PREPROCESSING_CONFIG = {
+  // Longer inputs are split into segments, override with the MAX_INPUT_LENGTH config value
   MAX_INPUT_LENGTH: 5000,
 };
 
+// Boundaries to split long inputs at, from paragraphs down to words, with the text that rejoins them
+const SEGMENT_SEPARATORS: Array<{ pattern: RegExp; joiner: string }> = [
+  { pattern: /\n\s*\n/, joiner: "\n\n" },
+  { pattern: /\n/, joiner: "\n" },
+  { pattern: /(?<=[.!?])\s+/, joiner: " " },
+  { pattern: /\s+/, joiner: " " },
+];
+
+/**
+ * Get the maximum length of a segment, from MAX_INPUT_LENGTH or the default
+ */
+export function getMaxInputLength(): number {
+  const configured = process.env.MAX_INPUT_LENGTH;
+  if (!configured) {
+    return PREPROCESSING_CONFIG.MAX_INPUT_LENGTH;
+  }
+
+  const maxInputLength = Number(configured);
+  if (!Number.isInteger(maxInputLength) || maxInputLength < 100) {
+    logger.warn(
+      `Ignoring invalid MAX_INPUT_LENGTH value "${configured}", expected a whole number of at least 100`
+    );
+    return PREPROCESSING_CONFIG.MAX_INPUT_LENGTH;
+  }
+  return maxInputLength;
+}
+
+/**
+ * Split a long instruction into ordered segments of at most maxLength characters.
+ * Segments end at paragraph breaks where possible, then at line breaks, sentences and words.
+ * @param text The instruction
+ * @param maxLength Maximum length of a segment
+ * @returns The segments in order, a single one when the instruction is short enough
+ */
+export function splitIntoSegments(text: string, maxLength: number): string[] {
+  return splitAtBoundary(text, maxLength, 0).map((segment) => segment.trim());
+}
+
+/**
+ * Split text at the boundaries of a level, parts still too long are split at the next level
+ */
+function splitAtBoundary(text: string, maxLength: number, level: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  // A single word longer than a segment is cut as it is
+  if (level >= SEGMENT_SEPARATORS.length) {
+    const chunks: string[] = [];
+    for (let start = 0; start < text.length; start += maxLength) {
+      chunks.push(text.slice(start, start + maxLength));
+    }
+    return chunks;
+  }
+
+  const { pattern, joiner } = SEGMENT_SEPARATORS[level];
+  const parts = text
+    .split(pattern)
+    .filter((part) => part.trim())
+    .flatMap((part) => splitAtBoundary(part, maxLength, level + 1));
+
+  // Pack consecutive parts into segments as long as they fit
+  const segments: string[] = [];
+  let current = "";
+  for (const part of parts) {
+    const candidate = current ? `${current}${joiner}${part}` : part;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+    } else {
+      segments.push(current);
+      current = part;
+    }
+  }
+  segments.push(current);
+
+  return segments.filter(Boolean);
+}
+
 /**
- * Minimal preprocessing node that only handles serious formatting issues
+ * Minimal preprocessing node that only handles serious formatting issues.
+ * @include directives are replaced with the files they name and ${env:NAME} and
+ * ${config:key} references are filled in before the text reaches the model.
+ * Inputs longer than the maximum input length are split into segments that are parsed
+ * and executed one after another on the same session.
  */
 export const preprocessTestInputNode = async ({
   instruction,
+  sourcePath,
 }: GraphStateType) => {
   if (!instruction) {
-    logger.warn("No instruction provided for preprocessing");
-    return {
-      processedInstruction: "",
-    };
+    return preprocessingFailed("No instruction provided");
   }
 
-  if (instruction.length > PREPROCESSING_CONFIG.MAX_INPUT_LENGTH) {
-    logger.warn(
-      `Input file test case is too long (exceeds ${PREPROCESSING_CONFIG.MAX_INPUT_LENGTH} characters)`
-    );
-    return {
-      processedInstruction: "",
-      preprocessingError: `Input file test case is too long (exceeds ${PREPROCESSING_CONFIG.MAX_INPUT_LENGTH} characters)`,
-    };
+  // A test that cannot be assembled must not run, e.g. against the wrong environment
+  let expandedInstruction: string;
+  try {
+    expandedInstruction = interpolateReferences(expandIncludes(instruction, sourcePath));
+  } catch (error) {
+    return preprocessingFailed(error instanceof Error ? error.message : String(error));
   }
 
   try {
     // Only do the minimum necessary preprocessing
-    let processedText = instruction;
+    let processedText = expandedInstruction;
 
     // Normalize line endings across platforms
     processedText = processedText.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
@@ -41,20 +124,65 @@ export const preprocessTestInputNode = async ({
     // Remove zero-width spaces and other invisible characters that might cause issues
     processedText = processedText.replace(/[\u200B-\u200D\uFEFF]/g, "");
 
-    // Handle character encoding issues (keep only ASCII and common Unicode)
-    processedText = processedText.replace(/[^\p{L}\p{N}\p{P}\p{Z}\p{S}]/gu, "");
+    // Handle character encoding issues (keep only ASCII and common Unicode),
+    // line breaks and tabs are kept so structured test specs remain readable
+    processedText = processedText.replace(/[^\p{L}\p{N}\p{P}\p{Z}\p{S}\n\t]/gu, "");
+
+    const maxInputLength = getMaxInputLength();
+    const segments =
+      processedText.length > maxInputLength && !isTestSpec(processedText)
+        ? splitIntoSegments(processedText, maxInputLength)
+        : [];
+
+    if (segments.length > 1) {
+      logger.info(
+        chalk.cyan(
+          `Input is ${processedText.length} characters long (limit ${maxInputLength}), ` +
+            `it is parsed and executed in ${segments.length} segments`
+        )
+      );
+    }
 
     logger.info("Preprocessing completed");
 
     return {
       processedInstruction: processedText,
+      segments: segments.length > 1 ? segments : [],
+      currentSegmentIndex: 0,
     };
   } catch (error) {
-    logger.error("Error in minimal preprocessing:", error);
+    const message = error instanceof Error ? error.message : "Unknown preprocessing error";
+    logger.error(chalk.red(`Preprocessing failed, continuing with the original instruction: ${message}`));
     return {
-      processedInstruction: instruction, // Fall back to original
-      preprocessingError:
-        error instanceof Error ? error.message : "Unknown preprocessing error",
+      processedInstruction: expandedInstruction, // Fall back to original
+      segments: [],
+      preprocessingError: message,
     };
   }
 };
+
+/**
+ * Stop the run before parsing, the error is kept in the state and shown in the console
+ */
+function preprocessingFailed(error: string) {
+  logger.error(chalk.red(`Preprocessing failed: ${error}`));
+  return {
+    processedInstruction: "",
+    segments: [],
+    preprocessingError: error,
+    isComplete: true,
+    lastError: error,
+  };
+}
+
+/**
+ * Structured test specs run as written and are never split
+ */
+function isTestSpec(text: string): boolean {
+  try {
+    return parseTestSpec(text) !== null;
+  } catch {
+    // An invalid spec is reported by the parse node
+    return true;
+  }
+}
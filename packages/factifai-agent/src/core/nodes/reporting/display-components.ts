@@ -1,7 +1,8 @@
 import boxen from "boxen";
 import chalk from "chalk";
 import figures from "figures";
-import { TEST_STATUS } from "./schemas";
+import { TEST_STATUS, type TokenUsageReport } from "./schemas";
+import { describeTokenUsage } from "./report-utils/data-extractors";
 import { table } from "table";
 
 /**
@@ -61,7 +62,19 @@ export const displayComponents = {
           `${chalk.gray(figures.circle)} ${getStepCount(
             updatedTestSteps,
             TEST_STATUS.NOT_STARTED
-          )} tests not started`,
+          )} tests not started` +
+          (getStepCount(updatedTestSteps, TEST_STATUS.SKIPPED) > 0
+            ? `\n${chalk.yellow(figures.arrowRight)} ${getStepCount(
+                updatedTestSteps,
+                TEST_STATUS.SKIPPED
+              )} tests skipped`
+            : "") +
+          (getStepCount(updatedTestSteps, TEST_STATUS.CANCELLED) > 0
+            ? `\n${chalk.yellow(figures.circleCross)} ${getStepCount(
+                updatedTestSteps,
+                TEST_STATUS.CANCELLED
+              )} tests cancelled`
+            : ""),
         {
           title: chalk.bold.blue("Test Results"),
           padding: 1,
@@ -138,6 +151,10 @@ export const displayComponents = {
           statusText = `${figures.play} ACTIVE`;
           statusColor = chalk.blue;
           break;
+        case TEST_STATUS.CANCELLED:
+          statusText = `${figures.circleCross} CANCELLED`;
+          statusColor = chalk.yellow;
+          break;
         case TEST_STATUS.NOT_STARTED:
         default:
           statusText = `${figures.circle} SKIPPED`;
@@ -208,6 +225,82 @@ export const displayComponents = {
     );
   },
 
+  /**
+   * Display the operator interventions of an interactive run
+   */
+  displayInterventions(interventions: string[]): void {
+    console.log(
+      boxen(
+        chalk.bold.yellow("Operator Interventions:") +
+          "\n\n" +
+          interventions
+            .map((intervention) => `${chalk.yellow(figures.pointer)} ${intervention}`)
+            .join("\n"),
+        {
+          padding: 1,
+          margin: { top: 0, bottom: 1 },
+          borderStyle: "round",
+          borderColor: "yellow",
+        }
+      )
+    );
+  },
+
+  /**
+   * Display the runtime variables captured during the run
+   */
+  displayVariables(variableLines: string[]): void {
+    console.log(
+      boxen(
+        chalk.bold.cyan("Runtime Variables:") +
+          "\n\n" +
+          variableLines
+            .map((line) => `${chalk.cyan(figures.pointer)} ${line}`)
+            .join("\n"),
+        {
+          padding: 1,
+          margin: { top: 0, bottom: 1 },
+          borderStyle: "round",
+          borderColor: "cyan",
+        }
+      )
+    );
+  },
+
+  /**
+   * Display token usage and estimated cost by node and test step
+   */
+  displayTokenUsage(tokenUsage: TokenUsageReport): void {
+    const formatGroup = (title: string, groups: TokenUsageReport["byNode"]) =>
+      groups.length > 0
+        ? "\n\n" +
+          chalk.bold(title) +
+          "\n" +
+          groups
+            .map(
+              (group) =>
+                `${chalk.cyan(figures.pointer)} ${group.label}: ${describeTokenUsage(group)}`
+            )
+            .join("\n")
+        : "";
+
+    console.log(
+      boxen(
+        chalk.bold.blue("Token Usage:") +
+          "\n\n" +
+          describeTokenUsage(tokenUsage.total) +
+          formatGroup("By node:", tokenUsage.byNode) +
+          formatGroup("By step:", tokenUsage.byStep),
+        {
+          padding: 1,
+          margin: { top: 0, bottom: 1 },
+          borderStyle: "round",
+          borderColor: "blue",
+        }
+      )
+    );
+  },
+
   /**
    * Display critical issues box
    */
@@ -23,7 +23,16 @@ import {
   extractTestExecutionHistory,
   createActionsSummary,
   calculatePassRate,
+  describeIntervention,
+  summarizeTokenUsage,
 } from "./report-utils/data-extractors";
+import { UsageTracker } from "../../models/usage-tracker";
+import { RunEvents } from "../../events/run-events";
+import { TEST_STATUS, type TokenUsageReport } from "./schemas";
+import {
+  describeVariables,
+  type RuntimeVariables,
+} from "../../../common/utils/runtime-variables";
 
 // Main node function
 export const generateReportNode = async ({
@@ -35,6 +44,11 @@ export const generateReportNode = async ({
   testEndTime,
   testDuration,
   reportFormat,
+  interventions = [],
+  abortReason,
+  cancelled,
+  variables = {},
+  preprocessingError,
 }: GraphStateType) => {
   // Log test timing information if available
   if (testStartTime && testEndTime && testDuration) {
@@ -49,7 +63,8 @@ export const generateReportNode = async ({
 
   // Generate a sessionId if not provided
   const testSessionId = sessionId || `session-${new Date().getTime()}`;
-  if (!testSteps || testSteps.length === 0) {
+  // A run stopped by a preprocessing error has no steps, its report records the error
+  if ((!testSteps || testSteps.length === 0) && !preprocessingError) {
     enhancedLogger.warn("No test steps to analyze for report");
     return {};
   }
@@ -73,8 +88,15 @@ export const generateReportNode = async ({
       } tool calls and ${toolResponses.length} tool responses...`
     );
 
+    // Operator interventions from interactive mode, recorded in every report format
+    const interventionNotes = interventions.map(describeIntervention);
+
     // Create a summary of the test actions for the LLM
-    const actionsSummary = createActionsSummary(toolCalls, toolResponses);
+    const actionsSummary =
+      createActionsSummary(toolCalls, toolResponses) +
+      (interventionNotes.length > 0
+        ? `\nOperator interventions:\n${interventionNotes.join("\n")}`
+        : "");
 
     // Create system and user messages for LLM analysis
     const { systemPrompt, userMessage } = createAnalysisMessages(
@@ -83,15 +105,47 @@ export const generateReportNode = async ({
       lastError
     );
 
-    enhancedLogger.info(
-      `${chalk.blue(figures.pointer)} Generating detailed test report...`
-    );
+    // Without budget left, or once cancelled, the report is built from the recorded results alone
+    const stopReason =
+      abortReason || UsageTracker.getExceededBudget(testSessionId)?.reason;
 
-    // Generate the report using the LLM
-    const report: ReportOutput = await generateTestReport(
-      systemPrompt,
-      userMessage
-    );
+    let report: ReportOutput;
+    if (stopReason) {
+      enhancedLogger.info(
+        `${chalk.blue(figures.pointer)} ${
+          cancelled ? "Run cancelled" : "Run budget exhausted"
+        }, generating report without analysis...`
+      );
+      report = createStoppedEarlyReport(
+        testSteps,
+        stopReason,
+        testDuration,
+        cancelled
+      );
+    } else if (testSteps.length === 0) {
+      enhancedLogger.info(
+        `${chalk.blue(figures.pointer)} Preprocessing failed, generating report without analysis...`
+      );
+      report = createPreprocessingFailedReport(testDuration);
+    } else {
+      enhancedLogger.info(
+        `${chalk.blue(figures.pointer)} Generating detailed test report...`
+      );
+
+      // Generate the report using the LLM
+      report = await generateTestReport(systemPrompt, userMessage);
+    }
+
+    // A preprocessing error is listed with the critical issues in every report format
+    if (preprocessingError) {
+      report.criticalIssues = [
+        `Preprocessing failed: ${preprocessingError}`,
+        ...(report.criticalIssues || []),
+      ];
+    }
+
+    // Token usage of the whole run, including the report analysis above
+    const tokenUsage = summarizeTokenUsage(UsageTracker.getRecords(testSessionId));
 
     // Calculate pass rate if not provided by the LLM
     const passRate = report.passRate || calculatePassRate(testSteps);
@@ -121,6 +175,22 @@ export const generateReportNode = async ({
       displayComponents.displayCriticalIssues(report.criticalIssues);
     }
 
+    // Display operator interventions if any
+    if (interventionNotes.length > 0) {
+      displayComponents.displayInterventions(interventionNotes);
+    }
+
+    // Display values captured with the storeVariable tool
+    const variableLines = describeVariables(variables);
+    if (variableLines.length > 0) {
+      displayComponents.displayVariables(variableLines);
+    }
+
+    // Display token usage and estimated cost
+    if (tokenUsage) {
+      displayComponents.displayTokenUsage(tokenUsage);
+    }
+
     // Generate reports based on format setting
     await generateReportFiles(
       reportFormat,
@@ -129,7 +199,10 @@ export const generateReportNode = async ({
       lastError,
       testSessionId,
       passRate,
-      testDuration
+      testDuration,
+      interventionNotes,
+      tokenUsage,
+      variables
     );
 
     return {
@@ -168,6 +241,50 @@ export const generateReportNode = async ({
   }
 };
 
+/**
+ * Build a report from the step results when the run was cancelled or no model calls are left in the run budget
+ */
+function createStoppedEarlyReport(
+  testSteps: any[],
+  reason: string,
+  testDuration: number | null,
+  cancelled: boolean
+): ReportOutput {
+  const passed = testSteps.filter((step) => step.status === TEST_STATUS.PASSED).length;
+  const unfinishedStatus = cancelled ? TEST_STATUS.CANCELLED : TEST_STATUS.SKIPPED;
+  const unfinished = testSteps.filter((step) => step.status === unfinishedStatus).length;
+
+  return {
+    summary:
+      `The run stopped before all steps could be executed. ${reason}. ` +
+      `${passed} of ${testSteps.length} steps passed and ${unfinished} were ${unfinishedStatus}.`,
+    passRate: calculatePassRate(testSteps),
+    executionTime: testDuration ? formatDuration(testDuration) : null,
+    recommendations: cancelled
+      ? []
+      : [
+          "Raise the exhausted budget with --max-duration, --max-llm-calls or --max-tokens, or split the test into smaller cases",
+        ],
+    criticalIssues: [reason],
+    errorAnalysis: null,
+  };
+}
+
+/**
+ * Build the report of a run that stopped in preprocessing, before any step was parsed.
+ * The preprocessing error itself is added to the critical issues like for every report.
+ */
+function createPreprocessingFailedReport(testDuration: number | null): ReportOutput {
+  return {
+    summary: "The test did not run, its instruction could not be preprocessed into test steps.",
+    passRate: 0,
+    executionTime: testDuration ? formatDuration(testDuration) : null,
+    recommendations: ["Fix the test instruction and run the test again"],
+    criticalIssues: [],
+    errorAnalysis: null,
+  };
+}
+
 /**
  * Generate report files based on the specified format
  */
@@ -178,12 +295,23 @@ async function generateReportFiles(
   lastError: string | null,
   testSessionId: string,
   passRate: number,
-  testDuration: number | null
+  testDuration: number | null,
+  interventions: string[],
+  tokenUsage: TokenUsageReport | null,
+  variables: RuntimeVariables
 ): Promise<void> {
   try {
     // Generate JUnit XML report if format is "xml" or "both"
     if (reportFormat === "xml" || reportFormat === "both") {
-      await generateXmlReport(testSteps, report, lastError, testSessionId);
+      await generateXmlReport(
+        testSteps,
+        report,
+        lastError,
+        testSessionId,
+        interventions,
+        tokenUsage,
+        variables
+      );
     }
 
     // Generate HTML report if format is "html" or "both"
@@ -194,7 +322,10 @@ async function generateReportFiles(
         lastError,
         testSessionId,
         passRate,
-        testDuration
+        testDuration,
+        interventions,
+        tokenUsage,
+        variables
       );
     }
   } catch (reportError) {
@@ -213,7 +344,10 @@ async function generateXmlReport(
   testSteps: any[],
   report: ReportOutput,
   lastError: string | null,
-  testSessionId: string
+  testSessionId: string,
+  interventions: string[],
+  tokenUsage: TokenUsageReport | null,
+  variables: RuntimeVariables
 ): Promise<void> {
   enhancedLogger.info(
     `${chalk.blue(figures.pointer)} Generating JUnit XML report...`
@@ -225,10 +359,14 @@ async function generateXmlReport(
     report.executionTime,
     lastError,
     report.recommendations,
-    report.criticalIssues
+    report.criticalIssues,
+    interventions,
+    tokenUsage,
+    variables
   );
 
   const xmlFilePath = writeJUnitXmlReport(junitXml, testSessionId);
+  RunEvents.emit(testSessionId, { type: "report_written", format: "xml", path: xmlFilePath });
 
   enhancedLogger.success(
     `${chalk.green(figures.tick)} XML report saved to: ${xmlFilePath}`
@@ -259,7 +397,10 @@ async function generateHtmlReportFile(
   lastError: string | null,
   testSessionId: string,
   passRate: number,
-  testDuration: number | null
+  testDuration: number | null,
+  interventions: string[],
+  tokenUsage: TokenUsageReport | null,
+  variables: RuntimeVariables
 ): Promise<void> {
   enhancedLogger.info(
     `${chalk.blue(figures.pointer)} Generating HTML report...`
@@ -273,10 +414,14 @@ async function generateHtmlReportFile(
     lastError,
     report.recommendations,
     report.criticalIssues,
-    testDuration
+    testDuration,
+    interventions,
+    tokenUsage,
+    variables
   );
 
   const htmlFilePath = writeHtmlReport(htmlReport, testSessionId);
+  RunEvents.emit(testSessionId, { type: "report_written", format: "html", path: htmlFilePath });
 
   enhancedLogger.success(
     `${chalk.green(figures.tick)} HTML report saved to: ${htmlFilePath}`
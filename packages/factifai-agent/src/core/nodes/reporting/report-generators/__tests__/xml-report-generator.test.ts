@@ -0,0 +1,80 @@
+import type { SuiteTestCaseReport } from "../../schemas";
+import { generateJUnitXmlReport, generateJUnitXmlSuiteReport } from "../xml-report-generator";
+
+const testCase = (name: string, extra: Partial<SuiteTestCaseReport> = {}): SuiteTestCaseReport => ({
+  name,
+  sessionId: `factifai-suite-${name.toLowerCase()}`,
+  passed: true,
+  testSteps: [{ id: 1, instruction: "Open the page", status: "passed", notes: "" }],
+  testSummary: null,
+  testDuration: null,
+  lastError: null,
+  ...extra,
+});
+
+describe("generateJUnitXmlSuiteReport", () => {
+  it("counts the steps of every test case", () => {
+    const xml = generateJUnitXmlSuiteReport("Suite", [
+      testCase("Login"),
+      testCase("Checkout", {
+        passed: false,
+        testSteps: [
+          { id: 1, instruction: "Open the cart", status: "passed", notes: "" },
+          { id: 2, instruction: "Pay", status: "failed", notes: "The button was missing" },
+        ],
+        lastError: "Step 2 failed",
+      }),
+    ]);
+
+    expect(xml).toContain('<testsuites name="Suite" tests="3" failures="1" errors="0" skipped="0"');
+    expect(xml).toContain('<testsuite name="Checkout" tests="2" failures="1"');
+    expect(xml).toContain('<failure message="The button was missing" type="AssertionError">');
+    expect(xml).not.toContain('type="Error"');
+  });
+
+  it("reports a test case that failed before any step as a failed testcase", () => {
+    const xml = generateJUnitXmlSuiteReport("Suite", [
+      testCase("Login"),
+      testCase("Checkout", { passed: false, testSteps: [], lastError: 'Setup fixture "login" failed' }),
+    ]);
+
+    expect(xml).toContain('<testsuites name="Suite" tests="2" failures="1" errors="0" skipped="0"');
+    expect(xml).toContain('<testsuite name="Checkout" tests="1" failures="1" errors="0" skipped="0"');
+    expect(xml).toContain(
+      '    <testcase classname="factifai.tests" name="Checkout" time="0">\n' +
+        '      <failure message="Setup fixture &quot;login&quot; failed" type="Error">' +
+        "Setup fixture &quot;login&quot; failed</failure>\n" +
+        "    </testcase>\n"
+    );
+  });
+
+  it("reports a test case that failed after its steps passed as a failed testcase", () => {
+    const xml = generateJUnitXmlSuiteReport("Suite", [
+      testCase("Login", { passed: false, lastError: "Run budget exhausted" }),
+    ]);
+
+    expect(xml).toContain('<testsuites name="Suite" tests="2" failures="1"');
+    expect(xml).toContain('<failure message="Run budget exhausted" type="Error">');
+  });
+});
+
+describe("generateJUnitXmlReport", () => {
+  it("reports a run that failed before any step as a failed testcase", () => {
+    const xml = generateJUnitXmlReport([], "No steps were parsed", null, "The model is unavailable");
+
+    expect(xml).toContain('<testsuite name="Factifai Test Suite" tests="1" failures="1" errors="0" skipped="0"');
+    expect(xml).toContain('<failure message="The model is unavailable" type="Error">');
+  });
+
+  it("reports only the failed step of a run that failed in a step", () => {
+    const xml = generateJUnitXmlReport(
+      [{ id: 1, instruction: "Pay", status: "failed", notes: "The button was missing" }],
+      "Payment failed",
+      null,
+      "Step 1 failed"
+    );
+
+    expect(xml).toContain('tests="1" failures="1"');
+    expect(xml).not.toContain('type="Error"');
+  });
+});
@@ -1,9 +1,16 @@
 import * as fs from "fs";
 import * as path from "path";
-import { TEST_STATUS } from "../schemas";
+import {
+  TEST_STATUS,
+  type StabilityReport,
+  type SuiteTestCaseReport,
+  type TokenUsageReport,
+} from "../schemas";
+import { formatCost } from "../report-utils/data-extractors";
 import { formatDuration } from "../../../../common/utils/time-utils";
 import { logger } from "../../../../common/utils/logger";
 import { getSessionSubdirPath, REPORTS_DIR_NAME } from "../../../../common/utils/path-utils";
+import type { RuntimeVariables } from "../../../../common/utils/runtime-variables";
 import { htmlStyles } from "../templates/html-styles";
 
 /**
@@ -17,7 +24,10 @@ export function generateHtmlReport(
   lastError: string | null,
   recommendations: string[] | null = null,
   criticalIssues: string[] | null = null,
-  testDuration: number | null = null
+  testDuration: number | null = null,
+  interventions: string[] | null = null,
+  tokenUsage: TokenUsageReport | null = null,
+  variables: RuntimeVariables | null = null
 ): string {
   // Format the current date
   const date = new Date().toLocaleDateString('en-US', {
@@ -120,6 +130,64 @@ export function generateHtmlReport(
         </div>
         ` : ''}
         
+        ${interventions && interventions.length > 0 ? `
+        <div class="card">
+            <div class="card-header">
+                Operator Interventions
+            </div>
+            <div class="card-body">
+                <ul class="recommendation-list">
+                    ${generateInterventionsHtml(interventions)}
+                </ul>
+            </div>
+        </div>
+        ` : ''}
+        
+        ${variables && Object.keys(variables).length > 0 ? `
+        <div class="card">
+            <div class="card-header">
+                Runtime Variables
+            </div>
+            <div class="card-body">
+                <table class="test-cases">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Value</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${generateVariableRowsHtml(variables)}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+        ` : ''}
+        
+        ${tokenUsage ? `
+        <div class="card">
+            <div class="card-header">
+                Token Usage
+            </div>
+            <div class="card-body">
+                <table class="test-cases">
+                    <thead>
+                        <tr>
+                            <th>Scope</th>
+                            <th>Calls</th>
+                            <th>Input Tokens</th>
+                            <th>Output Tokens</th>
+                            <th>Estimated Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${generateTokenUsageRowsHtml(tokenUsage)}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+        ` : ''}
+        
         <div class="card">
             <div class="card-header">
                 Test Cases
@@ -159,10 +227,18 @@ export function generateHtmlReport(
             
             const statusIcon = testCase.status === "passed" 
                 ? '<span class="status-icon status-success">✓</span>' 
+                : testCase.status === "skipped"
+                ? '<span class="status-icon status-skipped">⤼</span>'
+                : testCase.status === "cancelled"
+                ? '<span class="status-icon status-skipped">⊘</span>'
                 : '<span class="status-icon status-failure">✗</span>';
             
             const statusBadge = testCase.status === "passed" 
                 ? '<span class="badge badge-success">Passed</span>' 
+                : testCase.status === "skipped"
+                ? '<span class="badge badge-warning">Skipped</span>'
+                : testCase.status === "cancelled"
+                ? '<span class="badge badge-warning">Cancelled</span>'
                 : '<span class="badge badge-danger">Failed</span>';
             
             row.classList.add('clickable-row');
@@ -199,6 +275,314 @@ export function generateHtmlReport(
 </html>`;
 }
 
+/**
+ * Generate an aggregated HTML report for a suite of test cases
+ */
+export function generateHtmlSuiteReport(
+  suiteName: string,
+  testCases: SuiteTestCaseReport[],
+  totalDuration: number | null = null
+): string {
+  // Format the current date
+  const date = new Date().toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  const formattedExecutionTime = totalDuration ? formatDuration(totalDuration) : "Unknown";
+
+  const total = testCases.length;
+  const passed = testCases.filter((testCase) => testCase.passed).length;
+  const failed = total - passed;
+  const passRate = total > 0 ? Math.round((passed / total) * 100) : 0;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Factifai Suite Report</title>
+    <style>
+        ${htmlStyles}
+    </style>
+</head>
+<body>
+    <div class="container">
+        <header>
+            <h1 class="report-title">Factifai Suite Report: ${suiteName}</h1>
+            <div class="report-meta">
+                <span>Execution Time: ${formattedExecutionTime}</span>
+                <span>Generated on: ${date}</span>
+            </div>
+        </header>
+
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="stat-value">${total}</div>
+                <div class="stat-label">Test Cases</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value" style="color: var(--success);">${passed}</div>
+                <div class="stat-label">Passed</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value" style="color: var(--danger);">${failed}</div>
+                <div class="stat-label">Failed</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value">${passRate}%</div>
+                <div class="stat-label">Pass Rate</div>
+                <div class="progress" style="width: 80%; margin-top: 0.5rem;">
+                    <div class="progress-bar" style="width: ${passRate}%;"></div>
+                </div>
+            </div>
+        </div>
+
+        <div class="card">
+            <div class="card-header">
+                Test Cases
+            </div>
+            <div class="card-body">
+                <table class="test-cases">
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Name</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody id="testCasesBody">
+                        <!-- Test cases will be populated by JavaScript -->
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    </div>
+
+    <script>
+        // Test case data
+        const testCases = ${JSON.stringify(testCases.map((testCase, index) => ({
+          id: index + 1,
+          name: testCase.name,
+          passed: testCase.passed,
+          duration: testCase.testDuration ? formatDuration(testCase.testDuration) : "Unknown",
+          summary: testCase.testSummary || "No summary available",
+          error: testCase.lastError,
+          steps: testCase.testSteps.map(step => `Step ${step.id}: ${step.instruction} [${step.status}]`)
+        })))};
+
+        // Populate test cases
+        const testCasesBody = document.getElementById("testCasesBody");
+
+        testCases.forEach(testCase => {
+            const row = document.createElement("tr");
+
+            const statusIcon = testCase.passed
+                ? '<span class="status-icon status-success">✓</span>'
+                : '<span class="status-icon status-failure">✗</span>';
+
+            const statusBadge = testCase.passed
+                ? '<span class="badge badge-success">Passed</span>'
+                : '<span class="badge badge-danger">Failed</span>';
+
+            row.classList.add('clickable-row');
+            row.onclick = function() { toggleDetails(testCase.id); };
+
+            row.innerHTML = \`
+                <td>\${testCase.id}</td>
+                <td>
+                    <div class="expandable">
+                        \${statusIcon} \${testCase.name} <small>(\${testCase.duration})</small>
+                    </div>
+                    <div class="test-details" id="details-\${testCase.id}">
+                        <div class="test-log">\${testCase.summary}</div>
+                        <div class="test-log" style="margin-top: 0.5rem;">\${testCase.steps.join("<br>")}</div>
+                        \${testCase.error ? \`<div class="test-log" style="border-left: 4px solid var(--danger); margin-top: 0.5rem;">\${testCase.error}</div>\` : ''}
+                    </div>
+                </td>
+                <td>\${statusBadge}</td>
+            \`;
+
+            testCasesBody.appendChild(row);
+        });
+
+        // Toggle test details
+        function toggleDetails(id) {
+            const details = document.getElementById(\`details-\${id}\`);
+            if (details.style.display === "block") {
+                details.style.display = "none";
+            } else {
+                details.style.display = "block";
+            }
+        }
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Generate a stability report for repeated runs of one test case
+ */
+export function generateHtmlStabilityReport(report: StabilityReport): string {
+  // Format the current date
+  const date = new Date().toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  const flakySteps = report.steps.filter((step) => step.flaky).length;
+  const inconsistentSteps = report.steps.filter(
+    (step) => step.inconsistentVerification || step.instructions.length > 1
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Factifai Stability Report</title>
+    <style>
+        ${htmlStyles}
+    </style>
+</head>
+<body>
+    <div class="container">
+        <header>
+            <h1 class="report-title">Factifai Stability Report: ${escapeHtml(report.name)}</h1>
+            <div class="report-meta">
+                <span>Execution Time: ${formatDuration(report.duration)}</span>
+                <span>Generated on: ${date}</span>
+            </div>
+        </header>
+
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="stat-value">${report.runs}</div>
+                <div class="stat-label">Runs</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value" style="color: var(--success);">${report.passedRuns}</div>
+                <div class="stat-label">Passed Runs</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value" style="color: ${flakySteps > 0 ? 'var(--warning)' : 'var(--success)'};">${flakySteps}</div>
+                <div class="stat-label">Flaky Steps</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-value">${report.stabilityScore}%</div>
+                <div class="stat-label">Stability Score</div>
+                <div class="progress" style="width: 80%; margin-top: 0.5rem;">
+                    <div class="progress-bar" style="width: ${report.stabilityScore}%;"></div>
+                </div>
+            </div>
+        </div>
+
+        <div class="card">
+            <div class="card-header">
+                Step Stability
+            </div>
+            <div class="card-body">
+                <table class="test-cases">
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Step</th>
+                            <th>Outcome per Run</th>
+                            <th>Pass Rate</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${generateStabilityRowsHtml(report)}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        ${inconsistentSteps.length > 0 ? `
+        <div class="card">
+            <div class="card-header">
+                Inconsistent Steps
+            </div>
+            <div class="card-body">
+                ${inconsistentSteps.map((step) => `
+                <h3 class="card-title">Step ${step.id}: ${escapeHtml(step.instruction)}</h3>
+                ${step.instructions.length > 1 ? `
+                <div class="test-log">Parsed differently across runs:<br>${step.instructions.map(escapeHtml).join('<br>')}</div>
+                ` : ''}
+                ${step.verifications.map((verification) => `
+                <div class="test-log" style="margin-top: 0.5rem; border-left: 4px solid ${verification.result === 'SUCCESS' ? 'var(--success)' : 'var(--danger)'};">
+                    Run ${verification.run} ${verification.result}: ${escapeHtml(verification.explanation)}
+                </div>
+                `).join('')}
+                `).join('')}
+            </div>
+        </div>
+        ` : ''}
+
+        <div class="card">
+            <div class="card-header">
+                Runs
+            </div>
+            <div class="card-body">
+                <table class="test-cases">
+                    <thead>
+                        <tr>
+                            <th>Run</th>
+                            <th>Session</th>
+                            <th>Duration</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${report.runResults.map((run) => `
+                        <tr>
+                            <td>${escapeHtml(run.name)}</td>
+                            <td>${escapeHtml(run.sessionId)}${run.lastError ? `<div class="test-log" style="border-left: 4px solid var(--danger);">${escapeHtml(run.lastError)}</div>` : ''}</td>
+                            <td>${run.testDuration ? formatDuration(run.testDuration) : 'Unknown'}</td>
+                            <td>${run.passed ? '<span class="badge badge-success">Passed</span>' : '<span class="badge badge-danger">Failed</span>'}</td>
+                        </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    </div>
+</body>
+</html>`;
+}
+
+/**
+ * Generate table rows for the outcome of each step across repeated runs
+ */
+function generateStabilityRowsHtml(report: StabilityReport): string {
+  const badge = (status: string) =>
+    status === TEST_STATUS.PASSED
+      ? '<span class="badge badge-success">✓</span>'
+      : status === TEST_STATUS.FAILED
+      ? '<span class="badge badge-danger">✗</span>'
+      : `<span class="badge badge-warning" title="${escapeHtml(status)}">–</span>`;
+
+  return report.steps.map((step) => `
+    <tr>
+      <td>${step.id}</td>
+      <td>${escapeHtml(step.instruction)}</td>
+      <td>${step.statuses.map(badge).join(' ')}</td>
+      <td>
+        ${step.passRate}%
+        <div class="progress" style="margin-top: 0.25rem;">
+          <div class="progress-bar" style="width: ${step.passRate}%;"></div>
+        </div>
+      </td>
+      <td>${step.flaky || step.inconsistentVerification
+        ? '<span class="badge badge-warning">Flaky</span>'
+        : '<span class="badge badge-success">Stable</span>'}</td>
+    </tr>
+  `).join('');
+}
+
 /**
  * Generate HTML for recommendations
  */
@@ -218,6 +602,53 @@ function generateRecommendationsHtml(recommendations: string[] | null): string {
   `).join('');
 }
 
+/**
+ * Generate HTML for operator interventions
+ */
+function generateInterventionsHtml(interventions: string[]): string {
+  return interventions.map(intervention => `
+    <li class="recommendation-item">
+      <span class="recommendation-icon">🧑‍💻</span>
+      <div>
+        <p>${escapeHtml(intervention)}</p>
+      </div>
+    </li>
+  `).join('');
+}
+
+/**
+ * Generate table rows for runtime variables
+ */
+function generateVariableRowsHtml(variables: RuntimeVariables): string {
+  return Object.entries(variables).map(([name, value]) => `
+    <tr>
+      <td>${escapeHtml(name)}</td>
+      <td>${escapeHtml(value)}</td>
+    </tr>
+  `).join('');
+}
+
+/**
+ * Generate table rows for token usage by node, by step and in total
+ */
+function generateTokenUsageRowsHtml(tokenUsage: TokenUsageReport): string {
+  const row = (totals: TokenUsageReport["total"], label: string) => `
+    <tr>
+      <td>${label}</td>
+      <td>${totals.calls}${totals.cachedCalls > 0 ? ` (${totals.cachedCalls} cached)` : ""}</td>
+      <td>${totals.inputTokens.toLocaleString("en-US")}</td>
+      <td>${totals.outputTokens.toLocaleString("en-US")}</td>
+      <td>${formatCost(totals.cost)}</td>
+    </tr>
+  `;
+
+  return [
+    ...tokenUsage.byNode.map((totals) => row(totals, `Node: ${escapeHtml(totals.label)}`)),
+    ...tokenUsage.byStep.map((totals) => row(totals, escapeHtml(totals.label))),
+    row(tokenUsage.total, "<strong>Total</strong>"),
+  ].join('');
+}
+
 /**
  * Generate HTML for critical issues
  */
@@ -237,10 +668,26 @@ function generateCriticalIssuesHtml(criticalIssues: string[] | null): string {
   `).join('');
 }
 
+/**
+ * Escape text for safe inclusion in HTML
+ */
+function escapeHtml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 /**
  * Write HTML report to file
  */
-export function writeHtmlReport(html: string, sessionId: string): string {
+export function writeHtmlReport(
+  html: string,
+  sessionId: string,
+  baseName: string = "test-report"
+): string {
   try {
     // Create reports directory within factifai/sessionId directory
     const reportDir = getSessionSubdirPath(sessionId, REPORTS_DIR_NAME);
@@ -250,7 +697,7 @@ export function writeHtmlReport(html: string, sessionId: string): string {
       .toISOString()
       .replace(/:/g, "-")
       .replace(/\..+/, "");
-    const filename = `test-report-${timestamp}.html`;
+    const filename = `${baseName}-${timestamp}.html`;
     const filePath = path.join(reportDir, filename);
 
     // Write the HTML to file
@@ -1,3 +1,4 @@
 export * from './llm-report-analyzer';
 export * from './xml-report-generator';
 export * from './html-report-generator';
+export * from './json-report-generator';
@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { LintReport, StabilityReport } from "../schemas";
+import { logger } from "../../../../common/utils/logger";
+import { getSessionSubdirPath, REPORTS_DIR_NAME } from "../../../../common/utils/path-utils";
+
+/**
+ * Generate a JSON stability report for repeated runs of one test case
+ */
+export function generateJsonStabilityReport(report: StabilityReport): string {
+  return JSON.stringify(
+    {
+      ...report,
+      flakySteps: report.steps.filter((step) => step.flaky).map((step) => step.id),
+      inconsistentVerificationSteps: report.steps
+        .filter((step) => step.inconsistentVerification)
+        .map((step) => step.id),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Generate a JSON report of a lint run
+ */
+export function generateJsonLintReport(report: LintReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Write JSON report to file
+ */
+export function writeJsonReport(
+  json: string,
+  sessionId: string,
+  baseName: string = "test-report"
+): string {
+  try {
+    // Create reports directory within factifai/sessionId directory
+    const reportDir = getSessionSubdirPath(sessionId, REPORTS_DIR_NAME);
+
+    // Generate filename with timestamp
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/:/g, "-")
+      .replace(/\..+/, "");
+    const filePath = path.join(reportDir, `${baseName}-${timestamp}.json`);
+
+    fs.writeFileSync(filePath, json);
+
+    return filePath;
+  } catch (error) {
+    logger.error(
+      `Failed to write JSON report: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
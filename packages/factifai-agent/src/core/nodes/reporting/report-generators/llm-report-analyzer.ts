@@ -33,7 +33,7 @@ export async function generateTestReport(
   userMessage: HumanMessage
 ): Promise<ReportOutput> {
   // Get the model with structured output
-  const model = getModel(false, 16000).withStructuredOutput(reportOutputSchema);
+  const model = getModel(false, 16000, "report").withStructuredOutput(reportOutputSchema);
 
   // Generate the report
   return await model.invoke([systemPrompt, userMessage]);
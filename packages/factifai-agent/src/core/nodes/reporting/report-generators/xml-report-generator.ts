@@ -1,8 +1,15 @@
 import * as fs from "fs";
 import * as path from "path";
-import { TEST_STATUS } from "../schemas";
+import {
+  TEST_STATUS,
+  type LintIssue,
+  type LintReport,
+  type SuiteTestCaseReport,
+  type TokenUsageReport,
+} from "../schemas";
 import { logger } from "../../../../common/utils/logger";
 import { getSessionSubdirPath, REPORTS_DIR_NAME } from "../../../../common/utils/path-utils";
+import type { RuntimeVariables } from "../../../../common/utils/runtime-variables";
 
 /**
  * Generate JUnit XML report from test steps
@@ -13,19 +20,11 @@ export function generateJUnitXmlReport(
   executionTime: string | null,
   lastError: string | null,
   recommendations: string[] | null = null,
-  criticalIssues: string[] | null = null
+  criticalIssues: string[] | null = null,
+  interventions: string[] | null = null,
+  tokenUsage: TokenUsageReport | null = null,
+  variables: RuntimeVariables | null = null
 ): string {
-  // Count test statistics
-  const totalTests = testSteps.length;
-  const failures = testSteps.filter(
-    (step) => step.status === TEST_STATUS.FAILED
-  ).length;
-  const skipped = testSteps.filter(
-    (step) =>
-      step.status === TEST_STATUS.NOT_STARTED ||
-      step.status === TEST_STATUS.IN_PROGRESS
-  ).length;
-
   // Parse execution time if available, default to 0
   let timeValue = "0";
   if (executionTime) {
@@ -39,7 +38,253 @@ export function generateJUnitXmlReport(
   // Start building XML
   let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
   xml += "<testsuites>\n";
-  xml += `  <testsuite name="Factifai Test Suite" tests="${totalTests}" failures="${failures}" errors="0" skipped="${skipped}" time="${timeValue}">\n`;
+  xml += generateTestSuiteXml(
+    "Factifai Test Suite",
+    testSteps,
+    testSummary,
+    timeValue,
+    lastError,
+    recommendations,
+    criticalIssues,
+    interventions,
+    tokenUsage,
+    variables
+  );
+  xml += "</testsuites>";
+
+  return xml;
+}
+
+/**
+ * Generate an aggregated JUnit XML report with one <testsuite> per test case.
+ * Scenarios of a Gherkin feature are reported as the testcases of one <testsuite>
+ * named after the feature instead.
+ */
+export function generateJUnitXmlSuiteReport(
+  suiteName: string,
+  suites: SuiteTestCaseReport[],
+  totalDuration: number | null = null
+): string {
+  // Keep the test cases in order, the scenarios of a feature are placed where its first one ran
+  const groups: Array<SuiteTestCaseReport | { feature: string; scenarios: SuiteTestCaseReport[] }> = [];
+  suites.forEach((suite) => {
+    if (!suite.feature) {
+      groups.push(suite);
+      return;
+    }
+    const group = groups.find(
+      (candidate): candidate is { feature: string; scenarios: SuiteTestCaseReport[] } =>
+        "scenarios" in candidate && candidate.feature === suite.feature
+    );
+    if (group) {
+      group.scenarios.push(suite);
+    } else {
+      groups.push({ feature: suite.feature, scenarios: [suite] });
+    }
+  });
+
+  // Scenarios and test cases left out by the suite filters count as one testcase each, and a
+  // test case that failed without a failed step counts as one more failed testcase
+  const standalone = suites.filter((suite) => !suite.feature && !suite.skipReason);
+  const single = suites.filter((suite) => suite.feature || suite.skipReason);
+  const caseFailures = standalone.filter((suite) =>
+    getCaseFailure(suite.testSteps, getSuiteError(suite))
+  ).length;
+  const totalTests =
+    standalone.reduce((sum, suite) => sum + suite.testSteps.length, 0) + single.length + caseFailures;
+  const failures =
+    standalone.reduce((sum, suite) => sum + countFailures(suite.testSteps), 0) +
+    single.filter((suite) => !suite.passed && !suite.skipReason).length +
+    caseFailures;
+  const skipped =
+    standalone.reduce((sum, suite) => sum + countSkipped(suite.testSteps), 0) +
+    single.filter((suite) => suite.skipReason).length;
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += `<testsuites name="${escapeXml(suiteName)}" tests="${totalTests}" failures="${failures}" errors="0" skipped="${skipped}" time="${formatSeconds(totalDuration)}">\n`;
+
+  groups.forEach((group) => {
+    if ("scenarios" in group) {
+      xml += generateFeatureSuiteXml(group.feature, group.scenarios);
+      return;
+    }
+    if (group.skipReason) {
+      xml += generateSkippedSuiteXml(group);
+      return;
+    }
+    xml += generateTestSuiteXml(
+      group.name,
+      group.testSteps,
+      group.testSummary || "No summary available",
+      formatSeconds(group.testDuration),
+      getSuiteError(group)
+    );
+  });
+
+  xml += "</testsuites>";
+
+  return xml;
+}
+
+/**
+ * Get the error of a suite test case, a test case that did not pass has one
+ */
+function getSuiteError(suite: SuiteTestCaseReport): string | null {
+  return suite.lastError || (suite.passed ? null : "Test case did not pass");
+}
+
+/**
+ * Get the failure of a run that failed although none of its steps failed, e.g. when its
+ * instruction could not be parsed into steps. It is reported as a testcase of its own.
+ */
+function getCaseFailure(testSteps: any[], lastError: string | null): string | null {
+  return lastError && countFailures(testSteps) === 0 ? lastError : null;
+}
+
+/**
+ * Generate a JUnit XML report of a lint run with one testcase per linted test case.
+ * A test case with errors or a score below the minimum score is a failure, its
+ * warnings are listed in the system-out of the testcase.
+ */
+export function generateJUnitXmlLintReport(report: LintReport): string {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += `<testsuites name="factifai lint" tests="${report.testCases.length}" failures="${report.failed}" errors="0" skipped="0" time="0">\n`;
+  xml += `  <testsuite name="factifai lint" tests="${report.testCases.length}" failures="${report.failed}" errors="0" skipped="0" time="0">\n`;
+
+  if (report.minScore !== null) {
+    xml += "    <properties>\n";
+    xml += `      <property name="minScore" value="${report.minScore}"/>\n`;
+    xml += "    </properties>\n";
+  }
+
+  report.testCases.forEach((testCase) => {
+    xml += `    <testcase classname="${escapeXml(
+      path.relative(process.cwd(), testCase.filePath) || testCase.filePath
+    )}" name="${escapeXml(testCase.name)}" time="0">\n`;
+
+    const errors = testCase.issues.filter((issue) => issue.severity === "error");
+    if (!testCase.passed) {
+      const failures = errors.map((issue) => formatLintIssue(issue));
+      if (report.minScore !== null && testCase.score !== null && testCase.score < report.minScore) {
+        failures.push(`Score ${testCase.score} is below the minimum score of ${report.minScore}`);
+      }
+      xml += `      <failure message="${escapeXml(failures[0])}" type="LintError">${escapeXml(
+        failures.join("\n")
+      )}</failure>\n`;
+    }
+
+    const output = [
+      ...(testCase.score !== null ? [`Score: ${testCase.score}/10`] : []),
+      ...testCase.issues
+        .filter((issue) => issue.severity === "warning")
+        .map((issue) => `Warning: ${formatLintIssue(issue)}`),
+    ];
+    if (output.length > 0) {
+      xml += "      <system-out>\n";
+      output.forEach((line) => {
+        xml += `        ${escapeXml(line)}\n`;
+      });
+      xml += "      </system-out>\n";
+    }
+
+    xml += "    </testcase>\n";
+  });
+
+  xml += "  </testsuite>\n";
+  xml += "</testsuites>";
+
+  return xml;
+}
+
+/**
+ * Format a lint issue as "[rule] Step n: message"
+ */
+function formatLintIssue(issue: LintIssue): string {
+  return `[${issue.rule}] ${issue.step !== undefined ? `Step ${issue.step}: ` : ""}${issue.message}`;
+}
+
+/**
+ * Generate the <testsuite> of a Gherkin feature with one testcase per scenario
+ */
+function generateFeatureSuiteXml(feature: string, scenarios: SuiteTestCaseReport[]): string {
+  const failures = scenarios.filter((scenario) => !scenario.passed && !scenario.skipReason).length;
+  const skipped = scenarios.filter((scenario) => scenario.skipReason).length;
+  const duration = scenarios.reduce((sum, scenario) => sum + (scenario.testDuration || 0), 0);
+
+  let xml = `  <testsuite name="${escapeXml(feature)}" tests="${scenarios.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${formatSeconds(duration)}">\n`;
+
+  scenarios.forEach((scenario) => {
+    xml += `    <testcase classname="${escapeXml(feature)}" name="${escapeXml(
+      scenario.name
+    )}" time="${formatSeconds(scenario.testDuration)}">\n`;
+
+    if (scenario.skipReason) {
+      xml += `      <skipped message="${escapeXml(scenario.skipReason)}"/>\n`;
+    } else if (!scenario.passed) {
+      const failedStep = scenario.testSteps.find((step) => step.status === TEST_STATUS.FAILED);
+      const message =
+        scenario.lastError ||
+        (failedStep
+          ? `Step ${failedStep.id} failed: ${failedStep.notes || failedStep.instruction}`
+          : "Scenario did not pass");
+      xml += `      <failure message="${escapeXml(message)}" type="AssertionError">${escapeXml(
+        message
+      )}</failure>\n`;
+    }
+
+    // List the steps with their status, as the scenario is a single testcase
+    if (scenario.testSteps.length > 0) {
+      xml += "      <system-out>\n";
+      scenario.testSteps.forEach((step) => {
+        xml += `        ${escapeXml(
+          `[${step.status}] Step ${step.id}: ${step.instruction}${step.notes ? ` - ${step.notes}` : ""}`
+        )}\n`;
+      });
+      xml += "      </system-out>\n";
+    }
+
+    xml += "    </testcase>\n";
+  });
+
+  xml += "  </testsuite>\n";
+
+  return xml;
+}
+
+/**
+ * Generate the <testsuite> of a test case left out by the suite filters
+ */
+function generateSkippedSuiteXml(suite: SuiteTestCaseReport): string {
+  let xml = `  <testsuite name="${escapeXml(suite.name)}" tests="1" failures="0" errors="0" skipped="1" time="0">\n`;
+  xml += `    <testcase classname="factifai.tests" name="${escapeXml(suite.name)}" time="0">\n`;
+  xml += `      <skipped message="${escapeXml(suite.skipReason || "Skipped")}"/>\n`;
+  xml += "    </testcase>\n";
+  xml += "  </testsuite>\n";
+  return xml;
+}
+
+/**
+ * Generate a single <testsuite> element from test steps
+ */
+function generateTestSuiteXml(
+  suiteName: string,
+  testSteps: any[],
+  testSummary: string,
+  timeValue: string,
+  lastError: string | null,
+  recommendations: string[] | null = null,
+  criticalIssues: string[] | null = null,
+  interventions: string[] | null = null,
+  tokenUsage: TokenUsageReport | null = null,
+  variables: RuntimeVariables | null = null
+): string {
+  // Count test statistics
+  const caseFailure = getCaseFailure(testSteps, lastError);
+  const totalTests = testSteps.length + (caseFailure ? 1 : 0);
+  const failures = countFailures(testSteps) + (caseFailure ? 1 : 0);
+  const skipped = countSkipped(testSteps);
+
+  let xml = `  <testsuite name="${escapeXml(suiteName)}" tests="${totalTests}" failures="${failures}" errors="0" skipped="${skipped}" time="${timeValue}">\n`;
 
   // Calculate pass rate percentage
   const passRate =
@@ -70,6 +315,36 @@ export function generateJUnitXmlReport(
     });
   }
 
+  // Add operator interventions as properties
+  if (interventions && interventions.length > 0) {
+    interventions.forEach((intervention, index) => {
+      xml += `      <property name="operatorIntervention.${
+        index + 1
+      }" value="${escapeXml(intervention)}"/>\n`;
+    });
+  }
+
+  // Add runtime variables captured from the page as properties
+  if (variables) {
+    Object.entries(variables).forEach(([name, value]) => {
+      xml += `      <property name="variable.${escapeXml(name)}" value="${escapeXml(value)}"/>\n`;
+    });
+  }
+
+  // Add token usage and estimated cost as properties
+  if (tokenUsage) {
+    xml += generateTokenUsageProperties("tokenUsage", tokenUsage.total);
+    tokenUsage.byNode.forEach((totals) => {
+      xml += generateTokenUsageProperties(`tokenUsage.node.${totals.label}`, totals);
+    });
+    tokenUsage.byStep.forEach((totals) => {
+      xml += generateTokenUsageProperties(
+        `tokenUsage.step.${totals.label.replace(/^Step /, "")}`,
+        totals
+      );
+    });
+  }
+
   xml += "    </properties>\n";
 
   // Add each test step as a test case
@@ -88,10 +363,12 @@ export function generateJUnitXmlReport(
       )}" type="AssertionError">${escapeXml(message)}</failure>\n`;
     }
 
-    // Add skipped tag if the test was not started or is in progress
+    // Add skipped tag if the test was not started, is in progress, was skipped or cancelled
     if (
       step.status === TEST_STATUS.NOT_STARTED ||
-      step.status === TEST_STATUS.IN_PROGRESS
+      step.status === TEST_STATUS.IN_PROGRESS ||
+      step.status === TEST_STATUS.SKIPPED ||
+      step.status === TEST_STATUS.CANCELLED
     ) {
       xml += "      <skipped/>\n";
     }
@@ -106,6 +383,14 @@ export function generateJUnitXmlReport(
     xml += "    </testcase>\n";
   });
 
+  if (caseFailure) {
+    xml += `    <testcase classname="factifai.tests" name="${escapeXml(suiteName)}" time="0">\n`;
+    xml += `      <failure message="${escapeXml(caseFailure)}" type="Error">${escapeXml(
+      caseFailure
+    )}</failure>\n`;
+    xml += "    </testcase>\n";
+  }
+
   // Add system-out with any error information
   if (lastError) {
     xml += "    <system-out>\n";
@@ -113,13 +398,53 @@ export function generateJUnitXmlReport(
     xml += "    </system-out>\n";
   }
 
-  // Close the testsuite and testsuites tags
+  // Close the testsuite tag
   xml += "  </testsuite>\n";
-  xml += "</testsuites>";
 
   return xml;
 }
 
+/**
+ * Generate the properties of one token usage group
+ */
+function generateTokenUsageProperties(prefix: string, totals: TokenUsageReport["total"]): string {
+  let xml = `      <property name="${escapeXml(prefix)}.calls" value="${totals.calls}"/>\n`;
+  xml += `      <property name="${escapeXml(prefix)}.cachedCalls" value="${totals.cachedCalls}"/>\n`;
+  xml += `      <property name="${escapeXml(prefix)}.inputTokens" value="${totals.inputTokens}"/>\n`;
+  xml += `      <property name="${escapeXml(prefix)}.outputTokens" value="${totals.outputTokens}"/>\n`;
+  if (totals.cost !== null) {
+    xml += `      <property name="${escapeXml(prefix)}.estimatedCostUsd" value="${totals.cost.toFixed(6)}"/>\n`;
+  }
+  return xml;
+}
+
+/**
+ * Count failed test steps
+ */
+function countFailures(testSteps: any[]): number {
+  return testSteps.filter((step) => step.status === TEST_STATUS.FAILED).length;
+}
+
+/**
+ * Count test steps that never finished, were skipped or cancelled (reported as skipped)
+ */
+function countSkipped(testSteps: any[]): number {
+  return testSteps.filter(
+    (step) =>
+      step.status === TEST_STATUS.NOT_STARTED ||
+      step.status === TEST_STATUS.IN_PROGRESS ||
+      step.status === TEST_STATUS.SKIPPED ||
+      step.status === TEST_STATUS.CANCELLED
+  ).length;
+}
+
+/**
+ * Convert a duration in milliseconds to a JUnit time value in seconds
+ */
+function formatSeconds(durationMs: number | null): string {
+  return durationMs ? (durationMs / 1000).toFixed(3) : "0";
+}
+
 /**
  * Escape special characters for XML
  */
@@ -1,4 +1,14 @@
-import { TEST_STATUS } from "../schemas";
+import {
+  TEST_STATUS,
+  type StabilityReport,
+  type StepVerification,
+  type SuiteTestCaseReport,
+  type TokenUsageReport,
+  type TokenUsageTotals,
+} from "../schemas";
+import type { OperatorIntervention } from "../../intervention/schemas";
+import type { UsageRecord } from "../../../models/usage-tracker";
+import { estimateCost } from "../../../models/models";
 
 /**
  * Extract test execution history from messages
@@ -67,3 +77,160 @@ export function calculatePassRate(testSteps: any[]): number {
   );
   return Math.round((passedSteps.length / testSteps.length) * 100);
 }
+
+/**
+ * Compare the step outcomes and verifications of repeated runs of one test case.
+ * Steps are matched by id, a step missing from a run counts as not passed in that run.
+ */
+export function summarizeStability(
+  name: string,
+  runs: SuiteTestCaseReport[],
+  verifications: StepVerification[],
+  duration: number
+): StabilityReport {
+  const stepIds = [
+    ...new Set(runs.flatMap((run) => run.testSteps.map((step: any) => step.id as number))),
+  ].sort((a, b) => a - b);
+
+  const steps = stepIds.map((id) => {
+    const occurrences = runs.map((run) => run.testSteps.find((step: any) => step.id === id) || null);
+    const instructions = [
+      ...new Set(occurrences.filter(Boolean).map((step: any) => step.instruction as string)),
+    ];
+    const statuses = occurrences.map((step) => (step ? step.status : "missing"));
+    const stepVerifications = verifications
+      .filter((verification) => verification.stepId === id)
+      .map(({ stepId, ...verification }) => verification);
+
+    return {
+      id,
+      instruction: instructions[0],
+      instructions,
+      statuses,
+      passRate: calculatePassRate(
+        occurrences.map((step) => step || { status: TEST_STATUS.NOT_STARTED })
+      ),
+      flaky: new Set(statuses).size > 1,
+      verifications: stepVerifications,
+      inconsistentVerification:
+        new Set(stepVerifications.map((verification) => verification.result)).size > 1,
+    };
+  });
+
+  const stableSteps = steps.filter((step) => !step.flaky && !step.inconsistentVerification);
+
+  return {
+    name,
+    runs: runs.length,
+    passedRuns: runs.filter((run) => run.passed).length,
+    runPassRate: calculatePassRate(
+      runs.map((run) => ({ status: run.passed ? TEST_STATUS.PASSED : TEST_STATUS.FAILED }))
+    ),
+    stabilityScore:
+      steps.length > 0 ? Math.round((stableSteps.length / steps.length) * 100) : 0,
+    duration,
+    steps,
+    runResults: runs,
+  };
+}
+
+/**
+ * Describe an operator intervention in a single line for reports
+ */
+export function describeIntervention(intervention: OperatorIntervention): string {
+  const step = intervention.stepId !== null ? `Step ${intervention.stepId}` : "Unknown step";
+
+  switch (intervention.action) {
+    case "hint":
+      return `${step}: retried with operator hint "${intervention.hint || ""}"`;
+    case "skip":
+      return `${step}: skipped by operator`;
+    case "pass":
+      return `${step}: marked as passed by operator`;
+    case "abort":
+    default:
+      return `${step}: run aborted by operator`;
+  }
+}
+
+/**
+ * Summarize the token usage of a run by graph node and test step, with estimated costs
+ */
+export function summarizeTokenUsage(records: UsageRecord[]): TokenUsageReport | null {
+  if (records.length === 0) {
+    return null;
+  }
+
+  const byNode = new Map<string, UsageRecord[]>();
+  const byStep = new Map<number, UsageRecord[]>();
+
+  records.forEach((record) => {
+    byNode.set(record.node, [...(byNode.get(record.node) || []), record]);
+    if (record.stepId !== null) {
+      byStep.set(record.stepId, [...(byStep.get(record.stepId) || []), record]);
+    }
+  });
+
+  return {
+    total: sumTokenUsage("Total", records),
+    byNode: [...byNode.entries()].map(([node, nodeRecords]) =>
+      sumTokenUsage(node, nodeRecords)
+    ),
+    byStep: [...byStep.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([stepId, stepRecords]) => sumTokenUsage(`Step ${stepId}`, stepRecords)),
+  };
+}
+
+/**
+ * Describe token usage totals in a single line for reports
+ */
+export function describeTokenUsage(totals: TokenUsageTotals): string {
+  return (
+    `${totals.inputTokens.toLocaleString("en-US")} input / ` +
+    `${totals.outputTokens.toLocaleString("en-US")} output tokens in ${totals.calls} ` +
+    `call${totals.calls === 1 ? "" : "s"}` +
+    (totals.cachedCalls > 0 ? ` (${totals.cachedCalls} cached)` : "") +
+    `, ${formatCost(totals.cost)}`
+  );
+}
+
+/**
+ * Format an estimated cost in USD
+ */
+export function formatCost(cost: number | null): string {
+  return cost === null ? "cost unknown" : `~$${cost.toFixed(4)}`;
+}
+
+/**
+ * Add up the usage records of one group
+ */
+function sumTokenUsage(label: string, records: UsageRecord[]): TokenUsageTotals {
+  let cost: number | null = null;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  records.forEach((record) => {
+    inputTokens += record.inputTokens;
+    outputTokens += record.outputTokens;
+
+    const recordCost = estimateCost(
+      record.provider,
+      record.model,
+      record.inputTokens,
+      record.outputTokens
+    );
+    if (recordCost !== null) {
+      cost = (cost ?? 0) + recordCost;
+    }
+  });
+
+  return {
+    label,
+    calls: records.length,
+    cachedCalls: records.filter((record) => record.cached).length,
+    inputTokens,
+    outputTokens,
+    cost,
+  };
+}
@@ -3,4 +3,133 @@ export const TEST_STATUS = {
   FAILED: "failed",
   IN_PROGRESS: "in_progress",
   NOT_STARTED: "not_started",
+  SKIPPED: "skipped",
+  CANCELLED: "cancelled",
 } as const;
+
+/**
+ * Result of a single test case within an aggregated suite report
+ */
+export interface SuiteTestCaseReport {
+  name: string;
+  sessionId: string;
+  passed: boolean;
+  testSteps: any[];
+  testSummary: string | null;
+  testDuration: number | null;
+  lastError: string | null;
+  // Gherkin feature the test case is a scenario of, reported as one testcase of the feature
+  feature?: string;
+  // Why the test case was left out by the suite filters, reported as a skipped testcase
+  skipReason?: string;
+  // Fixture blocks run with the test case, reported as test suites of their own
+  fixtures?: Array<SuiteTestCaseReport & { phase: "setup" | "teardown" }>;
+}
+
+/**
+ * Token usage and estimated cost of a group of model calls
+ */
+export interface TokenUsageTotals {
+  label: string;
+  calls: number;
+  // Calls answered from the response cache, they use no tokens
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Estimated cost in USD, null when none of the models used has a known price
+  cost: number | null;
+}
+
+/**
+ * Token usage of a run, in total and broken down by graph node and test step
+ */
+export interface TokenUsageReport {
+  total: TokenUsageTotals;
+  byNode: TokenUsageTotals[];
+  byStep: TokenUsageTotals[];
+}
+
+/**
+ * A verification result of one step in one of the repeated runs
+ */
+export interface StepVerification {
+  run: number;
+  stepId: number | null;
+  result: "SUCCESS" | "FAILURE";
+  explanation: string;
+}
+
+/**
+ * Outcome of one step across repeated runs of a test case
+ */
+export interface StabilityStepReport {
+  id: number;
+  instruction: string;
+  // Every instruction the step was parsed as, more than one means parsing varied between runs
+  instructions: string[];
+  // Status of the step in each run, "missing" when a run did not parse the step
+  statuses: string[];
+  passRate: number;
+  // The step did not end with the same status in every run
+  flaky: boolean;
+  verifications: Array<Omit<StepVerification, "stepId">>;
+  // Verifications of the step both succeeded and failed across the runs
+  inconsistentVerification: boolean;
+}
+
+/**
+ * Stability of a test case run several times in fresh sessions
+ */
+export interface StabilityReport {
+  name: string;
+  runs: number;
+  passedRuns: number;
+  runPassRate: number;
+  // Percentage of steps with the same outcome and consistent verifications in every run
+  stabilityScore: number;
+  duration: number;
+  steps: StabilityStepReport[];
+  runResults: SuiteTestCaseReport[];
+}
+
+/**
+ * A problem found by the static checks of a test case
+ */
+export interface LintIssue {
+  rule:
+    | "invalid-test"
+    | "missing-url"
+    | "missing-expected-result"
+    | "ambiguous-verb"
+    | "multiple-actions"
+    | "rating-failed";
+  severity: "error" | "warning";
+  message: string;
+  // Step the issue was found in, absent for issues of the whole test case
+  step?: number;
+}
+
+/**
+ * Lint result of one test case
+ */
+export interface LintTestCaseReport {
+  name: string;
+  filePath: string;
+  // Quality rating from 1 to 10, null when rating was skipped or failed
+  score: number | null;
+  improvementSuggestions: string | null;
+  issues: LintIssue[];
+  // No errors were found and the score is not below the minimum score
+  passed: boolean;
+}
+
+/**
+ * Lint results of a set of test cases
+ */
+export interface LintReport {
+  minScore: number | null;
+  testCases: LintTestCaseReport[];
+  errors: number;
+  warnings: number;
+  failed: number;
+}
@@ -194,6 +194,11 @@ export const htmlStyles = `
             color: white;
         }
         
+        .badge-warning {
+            background-color: var(--warning);
+            color: white;
+        }
+        
         .status-icon {
             display: inline-block;
             width: 1.5rem;
@@ -214,6 +219,10 @@ export const htmlStyles = `
             background-color: var(--danger);
         }
         
+        .status-skipped {
+            background-color: var(--warning);
+        }
+        
         .test-log {
             background-color: #f8f9fa;
             border-radius: 0.25rem;
@@ -0,0 +1,90 @@
+import { AIMessage, type ToolMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import { GraphStateType } from "../../graph/graph";
+import { ALL_TOOLS } from "../../../tools";
+import { RunEvents } from "../../events/run-events";
+import {
+  parseStoredVariable,
+  substituteVariablesInArgs,
+  type RuntimeVariables,
+} from "../../../common/utils/runtime-variables";
+
+const toolNode = new ToolNode(ALL_TOOLS);
+
+/**
+ * Runs the tool calls of the last model response and publishes their results as run events.
+ * ${name} references in the tool arguments are filled from the runtime variables, and
+ * values read by the storeVariable tool are added to them.
+ */
+export const executeToolsNode = async (
+  state: GraphStateType,
+  config?: RunnableConfig
+) => {
+  const result: { messages: ToolMessage[] } = await toolNode.invoke(
+    withVariablesFilled(state),
+    config
+  );
+
+  const variables: RuntimeVariables = {};
+  for (const message of result.messages) {
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : JSON.stringify(message.content);
+
+    RunEvents.emit(state.sessionId, {
+      type: "tool_result",
+      toolCallId: message.tool_call_id,
+      name: message.name || "unknown",
+      content,
+      status: message.status === "error" || isFailedToolResult(content) ? "error" : "success",
+    });
+
+    const stored = message.name === "storeVariable" ? parseStoredVariable(content) : null;
+    if (stored) {
+      variables[stored.name] = stored.value;
+      RunEvents.emit(state.sessionId, { type: "variable_stored", ...stored });
+    }
+  }
+
+  return Object.keys(variables).length > 0 ? { ...result, variables } : result;
+};
+
+/**
+ * Fill the variable references of the pending tool calls. The checkpointed messages keep
+ * the references, so recorded actions and generated scripts do not hard-code the values.
+ */
+function withVariablesFilled(state: GraphStateType): GraphStateType {
+  const variables = state.variables || {};
+  const lastMessage = state.messages[state.messages.length - 1] as AIMessage | undefined;
+  if (Object.keys(variables).length === 0 || !lastMessage?.tool_calls?.length) {
+    return state;
+  }
+
+  const filledMessage = new AIMessage({
+    id: lastMessage.id,
+    content: lastMessage.content,
+    tool_calls: lastMessage.tool_calls.map((toolCall) => ({
+      ...toolCall,
+      args: substituteVariablesInArgs(toolCall.args, variables),
+    })),
+  });
+
+  return { ...state, messages: [...state.messages.slice(0, -1), filledMessage] };
+}
+
+/**
+ * Tools report failures as {"success": false, ...}, the tool node as "Error: ..."
+ */
+function isFailedToolResult(content: string): boolean {
+  if (content.startsWith("Error:")) {
+    return true;
+  }
+
+  try {
+    return JSON.parse(content)?.success === false;
+  } catch {
+    return false;
+  }
+}
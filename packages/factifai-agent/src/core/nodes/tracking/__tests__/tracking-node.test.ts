@@ -0,0 +1,84 @@
+import type { GraphStateType } from "../../../graph/graph";
+import { RunEvents, type RunEvent } from "../../../events/run-events";
+import { enhancedLogger } from "../../../../common/services/console-display-service";
+import { skipStepsAfterFailure, trackAndUpdateStepsNode } from "../tracking-node";
+
+type TestStep = GraphStateType["testSteps"][number];
+
+const SESSION_ID = "factifai-session-tracking";
+
+const step = (id: number, status: TestStep["status"], notes = ""): TestStep => ({
+  id,
+  instruction: `Instruction ${id}`,
+  status,
+  notes,
+});
+
+describe("skipStepsAfterFailure", () => {
+  it("skips the unfinished steps and names the failed step", () => {
+    const testSteps = [
+      step(1, "passed"),
+      step(2, "failed", "The button was missing"),
+      step(3, "in_progress"),
+      step(4, "not_started"),
+    ];
+
+    expect(skipStepsAfterFailure(SESSION_ID, testSteps)).toEqual([
+      step(1, "passed"),
+      step(2, "failed", "The button was missing"),
+      step(3, "skipped", 'Skipped: step 2 ("Instruction 2") failed'),
+      step(4, "skipped", 'Skipped: step 2 ("Instruction 2") failed'),
+    ]);
+  });
+
+  it.each([
+    ["no step failed", [step(1, "passed"), step(2, "not_started")]],
+    ["every step finished", [step(1, "passed"), step(2, "failed"), step(3, "skipped")]],
+  ])("keeps the steps when %s", (_, testSteps) => {
+    expect(skipStepsAfterFailure(SESSION_ID, testSteps)).toBe(testSteps);
+  });
+
+  it("emits a step event for every skipped step", () => {
+    const events: RunEvent[] = [];
+    const unsubscribe = RunEvents.subscribe(SESSION_ID, (event) => events.push(event));
+
+    try {
+      skipStepsAfterFailure(SESSION_ID, [step(1, "failed"), step(2, "not_started")]);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: "step_status_changed", stepId: 2, previousStatus: "not_started", status: "skipped" }),
+    ]);
+  });
+});
+
+describe("trackAndUpdateStepsNode in step-by-step mode", () => {
+  beforeEach(() => {
+    jest.spyOn(enhancedLogger, "trackAction").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const track = (testSteps: TestStep[], isComplete: boolean) =>
+    trackAndUpdateStepsNode({
+      sessionId: SESSION_ID,
+      stepByStep: true,
+      isComplete,
+      testSteps,
+      messages: [],
+    } as unknown as GraphStateType);
+
+  it("skips the steps after a failed step when the run completes", async () => {
+    await expect(track([step(1, "failed"), step(2, "not_started")], true)).resolves.toEqual({
+      testSteps: [step(1, "failed"), step(2, "skipped", 'Skipped: step 1 ("Instruction 1") failed')],
+    });
+  });
+
+  it("leaves the steps to the execution node while the run goes on", async () => {
+    await expect(track([step(1, "passed"), step(2, "in_progress")], false)).resolves.toEqual({});
+  });
+});
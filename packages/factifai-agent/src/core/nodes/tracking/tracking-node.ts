@@ -6,6 +6,8 @@ import { logger } from "../../../common/utils/logger";
 import { getModel } from "../../models/models";
 import { enhancedLogger } from "../../../common/services/console-display-service";
 import { formatDuration } from "../../../common/utils/time-utils";
+import { UsageTracker } from "../../models/usage-tracker";
+import { RunEvents } from "../../events/run-events";
 
 /**
  * This node uses LLM to analyze current execution state and update test steps status
@@ -22,6 +24,11 @@ export const trackAndUpdateStepsNode = async ({
   testSteps = [],
   messages = [],
   testStartTime,
+  interventions = [],
+  sessionId,
+  abortReason,
+  cancelled,
+  stepByStep,
 }: GraphStateType) => {
   // Create a timestamp for logging
   const timestamp = new Date().toISOString();
@@ -31,6 +38,35 @@ export const trackAndUpdateStepsNode = async ({
     return {};
   }
 
+  // The run stopped early, unfinished steps are skipped or cancelled without asking the model
+  if (abortReason) {
+    return skipUnfinishedSteps(
+      sessionId,
+      testSteps,
+      abortReason,
+      cancelled ? "cancelled" : "skipped"
+    );
+  }
+
+  // The budget ran out mid-run, the execution node stops the run and the final tracking marks the steps
+  if (UsageTracker.getExceededBudget(sessionId)) {
+    return {};
+  }
+
+  // In step-by-step mode the execution node decides each step from its own verification
+  if (stepByStep) {
+    // A failed or aborted step ends the run, the steps after it never run
+    const updatedTestSteps = isComplete ? skipStepsAfterFailure(sessionId, testSteps) : testSteps;
+    displayTrackingProgress(updatedTestSteps, {
+      retryCount,
+      maxRetries,
+      retryAction,
+      lastAction,
+      testStartTime,
+    });
+    return updatedTestSteps === testSteps ? {} : { testSteps: updatedTestSteps };
+  }
+
   try {
     // Extract recent messages for analysis (limit to last 10 for efficiency)
     const recentMessages = messages.slice(-10);
@@ -86,6 +122,7 @@ export const trackAndUpdateStepsNode = async ({
        2. "in_progress" - Step is currently being executed
        3. "passed" - Step was executed successfully (verified or completed without errors)
        4. "failed" - Step failed after retries or encountered an error
+       5. "skipped" - Step was skipped by the operator or because the run stopped early
        
        IMPORTANT: Verification results (SUCCESS/FAILURE) take precedence over all other signals, even if there are no tool calls.
        When a verification result is present, it is the definitive source of truth about whether a step passed or failed.
@@ -158,7 +195,7 @@ export const trackAndUpdateStepsNode = async ({
         z.object({
           id: z.number().describe("Step ID"),
           status: z
-            .enum(["not_started", "in_progress", "passed", "failed"])
+            .enum(["not_started", "in_progress", "passed", "failed", "skipped"])
             .describe("Updated status of this step"),
           notes: z
             .string()
@@ -170,7 +207,7 @@ export const trackAndUpdateStepsNode = async ({
     });
 
     // Use a model with fast inference for real-time updates
-    const model = getModel(false, 16000).withStructuredOutput(outputSchema);
+    const model = getModel(false, 16000, "track").withStructuredOutput(outputSchema);
 
     // Generate the step updates
     const analysisResult = await model.invoke([systemPrompt, userMessage]);
@@ -197,7 +234,8 @@ export const trackAndUpdateStepsNode = async ({
           );
           return {
             id: originalStep.id,
-            status: originalStep.status,
+            // Cancelled steps only exist after the run stopped, when tracking no longer asks the model
+            status: originalStep.status as Exclude<typeof originalStep.status, "cancelled">,
             notes: originalStep.notes,
           };
         }
@@ -208,6 +246,13 @@ export const trackAndUpdateStepsNode = async ({
       analysisResult.updatedSteps = completeUpdates;
     }
 
+    // Steps the operator skipped or passed manually keep their status
+    const operatorDecidedStepIds = new Set(
+      interventions
+        .filter((intervention) => intervention.action === "skip" || intervention.action === "pass")
+        .map((intervention) => intervention.stepId)
+    );
+
     // Update test steps with the results
     const updatedTestSteps = testSteps.map((originalStep) => {
       // Add defensive check
@@ -215,6 +260,10 @@ export const trackAndUpdateStepsNode = async ({
         return originalStep; // Keep original if we have issues
       }
 
+      if (operatorDecidedStepIds.has(originalStep.id)) {
+        return originalStep;
+      }
+
       const updatedInfo = analysisResult.updatedSteps.find(
         (updated) => updated && updated.id === originalStep.id
       );
@@ -239,124 +288,16 @@ export const trackAndUpdateStepsNode = async ({
       return originalStep;
     });
 
-    // ==========================================
-    // Generate track action display content
-    // ==========================================
-
-    const displayContent = [];
-
-    // Start with a separator line
-    displayContent.push(chalk.dim("─".repeat(process.stdout.columns || 80)));
-
-    // Add retry information if applicable
-    if (retryCount > 0) {
-      displayContent.push(
-        chalk.cyan(
-          `RETRY: Attempt ${retryCount}/${maxRetries} for action "${
-            retryAction || lastAction
-          }"`
-        )
-      );
-
-      // Visual retry indicator
-      const retryBar = Array(maxRetries)
-        .fill("□")
-        .map((char, index) => (index < retryCount ? "■" : char))
-        .join(" ");
-      displayContent.push(chalk.cyan(`RETRY PROGRESS: [${retryBar}]`));
-    }
-
-    // Count status totals
-    const counts = {
-      passed: updatedTestSteps.filter((s) => s.status === "passed").length,
-      failed: updatedTestSteps.filter((s) => s.status === "failed").length,
-      inProgress: updatedTestSteps.filter((s) => s.status === "in_progress")
-        .length,
-      notStarted: updatedTestSteps.filter((s) => s.status === "not_started")
-        .length,
-    };
-
-    // Calculate completion percentage
-    const totalSteps = updatedTestSteps.length;
-    const completionPercent = Math.round((counts.passed / totalSteps) * 100);
-
-    // Calculate elapsed time if test start time is available
-    let elapsedTimeDisplay = "";
-    if (testStartTime) {
-      const currentTime = Date.now();
-      const elapsedMs = currentTime - testStartTime;
-      elapsedTimeDisplay = chalk.cyan(`🕒 Elapsed: ${formatDuration(elapsedMs)}`);
-    }
-
-    // Create enhanced progress stats line
-    displayContent.push(
-      chalk.bold(`Test Progress: ${completionPercent}% complete`) +
-        chalk.gray(` [`) +
-        chalk.green(`${counts.passed} ✓`) +
-        chalk.gray(` | `) +
-        chalk.red(`${counts.failed} ✗`) +
-        chalk.gray(` | `) +
-        chalk.blue(`${counts.inProgress} ◉`) +
-        chalk.gray(` | `) +
-        chalk.gray(`${counts.notStarted} ○`) +
-        chalk.gray(`]`) +
-        (elapsedTimeDisplay ? ` ${elapsedTimeDisplay}` : "")
-    );
+    RunEvents.emitStepChanges(sessionId, testSteps, updatedTestSteps);
 
-    // Progress bar
-    const progressBar = updatedTestSteps
-      .map((step) => {
-        if (step.status === "passed") return chalk.green("■");
-        if (step.status === "failed") return chalk.red("■");
-        if (step.status === "in_progress") return chalk.blue("■");
-        return chalk.gray("□");
-      })
-      .join("");
-
-    displayContent.push(progressBar);
-
-    // Display test steps with status indicators
-    updatedTestSteps.forEach((step) => {
-      let statusIcon = "○"; // not started
-      let statusColor = chalk.gray;
-
-      if (step.status === "in_progress") {
-        statusIcon = "◉"; // in progress
-        statusColor = chalk.blue;
-      } else if (step.status === "passed") {
-        statusIcon = "✓"; // passed
-        statusColor = chalk.green;
-      } else if (step.status === "failed") {
-        statusIcon = "✗"; // failed
-        statusColor = chalk.red;
-      }
-
-      const isCurrentStep = step.status === "in_progress";
-      const stepText = `${statusIcon} Step ${
-        step.id
-      }: ${step.instruction.substring(0, 60)}${
-        step.instruction.length > 60 ? "..." : ""
-      }`;
-
-      // Highlight the current step
-      displayContent.push(
-        isCurrentStep
-          ? chalk.bold(statusColor(stepText))
-          : statusColor(stepText)
-      );
-
-      // Show notes for the current/failed steps
-      if ((isCurrentStep || step.status === "failed") && step.notes) {
-        displayContent.push(chalk.gray(`   └─ ${step.notes}`));
-      }
+    displayTrackingProgress(updatedTestSteps, {
+      retryCount,
+      maxRetries,
+      retryAction,
+      lastAction,
+      testStartTime,
     });
 
-    // Add a bottom separator line
-    displayContent.push(chalk.dim("─".repeat(process.stdout.columns || 80)));
-
-    // Update the track action display
-    enhancedLogger.trackAction(displayContent);
-
     // Return the updated test steps
     return {
       testSteps: updatedTestSteps,
@@ -399,3 +340,219 @@ export const trackAndUpdateStepsNode = async ({
     return {};
   }
 };
+
+/**
+ * Display the progress of the test steps in place of the previous tracking output
+ */
+function displayTrackingProgress(
+  updatedTestSteps: GraphStateType["testSteps"],
+  {
+    retryCount,
+    maxRetries,
+    retryAction,
+    lastAction,
+    testStartTime,
+  }: Pick<
+    GraphStateType,
+    "retryCount" | "maxRetries" | "retryAction" | "lastAction" | "testStartTime"
+  >
+): void {
+  // ==========================================
+  // Generate track action display content
+  // ==========================================
+
+  const displayContent = [];
+
+  // Start with a separator line
+  displayContent.push(chalk.dim("─".repeat(process.stdout.columns || 80)));
+
+  // Add retry information if applicable
+  if (retryCount > 0) {
+    displayContent.push(
+      chalk.cyan(
+        `RETRY: Attempt ${retryCount}/${maxRetries} for action "${
+          retryAction || lastAction
+        }"`
+      )
+    );
+
+    // Visual retry indicator
+    const retryBar = Array(maxRetries)
+      .fill("□")
+      .map((char, index) => (index < retryCount ? "■" : char))
+      .join(" ");
+    displayContent.push(chalk.cyan(`RETRY PROGRESS: [${retryBar}]`));
+  }
+
+  // Count status totals
+  const counts = {
+    passed: updatedTestSteps.filter((s) => s.status === "passed").length,
+    failed: updatedTestSteps.filter((s) => s.status === "failed").length,
+    inProgress: updatedTestSteps.filter((s) => s.status === "in_progress")
+      .length,
+    notStarted: updatedTestSteps.filter((s) => s.status === "not_started")
+      .length,
+  };
+
+  // Calculate completion percentage
+  const totalSteps = updatedTestSteps.length;
+  const completionPercent = Math.round((counts.passed / totalSteps) * 100);
+
+  // Calculate elapsed time if test start time is available
+  let elapsedTimeDisplay = "";
+  if (testStartTime) {
+    const currentTime = Date.now();
+    const elapsedMs = currentTime - testStartTime;
+    elapsedTimeDisplay = chalk.cyan(`🕒 Elapsed: ${formatDuration(elapsedMs)}`);
+  }
+
+  // Create enhanced progress stats line
+  displayContent.push(
+    chalk.bold(`Test Progress: ${completionPercent}% complete`) +
+      chalk.gray(` [`) +
+      chalk.green(`${counts.passed} ✓`) +
+      chalk.gray(` | `) +
+      chalk.red(`${counts.failed} ✗`) +
+      chalk.gray(` | `) +
+      chalk.blue(`${counts.inProgress} ◉`) +
+      chalk.gray(` | `) +
+      chalk.gray(`${counts.notStarted} ○`) +
+      chalk.gray(`]`) +
+      (elapsedTimeDisplay ? ` ${elapsedTimeDisplay}` : "")
+  );
+
+  // Progress bar
+  const progressBar = updatedTestSteps
+    .map((step) => {
+      if (step.status === "passed") return chalk.green("■");
+      if (step.status === "failed") return chalk.red("■");
+      if (step.status === "in_progress") return chalk.blue("■");
+      return chalk.gray("□");
+    })
+    .join("");
+
+  displayContent.push(progressBar);
+
+  // Display test steps with status indicators
+  updatedTestSteps.forEach((step) => {
+    let statusIcon = "○"; // not started
+    let statusColor = chalk.gray;
+
+    if (step.status === "in_progress") {
+      statusIcon = "◉"; // in progress
+      statusColor = chalk.blue;
+    } else if (step.status === "passed") {
+      statusIcon = "✓"; // passed
+      statusColor = chalk.green;
+    } else if (step.status === "failed") {
+      statusIcon = "✗"; // failed
+      statusColor = chalk.red;
+    } else if (step.status === "skipped") {
+      statusIcon = "⤼"; // skipped
+      statusColor = chalk.yellow;
+    } else if (step.status === "cancelled") {
+      statusIcon = "⊘"; // cancelled
+      statusColor = chalk.yellow;
+    }
+
+    const isCurrentStep = step.status === "in_progress";
+    const stepText = `${statusIcon} Step ${
+      step.id
+    }: ${step.instruction.substring(0, 60)}${
+      step.instruction.length > 60 ? "..." : ""
+    }`;
+
+    // Highlight the current step
+    displayContent.push(
+      isCurrentStep
+        ? chalk.bold(statusColor(stepText))
+        : statusColor(stepText)
+    );
+
+    // Show notes for the current/failed steps
+    if ((isCurrentStep || step.status === "failed") && step.notes) {
+      displayContent.push(chalk.gray(`   └─ ${step.notes}`));
+    }
+  });
+
+  // Add a bottom separator line
+  displayContent.push(chalk.dim("─".repeat(process.stdout.columns || 80)));
+
+  // Update the track action display
+  enhancedLogger.trackAction(displayContent);
+}
+
+/**
+ * Mark the steps left unfinished by a failed step as skipped, their notes name the failed step
+ * @returns The updated steps, or the same array when no step failed or none is unfinished
+ */
+export function skipStepsAfterFailure(
+  sessionId: string,
+  testSteps: GraphStateType["testSteps"]
+): GraphStateType["testSteps"] {
+  const failedStep = testSteps.find((step) => step.status === "failed");
+  const isUnfinished = (step: GraphStateType["testSteps"][number]) =>
+    step.status === "not_started" || step.status === "in_progress";
+  if (!failedStep || !testSteps.some(isUnfinished)) {
+    return testSteps;
+  }
+
+  const updatedTestSteps = testSteps.map((step) => {
+    if (!isUnfinished(step)) {
+      return step;
+    }
+
+    logger.appendToFile(`Test step ${step.id} status changed: ${step.status} -> skipped`);
+    return {
+      ...step,
+      status: "skipped" as const,
+      notes: `Skipped: step ${failedStep.id} ("${failedStep.instruction}") failed`,
+    };
+  });
+
+  RunEvents.emitStepChanges(sessionId, testSteps, updatedTestSteps);
+  return updatedTestSteps;
+}
+
+/**
+ * Mark every step that has not passed or failed as skipped, or cancelled, when the run stopped early
+ */
+function skipUnfinishedSteps(
+  sessionId: string,
+  testSteps: GraphStateType["testSteps"],
+  abortReason: string,
+  status: "skipped" | "cancelled"
+) {
+  const updatedTestSteps = testSteps.map((step) => {
+    if (step.status !== "not_started" && step.status !== "in_progress") {
+      return step;
+    }
+
+    logger.appendToFile(
+      `Test step ${step.id} status changed: ${step.status} -> ${status}`
+    );
+    return {
+      ...step,
+      status,
+      // The reason of a cancelled run already says so
+      notes: status === "cancelled" ? abortReason : `Skipped: ${abortReason}`,
+    };
+  });
+
+  const skippedCount = updatedTestSteps.filter(
+    (step, index) => step !== testSteps[index]
+  ).length;
+  RunEvents.emitStepChanges(sessionId, testSteps, updatedTestSteps);
+
+  enhancedLogger.trackAction([
+    chalk.dim("─".repeat(process.stdout.columns || 80)),
+    chalk.bold.yellow("RUN STOPPED EARLY"),
+    chalk.yellow(abortReason),
+    chalk.gray(`${skippedCount} unfinished step(s) marked as ${status}`),
+    chalk.dim("─".repeat(process.stdout.columns || 80)),
+  ]);
+
+  return {
+    testSteps: updatedTestSteps,
+  };
+}
@@ -0,0 +1,43 @@
+import { executeWithFixtures } from "../fixture-runner";
+import { runRepeated } from "../repeat-runner";
+
+jest.mock("../fixture-runner", () => ({ executeWithFixtures: jest.fn() }));
+
+describe("runRepeated", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records a run that throws as failed and still runs the others", async () => {
+    jest
+      .mocked(executeWithFixtures)
+      .mockRejectedValueOnce(new Error("Browser crashed"))
+      .mockResolvedValueOnce({
+        success: true,
+        testSteps: [{ id: 1, instruction: "Open the page", status: "passed", notes: "" }],
+        testSummary: null,
+        testDuration: 1000,
+      } as Awaited<ReturnType<typeof executeWithFixtures>>);
+
+    const result = await runRepeated("Open the page", "factifai-repeat-throws", {
+      repeat: 2,
+      noReport: true,
+    });
+
+    expect(executeWithFixtures).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.report).toMatchObject({ runs: 2, passedRuns: 1 });
+    expect(result.report.runResults[0]).toMatchObject({
+      name: "Run 1",
+      sessionId: "factifai-repeat-throws-run-1",
+      passed: false,
+      testSteps: [],
+      lastError: "Browser crashed",
+    });
+  });
+});
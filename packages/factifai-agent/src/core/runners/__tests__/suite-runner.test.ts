@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { executeBrowserTask } from "../../../index";
+import { runTestSuite } from "../suite-runner";
+
+jest.mock("../../../index", () => ({ executeBrowserTask: jest.fn() }));
+
+const testCase = (name: string) => ({
+  id: name.toLowerCase(),
+  name,
+  filePath: `/suite/${name.toLowerCase()}.txt`,
+  instruction: `Run ${name}`,
+});
+
+describe("runTestSuite", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "factifai-suite-"));
+    jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("records a test case that throws as failed and still reports the others", async () => {
+    jest
+      .mocked(executeBrowserTask)
+      .mockRejectedValueOnce(new Error("Browser crashed"))
+      .mockResolvedValueOnce({
+        success: true,
+        testSteps: [{ id: 1, instruction: "Open the page", status: "passed", notes: "" }],
+        testSummary: null,
+        testDuration: 1000,
+      } as Awaited<ReturnType<typeof executeBrowserTask>>);
+
+    const result = await runTestSuite([testCase("Checkout"), testCase("Login")], {
+      suiteId: "factifai-suite-throws",
+      suiteName: "Throws",
+      reportFormat: "xml",
+    });
+
+    expect(result).toMatchObject({ success: false, total: 2, passed: 1, failed: 1 });
+    expect(result.testCases[0]).toMatchObject({
+      name: "Checkout",
+      passed: false,
+      testSteps: [],
+      lastError: "Browser crashed",
+    });
+    const xml = fs.readFileSync(result.reportPaths[0], "utf8");
+    expect(xml).toContain('<testsuites name="Throws" tests="2" failures="1"');
+    expect(xml).toContain('<failure message="Browser crashed" type="Error">');
+  });
+});
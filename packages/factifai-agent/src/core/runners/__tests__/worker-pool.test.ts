@@ -0,0 +1,48 @@
+import { runWithWorkerPool } from "../worker-pool";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("runWithWorkerPool", () => {
+  it("returns the results in the order of the items when tasks finish out of order", async () => {
+    const finished: number[] = [];
+
+    const results = await runWithWorkerPool([30, 5, 20, 1], 4, async (ms, index) => {
+      await delay(ms);
+      finished.push(index);
+      return `item-${index}`;
+    });
+
+    expect(finished).not.toEqual([0, 1, 2, 3]);
+    expect(results).toEqual(["item-0", "item-1", "item-2", "item-3"]);
+  });
+
+  it("runs at most `workers` tasks at once", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runWithWorkerPool(Array.from({ length: 6 }, (_, index) => index), 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it.each([0, -1, Number.NaN])("runs the items one at a time with %p workers", async (workers) => {
+    const order: number[] = [];
+
+    const results = await runWithWorkerPool([1, 2, 3], workers, async (item) => {
+      order.push(item);
+      return item * 2;
+    });
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(results).toEqual([2, 4, 6]);
+  });
+
+  it("returns an empty list for no items", async () => {
+    await expect(runWithWorkerPool([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
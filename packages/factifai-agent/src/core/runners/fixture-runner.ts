@@ -0,0 +1,298 @@
+import chalk from "chalk";
+import figures from "figures";
+import boxen from "boxen";
+import { BrowserService } from "@presidio-dev/playwright-core";
+import { executeBrowserTask } from "../../index";
+import { logger } from "../../common/utils/logger";
+import { formatDuration } from "../../common/utils/time-utils";
+import type { RuntimeVariables } from "../../common/utils/runtime-variables";
+import type { GraphStateType } from "../graph/graph";
+import { TEST_STATUS } from "../nodes/reporting/schemas";
+import {
+  DEFAULT_FIXTURES_DIR,
+  hasFixtureDirectives,
+  loadFixture,
+  parseFixtureDirectives,
+  type FixtureDefinition,
+} from "../loaders/fixture-loader";
+
+type TaskOptions = NonNullable<Parameters<typeof executeBrowserTask>[2]>;
+type TaskResult = {
+  success: boolean;
+  error?: string | null;
+  testSteps?: GraphStateType["testSteps"];
+  testSummary?: string | null;
+  testDuration?: number | null;
+  variables?: RuntimeVariables;
+};
+
+/**
+ * Options for running a test with its fixtures
+ */
+export type FixtureRunOptions = TaskOptions & {
+  /** Folder that holds the fixture files (default "fixtures") */
+  fixturesDir?: string;
+};
+
+/**
+ * Result of one fixture block, run in its own session on the page of the test
+ */
+export interface FixturePhaseResult {
+  /** Fixture name, or null for the teardown block of the test itself */
+  fixture: string | null;
+  phase: "setup" | "teardown";
+  sessionId: string;
+  success: boolean;
+  testSteps: GraphStateType["testSteps"];
+  testSummary: string | null;
+  testDuration: number | null;
+  error?: string | null;
+}
+
+/**
+ * Result of a test run with its fixtures
+ */
+export type FixtureRunResult = TaskResult & {
+  fixtures: FixturePhaseResult[];
+};
+
+type PlannedPhase = {
+  fixture: string | null;
+  phase: FixturePhaseResult["phase"];
+  instruction: string;
+  /** File the instruction was read from, for @include paths */
+  sourcePath?: string;
+};
+
+/**
+ * Run a test instruction with the fixtures it references. Setup fixtures (`@use name`) run
+ * first, then the test, then the teardown blocks, which run even if a setup or the test
+ * failed. Every block runs in its own session and report on the page of the test session,
+ * so failures are attributed to the fixture or the test they happened in.
+ * An instruction without fixture directives runs as a plain executeBrowserTask.
+ * @param instruction The test instruction, including its fixture directives
+ * @param sessionId The session ID of the test
+ * @param options Task options, applied to the test and every fixture block
+ */
+export const executeWithFixtures = async (
+  instruction: string,
+  sessionId: string,
+  options: FixtureRunOptions = {}
+): Promise<FixtureRunResult> => {
+  const { fixturesDir = DEFAULT_FIXTURES_DIR, ...taskOptions } = options;
+  const directives = parseFixtureDirectives(instruction);
+
+  if (!hasFixtureDirectives(directives)) {
+    return { ...(await executeBrowserTask(instruction, sessionId, taskOptions)), fixtures: [] };
+  }
+
+  // Fail before opening the browser when a fixture is missing
+  let setups: FixtureDefinition[];
+  let teardownFixtures: FixtureDefinition[];
+  try {
+    setups = directives.use.map((name) => loadFixture(name, fixturesDir));
+    teardownFixtures = directives.teardownFixtures.map((name) => loadFixture(name, fixturesDir));
+  } catch (error) {
+    return {
+      ...failedResult(error instanceof Error ? error.message : String(error)),
+      fixtures: [],
+    };
+  }
+
+  const browserService = BrowserService.getInstance();
+  if (taskOptions.existingPage) {
+    await browserService.setExternalPage(sessionId, taskOptions.existingPage);
+  }
+
+  const fixtures: FixturePhaseResult[] = [];
+  const startedSetups: FixtureDefinition[] = [];
+  let result: TaskResult | null = null;
+
+  for (const fixture of setups) {
+    startedSetups.push(fixture);
+    const phase = await runFixturePhase(
+      { fixture: fixture.name, phase: "setup", instruction: fixture.setup, sourcePath: fixture.filePath },
+      sessionId,
+      taskOptions
+    );
+    fixtures.push(phase);
+
+    if (!phase.success) {
+      result = failedResult(
+        `Setup fixture "${fixture.name}" failed${phase.error ? `: ${phase.error}` : ""}`
+      );
+      break;
+    }
+  }
+
+  if (!result) {
+    result = await executeBrowserTask(directives.instruction, sessionId, {
+      ...taskOptions,
+      existingPage: undefined,
+    });
+  }
+
+  // Teardowns of the test first, then those of the fixtures in reverse order of setup
+  const teardowns: PlannedPhase[] = [
+    ...(directives.teardown
+      ? [
+          {
+            fixture: null,
+            phase: "teardown" as const,
+            instruction: directives.teardown,
+            sourcePath: taskOptions.sourcePath,
+          },
+        ]
+      : []),
+    ...teardownFixtures.map((fixture) => ({
+      fixture: fixture.name,
+      phase: "teardown" as const,
+      instruction: fixture.setup,
+      sourcePath: fixture.filePath,
+    })),
+    ...startedSetups
+      .filter((fixture) => fixture.teardown)
+      .reverse()
+      .map((fixture) => ({
+        fixture: fixture.name,
+        phase: "teardown" as const,
+        instruction: fixture.teardown as string,
+        sourcePath: fixture.filePath,
+      })),
+  ];
+
+  for (const teardown of teardowns) {
+    if (taskOptions.signal?.aborted) {
+      logger.warn(`Run cancelled, skipping the remaining teardown blocks of session ${sessionId}`);
+      break;
+    }
+    fixtures.push(await runFixturePhase(teardown, sessionId, taskOptions));
+  }
+
+  displayFixtureSummary(sessionId, result, fixtures);
+
+  const failedFixture = fixtures.find((phase) => !phase.success);
+  return {
+    ...result,
+    success: result.success && !failedFixture,
+    ...(result.success &&
+      failedFixture && {
+        error: `${describePhase(failedFixture)} failed${failedFixture.error ? `: ${failedFixture.error}` : ""}`,
+      }),
+    fixtures,
+  };
+};
+
+/**
+ * Run one fixture block in its own session on the current page of the test session
+ */
+async function runFixturePhase(
+  planned: PlannedPhase,
+  testSessionId: string,
+  options: TaskOptions
+): Promise<FixturePhaseResult> {
+  const sessionId = [testSessionId, planned.phase, planned.fixture]
+    .filter(Boolean)
+    .join("-");
+  const browserService = BrowserService.getInstance();
+
+  console.log(chalk.bold.blue(`\n${figures.pointer} Running ${describePhase(planned)}`));
+
+  try {
+    const page = await browserService.getPage(testSessionId);
+    const result = await executeBrowserTask(planned.instruction, sessionId, {
+      ...options,
+      existingPage: page,
+      sourcePath: planned.sourcePath,
+    });
+
+    return {
+      fixture: planned.fixture,
+      phase: planned.phase,
+      sessionId,
+      success:
+        result.success &&
+        (result.testSteps || []).length > 0 &&
+        (result.testSteps || []).every((step: any) => step.status === TEST_STATUS.PASSED),
+      testSteps: result.testSteps || [],
+      testSummary: result.testSummary || null,
+      testDuration: result.testDuration || null,
+      error: result.error || null,
+    };
+  } catch (error) {
+    return {
+      fixture: planned.fixture,
+      phase: planned.phase,
+      sessionId,
+      success: false,
+      testSteps: [],
+      testSummary: null,
+      testDuration: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    // The page belongs to the test session, this only releases the fixture session
+    await browserService.closePage(sessionId);
+  }
+}
+
+/**
+ * Name a fixture block for logs and reports, e.g. 'setup fixture "login-as-admin"'
+ */
+export function describePhase(phase: Pick<FixturePhaseResult, "fixture" | "phase">): string {
+  return phase.fixture ? `${phase.phase} fixture "${phase.fixture}"` : `${phase.phase} block`;
+}
+
+/**
+ * The result of a test that could not run
+ */
+function failedResult(error: string): TaskResult {
+  return {
+    success: false,
+    error,
+    testSteps: [],
+    testSummary: null,
+    testDuration: null,
+    variables: {},
+  };
+}
+
+/**
+ * Display which fixture blocks and the test itself passed
+ */
+function displayFixtureSummary(
+  sessionId: string,
+  result: TaskResult,
+  fixtures: FixturePhaseResult[]
+): void {
+  const line = (label: string, success: boolean, duration: number | null, error?: string | null) =>
+    success
+      ? chalk.green(`${figures.tick} ${label}${duration ? ` (${formatDuration(duration)})` : ""}`)
+      : chalk.red(`${figures.cross} ${label}${error ? ` - ${error}` : ""}`);
+
+  const setups = fixtures.filter((phase) => phase.phase === "setup");
+  const teardowns = fixtures.filter((phase) => phase.phase === "teardown");
+  const setupFailed = setups.some((phase) => !phase.success);
+
+  const lines = [
+    ...setups.map((phase) =>
+      line(describePhase(phase), phase.success, phase.testDuration, phase.error)
+    ),
+    setupFailed
+      ? chalk.yellow(`${figures.arrowRight} test skipped`)
+      : line("test", result.success, result.testDuration ?? null, result.error),
+    ...teardowns.map((phase) =>
+      line(describePhase(phase), phase.success, phase.testDuration, phase.error)
+    ),
+  ];
+
+  console.log(
+    boxen(lines.join("\n"), {
+      title: chalk.bold.blue(`Fixtures: ${sessionId}`),
+      padding: 1,
+      margin: { top: 1, bottom: 1 },
+      borderStyle: "round",
+      borderColor: fixtures.some((phase) => !phase.success) || !result.success ? "red" : "green",
+    })
+  );
+}
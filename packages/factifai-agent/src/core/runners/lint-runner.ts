@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import figures from "figures";
+import { logger } from "../../common/utils/logger";
+import type { TestCaseDefinition } from "../loaders/test-case-loader";
+import {
+  DEFAULT_FIXTURES_DIR,
+  loadFixture,
+  parseFixtureDirectives,
+} from "../loaders/fixture-loader";
+import { expandIncludes } from "../loaders/include-loader";
+import { checkTestCase } from "../nodes/parsing/test-case-checks";
+import { requestTestCaseRating } from "../nodes/parsing/test-case-rating";
+import type {
+  LintIssue,
+  LintReport,
+  LintTestCaseReport,
+} from "../nodes/reporting/schemas";
+import { generateJsonLintReport } from "../nodes/reporting/report-generators/json-report-generator";
+import { generateJUnitXmlLintReport } from "../nodes/reporting/report-generators/xml-report-generator";
+
+/**
+ * Options for linting test cases
+ */
+export interface LintOptions {
+  /** Rate every test case with the model, on by default */
+  rating?: boolean;
+  /** Test cases rated below this score fail */
+  minScore?: number;
+  /** Folder with the fixtures referenced by @use */
+  fixturesDir?: string;
+  /** Write the JSON report to this file */
+  jsonPath?: string;
+  /** Write the JUnit XML report to this file */
+  junitPath?: string;
+}
+
+/**
+ * Check test cases without running them: the deterministic checks for a starting URL,
+ * expected results, ambiguous verbs and steps with several actions, and the quality
+ * rating of the model. Prints a table of the results.
+ * @param testCases The test cases to lint
+ * @param options Whether to rate the test cases, the minimum score and report files
+ * @returns The lint report, a test case fails with an error or a score below the minimum
+ */
+export const lintTestCases = async (
+  testCases: TestCaseDefinition[],
+  options: LintOptions = {}
+): Promise<LintReport> => {
+  const { rating = true, minScore = null, fixturesDir = DEFAULT_FIXTURES_DIR } = options;
+  const results: LintTestCaseReport[] = [];
+
+  for (const [index, testCase] of testCases.entries()) {
+    const spinnerId = `lint-${testCase.id}`;
+    logger.spinner(`[${index + 1}/${testCases.length}] Linting ${testCase.name}...`, spinnerId);
+
+    const { instruction, issues } = readTestCase(testCase, fixturesDir);
+
+    let score: number | null = null;
+    let improvementSuggestions: string | null = null;
+    if (rating && instruction) {
+      try {
+        const testCaseRating = await requestTestCaseRating(instruction);
+        score = testCaseRating.rating;
+        improvementSuggestions = testCaseRating.improvementSuggestions;
+      } catch (error) {
+        issues.push({
+          rule: "rating-failed",
+          severity: "error",
+          message: `The test case could not be rated: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+      }
+    }
+
+    const passed =
+      !issues.some((issue) => issue.severity === "error") &&
+      (minScore === null || (score !== null && score >= minScore));
+    results.push({
+      name: testCase.name,
+      filePath: testCase.filePath,
+      score,
+      improvementSuggestions,
+      issues,
+      passed,
+    });
+
+    if (passed) {
+      logger.spinnerSuccess(spinnerId, `Linted ${testCase.name}`);
+    } else {
+      logger.spinnerError(spinnerId, `Linted ${testCase.name}`);
+    }
+  }
+
+  const report: LintReport = {
+    minScore,
+    testCases: results,
+    errors: countIssues(results, "error"),
+    warnings: countIssues(results, "warning"),
+    failed: results.filter((result) => !result.passed).length,
+  };
+
+  displayLintResults(report, rating);
+  writeLintReports(report, options);
+
+  return report;
+};
+
+/**
+ * Expand the includes of a test case and run the deterministic checks, with the setup of
+ * its fixtures as possible source of the starting URL
+ */
+function readTestCase(
+  testCase: TestCaseDefinition,
+  fixturesDir: string
+): { instruction: string | null; issues: LintIssue[] } {
+  const directives = parseFixtureDirectives(testCase.instruction);
+  const issues: LintIssue[] = [];
+
+  let instruction: string;
+  try {
+    instruction = expandIncludes(directives.instruction, testCase.filePath || null);
+  } catch (error) {
+    return {
+      instruction: null,
+      issues: [
+        {
+          rule: "invalid-test",
+          severity: "error",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      ],
+    };
+  }
+
+  const setupInstructions: string[] = [];
+  for (const name of directives.use) {
+    try {
+      const fixture = loadFixture(name, fixturesDir);
+      setupInstructions.push(expandIncludes(fixture.setup, fixture.filePath));
+    } catch (error) {
+      issues.push({
+        rule: "invalid-test",
+        severity: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { instruction, issues: [...issues, ...checkTestCase(instruction, setupInstructions)] };
+}
+
+function countIssues(results: LintTestCaseReport[], severity: LintIssue["severity"]): number {
+  return results.reduce(
+    (sum, result) => sum + result.issues.filter((issue) => issue.severity === severity).length,
+    0
+  );
+}
+
+/**
+ * Display a table of the lint results followed by the issues of each test case
+ */
+function displayLintResults(report: LintReport, rating: boolean): void {
+  const header = ["Test case", ...(rating ? ["Score"] : []), "Errors", "Warnings", "Result"];
+  const rows = report.testCases.map((testCase) => {
+    const errors = testCase.issues.filter((issue) => issue.severity === "error").length;
+    const warnings = testCase.issues.length - errors;
+    return [
+      `${testCase.name}\n${chalk.gray(path.relative(process.cwd(), testCase.filePath))}`,
+      ...(rating
+        ? [
+            testCase.score === null
+              ? chalk.gray("-")
+              : report.minScore !== null && testCase.score < report.minScore
+              ? chalk.red(`${testCase.score}/10`)
+              : `${testCase.score}/10`,
+          ]
+        : []),
+      errors > 0 ? chalk.red(String(errors)) : "0",
+      warnings > 0 ? chalk.yellow(String(warnings)) : "0",
+      testCase.passed ? chalk.green(`${figures.tick} pass`) : chalk.red(`${figures.cross} fail`),
+    ];
+  });
+
+  console.log();
+  logger.table([header.map((cell) => chalk.bold(cell)), ...rows]);
+
+  report.testCases
+    .filter((testCase) => testCase.issues.length > 0)
+    .forEach((testCase) => {
+      console.log(chalk.bold(`${testCase.name} (${path.relative(process.cwd(), testCase.filePath)})`));
+      testCase.issues.forEach((issue) => {
+        const location = issue.step !== undefined ? `Step ${issue.step}: ` : "";
+        const line = `  ${issue.severity === "error" ? figures.cross : figures.warning} ${location}${issue.message} [${issue.rule}]`;
+        console.log(issue.severity === "error" ? chalk.red(line) : chalk.yellow(line));
+      });
+      if (testCase.improvementSuggestions) {
+        console.log(chalk.gray(`  Suggestions: ${testCase.improvementSuggestions}`));
+      }
+      console.log();
+    });
+
+  console.log(
+    `${report.testCases.length} test case(s), ${chalk.red(`${report.errors} error(s)`)}, ${chalk.yellow(
+      `${report.warnings} warning(s)`
+    )}` + (report.minScore !== null ? `, minimum score ${report.minScore}` : "")
+  );
+}
+
+/**
+ * Write the JSON and JUnit XML lint reports to the requested files
+ */
+function writeLintReports(report: LintReport, options: LintOptions): void {
+  const outputs: Array<[string | undefined, () => string]> = [
+    [options.jsonPath, () => generateJsonLintReport(report)],
+    [options.junitPath, () => generateJUnitXmlLintReport(report)],
+  ];
+
+  outputs.forEach(([filePath, generate]) => {
+    if (!filePath) {
+      return;
+    }
+    const resolvedPath = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, generate());
+    console.log(chalk.white(`Report: ${resolvedPath}`));
+  });
+}
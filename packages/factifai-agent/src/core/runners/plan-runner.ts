@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import boxen from "boxen";
+import figures from "figures";
+import { stringify as stringifyYaml } from "yaml";
+import { logger } from "../../common/utils/logger";
+import { runWithSessionContext } from "../../common/utils/session-context";
+import { getSessionSubdirPath, PLANS_DIR_NAME } from "../../common/utils/path-utils";
+import { testPlanGraph, type GraphStateType } from "../graph/graph";
+import { UsageTracker, type RunBudget } from "../models/usage-tracker";
+import { testStepsToSpec, type TestSpec } from "../loaders/test-spec-loader";
+import { parseFixtureDirectives, type FixtureDirectives } from "../loaders/fixture-loader";
+import type { TestCaseRating } from "../nodes/parsing/test-case-rating";
+
+/**
+ * Options for planning a test case
+ */
+export interface PlanOptions {
+  /** Name of the written spec, e.g. the name of the test file */
+  name?: string;
+  /** File the instruction was read from, @include paths are resolved relative to it */
+  sourcePath?: string;
+  /** Skip the quality rating of the test case */
+  skipAnalysis?: boolean;
+  /** Write the plan as a YAML (default) or JSON structured spec */
+  format?: "yaml" | "json";
+  /** File to write the plan to, defaults to the plans folder of the session */
+  outputPath?: string;
+  /** LLM call and token limits of the preprocessing and parsing calls */
+  budget?: RunBudget;
+}
+
+/**
+ * Result of planning a test case
+ */
+export interface PlanResult {
+  success: boolean;
+  error?: string;
+  testSteps: GraphStateType["testSteps"];
+  /** Quality rating of a free-text test case, null for a spec or a skipped analysis */
+  rating: TestCaseRating | null;
+  /** The parsed steps as a structured spec, null if nothing was parsed */
+  spec: TestSpec | null;
+  /** Path of the written spec, null if nothing was parsed */
+  outputPath: string | null;
+}
+
+/**
+ * Preprocess and parse a test case into steps without opening a browser. The steps are
+ * written as a structured spec that can be reviewed, edited and run with `run --file`.
+ * Fixture directives are not planned, they are written around the spec as they are.
+ * @param instruction The test instruction
+ * @param sessionId The session ID used for logs and the default plans folder
+ * @param options The output format and file, and whether to rate the test case
+ * @returns The parsed steps, the quality rating and the path of the written spec
+ */
+export const planTestCase = async (
+  instruction: string,
+  sessionId: string,
+  options: PlanOptions = {}
+): Promise<PlanResult> => {
+  const { name, format = "yaml", skipAnalysis = false } = options;
+  logger.setSessionId(sessionId);
+  UsageTracker.start(sessionId, options.budget);
+  const directives = parseFixtureDirectives(instruction);
+
+  try {
+    const state = await runWithSessionContext(sessionId, () =>
+      testPlanGraph.invoke({
+        instruction: directives.instruction,
+        sessionId,
+        skipAnalysis,
+        sourcePath: options.sourcePath || null,
+      })
+    );
+
+    const testSteps = state.testSteps || [];
+    const rating = skipAnalysis ? null : state.testCaseQuality || null;
+    const error = state.lastError || state.abortReason || undefined;
+    if (error || testSteps.length === 0) {
+      return {
+        success: false,
+        error: error || "No test steps were parsed",
+        testSteps,
+        rating,
+        spec: null,
+        outputPath: null,
+      };
+    }
+
+    const spec = testStepsToSpec(testSteps, name);
+    const outputPath = writePlan(spec, rating, directives, sessionId, format, options.outputPath);
+    displayPlanSummary(spec, rating, outputPath);
+
+    return { success: true, testSteps, rating, spec, outputPath };
+  } catch (error) {
+    logger.error("Error planning test case:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      testSteps: [],
+      rating: null,
+      spec: null,
+      outputPath: null,
+    };
+  } finally {
+    UsageTracker.end(sessionId);
+  }
+};
+
+/**
+ * Write the spec as YAML with the quality rating as a comment, or as JSON, between the
+ * fixture directives of the test case
+ */
+function writePlan(
+  spec: TestSpec,
+  rating: TestCaseRating | null,
+  directives: FixtureDirectives,
+  sessionId: string,
+  format: "yaml" | "json",
+  outputPath?: string
+): string {
+  const filePath = outputPath
+    ? path.resolve(outputPath)
+    : path.join(
+        getSessionSubdirPath(sessionId, PLANS_DIR_NAME),
+        `${(spec.name || "plan").replace(/[^\w.-]+/g, "-")}.${format === "json" ? "json" : "yaml"}`
+      );
+
+  const header = [
+    ...directives.use.map((fixture) => `@use ${fixture}`),
+    ...directives.teardownFixtures.map((fixture) => `@teardown ${fixture}`),
+  ];
+  const body =
+    format === "json"
+      ? JSON.stringify(spec, null, 2) + "\n"
+      : (rating
+          ? `# Quality rating: ${rating.rating}/10\n# ${rating.improvementSuggestions.replace(/\s*\n\s*/g, " ")}\n`
+          : "") + stringifyYaml(spec);
+  const content =
+    (header.length > 0 ? header.join("\n") + "\n" : "") +
+    body +
+    (directives.teardown ? `@teardown\n${directives.teardown}\n` : "");
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+/**
+ * Display the number of planned steps, the quality rating and where the plan was written
+ */
+function displayPlanSummary(
+  spec: TestSpec,
+  rating: TestCaseRating | null,
+  outputPath: string
+): void {
+  const ratingColor = !rating
+    ? chalk.gray
+    : rating.rating >= 8
+    ? chalk.green
+    : rating.rating >= 5
+    ? chalk.blue
+    : chalk.yellow;
+
+  console.log(
+    boxen(
+      chalk.bold(`${figures.tick} ${spec.steps.length} steps planned`) +
+        "\n\n" +
+        (rating
+          ? `${chalk.blue("Quality:")} ${ratingColor(`${rating.rating}/10`)}\n` +
+            chalk.italic(rating.improvementSuggestions) +
+            "\n\n"
+          : "") +
+        chalk.white(`Plan: ${outputPath}`) +
+        "\n" +
+        chalk.gray(`Run it with: factifai-agent run --file ${path.relative(process.cwd(), outputPath)}`),
+      {
+        title: chalk.bold.blue("Test Plan"),
+        padding: 1,
+        margin: { top: 1, bottom: 1 },
+        borderStyle: "round",
+        borderColor: "green",
+      }
+    )
+  );
+}
@@ -0,0 +1,207 @@
+import chalk from "chalk";
+import figures from "figures";
+import boxen from "boxen";
+import { BrowserService } from "@presidio-dev/playwright-core";
+import { logger } from "../../common/utils/logger";
+import { formatDuration } from "../../common/utils/time-utils";
+import { executeWithFixtures, type FixtureRunOptions } from "./fixture-runner";
+import {
+  TEST_STATUS,
+  type StabilityReport,
+  type StepVerification,
+  type SuiteTestCaseReport,
+} from "../nodes/reporting/schemas";
+import { summarizeStability } from "../nodes/reporting/report-utils/data-extractors";
+import {
+  generateHtmlStabilityReport,
+  writeHtmlReport,
+} from "../nodes/reporting/report-generators/html-report-generator";
+import {
+  generateJsonStabilityReport,
+  writeJsonReport,
+} from "../nodes/reporting/report-generators/json-report-generator";
+
+/**
+ * Options for running a test case several times
+ */
+export type RepeatRunOptions = FixtureRunOptions & {
+  /** Number of runs, each in a fresh session */
+  repeat: number;
+  /** Name of the test case in the stability report (defaults to the session ID) */
+  name?: string;
+};
+
+/**
+ * Result of the repeated runs of a test case
+ */
+export interface RepeatRunResult {
+  /** Every run passed */
+  success: boolean;
+  report: StabilityReport;
+  /** Paths of the HTML and JSON stability reports */
+  reportPaths: string[];
+}
+
+/**
+ * Run a test case several times in fresh sessions to detect flaky steps. Each run is a
+ * regular run with its own reports under `<sessionId>-run-<n>`, the stability report
+ * comparing them is written to the reports folder of the session.
+ * @param instruction The test instruction
+ * @param sessionId The session ID the runs are derived from
+ * @param options Task options applied to every run, and the number of runs
+ * @returns Whether every run passed, and the stability report
+ */
+export const runRepeated = async (
+  instruction: string,
+  sessionId: string,
+  options: RepeatRunOptions
+): Promise<RepeatRunResult> => {
+  const { repeat, name = sessionId, onEvent, ...taskOptions } = options;
+  const startTime = Date.now();
+  const runs: SuiteTestCaseReport[] = [];
+  const verifications: StepVerification[] = [];
+
+  for (let run = 1; run <= repeat; run++) {
+    if (taskOptions.signal?.aborted) {
+      logger.warn(`Run cancelled, skipping the remaining ${repeat - run + 1} repeated run(s)`);
+      break;
+    }
+
+    const runSessionId = `${sessionId}-run-${run}`;
+    console.log(chalk.bold.blue(`\n${figures.pointer} [${run}/${repeat}] Repeated run: ${runSessionId}`));
+
+    try {
+      const result = await executeWithFixtures(instruction, runSessionId, {
+        ...taskOptions,
+        onEvent: (event) => {
+          if (event.type === "verification_result") {
+            verifications.push({
+              run,
+              stepId: event.stepId,
+              result: event.result,
+              explanation: event.explanation,
+            });
+          }
+          onEvent?.(event);
+        },
+      });
+
+      const testSteps = result.testSteps || [];
+      runs.push({
+        name: `Run ${run}`,
+        sessionId: runSessionId,
+        passed:
+          result.success &&
+          testSteps.length > 0 &&
+          testSteps.every((step: any) => step.status === TEST_STATUS.PASSED),
+        testSteps,
+        testSummary: result.testSummary || null,
+        testDuration: result.testDuration || null,
+        lastError: result.error || null,
+      });
+    } catch (error) {
+      // A run that throws counts as a failed run, the remaining runs still go ahead
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`${figures.cross} Repeated run ${run} failed: ${message}`);
+      runs.push({
+        name: `Run ${run}`,
+        sessionId: runSessionId,
+        passed: false,
+        testSteps: [],
+        testSummary: null,
+        testDuration: null,
+        lastError: message,
+      });
+    } finally {
+      // Every run starts from a fresh page
+      await BrowserService.getInstance()
+        .closePage(runSessionId)
+        .catch((error) =>
+          logger.warn(`Failed to close browser session ${runSessionId}:`, error)
+        );
+    }
+  }
+
+  const report = summarizeStability(name, runs, verifications, Date.now() - startTime);
+  const reportPaths = taskOptions.noReport ? [] : writeStabilityReports(report, sessionId);
+
+  displayStabilitySummary(report, reportPaths);
+
+  return {
+    success: runs.length > 0 && report.passedRuns === runs.length,
+    report,
+    reportPaths,
+  };
+};
+
+/**
+ * Write the HTML and JSON stability reports and return their paths
+ */
+function writeStabilityReports(report: StabilityReport, sessionId: string): string[] {
+  try {
+    return [
+      writeHtmlReport(generateHtmlStabilityReport(report), sessionId, "stability-report"),
+      writeJsonReport(generateJsonStabilityReport(report), sessionId, "stability-report"),
+    ];
+  } catch (error) {
+    logger.error(
+      `${figures.cross} Failed to generate stability reports: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    return [];
+  }
+}
+
+/**
+ * Display the step outcomes of the repeated runs in the console
+ */
+function displayStabilitySummary(report: StabilityReport, reportPaths: string[]): void {
+  const outcome = (status: string) =>
+    status === TEST_STATUS.PASSED
+      ? chalk.green(figures.tick)
+      : status === TEST_STATUS.FAILED
+      ? chalk.red(figures.cross)
+      : chalk.yellow("-");
+
+  const lines = report.steps.map((step) => {
+    const label = `Step ${step.id}: ${step.instruction} ${step.statuses.map(outcome).join("")} ${step.passRate}%`;
+    if (step.flaky || step.inconsistentVerification) {
+      const reasons = [
+        step.flaky && "outcome varies",
+        step.inconsistentVerification && "verifications disagree",
+        step.instructions.length > 1 && "parsed differently",
+      ].filter(Boolean);
+      return chalk.yellow(`${figures.warning} ${label} (${reasons.join(", ")})`);
+    }
+    return `${figures.tick} ${label}`;
+  });
+
+  const flaky = report.steps.some((step) => step.flaky || step.inconsistentVerification);
+
+  console.log(
+    boxen(
+      chalk.bold(`Test: ${report.name}`) +
+        "\n\n" +
+        (lines.length > 0 ? lines.join("\n") : chalk.yellow("No steps were parsed")) +
+        "\n\n" +
+        `${chalk.green(`${report.passedRuns} passed`)}, ${chalk.red(
+          `${report.runs - report.passedRuns} failed`
+        )}, ${report.runs} runs` +
+        "\n" +
+        chalk.blue(`Stability score: ${report.stabilityScore}%`) +
+        "\n" +
+        chalk.blue(`Duration: ${formatDuration(report.duration)}`) +
+        (reportPaths.length > 0
+          ? "\n\n" + reportPaths.map((reportPath) => chalk.white(`Report: ${reportPath}`)).join("\n")
+          : ""),
+      {
+        title: chalk.bold.blue("Stability Results"),
+        padding: 1,
+        margin: { top: 1, bottom: 1 },
+        borderStyle: "round",
+        borderColor: flaky ? "yellow" : report.passedRuns === report.runs ? "green" : "red",
+      }
+    )
+  );
+}
@@ -0,0 +1,595 @@
+import chalk from "chalk";
+import figures from "figures";
+import boxen from "boxen";
+import { END, START, StateGraph } from "@langchain/langgraph";
+import {
+  click,
+  clear,
+  getElementAtCoordinates,
+  getElementText,
+  getVisibleElements,
+  goBack,
+  goForward,
+  navigate,
+  reload,
+  scrollBy,
+  scrollToNextChunk,
+  scrollToPrevChunk,
+  type,
+  wait,
+} from "@presidio-dev/playwright-core";
+import { logger } from "../../common/utils/logger";
+import { SecretManager } from "../../common/utils/secret-manager";
+import { runWithSessionContext } from "../../common/utils/session-context";
+import { formatDuration } from "../../common/utils/time-utils";
+import {
+  substituteVariables,
+  type RuntimeVariables,
+} from "../../common/utils/runtime-variables";
+import { browserAutomationGraph, State, type GraphStateType } from "../graph/graph";
+import { shouldContinueEdge } from "../edges/edges";
+import { executeAndVerifyNode } from "../nodes/execution/execution-and-verification-node";
+import { executeToolsNode } from "../nodes/tools/tools-node";
+import {
+  getSessionActions,
+  storeSuccessfulAction,
+  type RecordedAction,
+} from "../nodes/playwright/playwright-utils/action-extractor";
+import { TEST_STATUS } from "../nodes/reporting/schemas";
+import {
+  calculatePassRate,
+  summarizeTokenUsage,
+} from "../nodes/reporting/report-utils/data-extractors";
+import {
+  generateJUnitXmlReport,
+  writeJUnitXmlReport,
+} from "../nodes/reporting/report-generators/xml-report-generator";
+import {
+  generateHtmlReport,
+  writeHtmlReport,
+} from "../nodes/reporting/report-generators/html-report-generator";
+import { UsageTracker } from "../models/usage-tracker";
+
+// Attributes that identify an element well enough to tell it apart from its neighbours
+const IDENTIFYING_ATTRIBUTES = ["id", "data-testid", "name", "aria-label", "placeholder", "href"];
+
+// How often to look for a click target before the page is considered changed
+const ELEMENT_LOOKUP_ATTEMPTS = 3;
+
+/**
+ * Options for replaying a recorded session
+ */
+export interface ReplayOptions {
+  /** Session ID of the replay run, defaults to `<source>-replay-<timestamp>` */
+  replaySessionId?: string;
+  /** Re-run a step with the model when its recorded target element cannot be found (default true) */
+  heal?: boolean;
+  noReport?: boolean;
+  reportFormat?: string;
+}
+
+/**
+ * Result of replaying a recorded session
+ */
+export interface ReplayResult {
+  sessionId: string;
+  success: boolean;
+  testSteps: GraphStateType["testSteps"];
+  replayedActions: number;
+  healedSteps: number[];
+  // Values read from the page by the recorded store_variable actions
+  variables: RuntimeVariables;
+  duration: number;
+  reportPaths: string[];
+  error?: string;
+}
+
+type ReplayStep = GraphStateType["testSteps"][number] & {
+  actions: RecordedAction[];
+  // Whether the step instruction comes from the original run and can be handed to the model
+  healable: boolean;
+};
+
+/**
+ * Thrown when the recorded target element of a click cannot be found on the page
+ */
+class ElementNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ElementNotFoundError";
+  }
+}
+
+// Executes a single step with the model, used to heal steps whose recorded actions no longer apply
+const healingGraph = new StateGraph(State)
+  .addNode("execute", executeAndVerifyNode)
+  .addNode("tools", executeToolsNode)
+  .addEdge(START, "execute")
+  .addConditionalEdges(
+    "execute",
+    (state: GraphStateType) => (state.lastError ? "end" : shouldContinueEdge(state)),
+    {
+      tools: "tools",
+      humanReview: END,
+      end: END,
+    }
+  )
+  .addEdge("tools", "execute")
+  .compile();
+
+/**
+ * Replay the actions recorded for a session without calling the model.
+ * Every click is verified against the recorded element data first; only a step
+ * whose target element can no longer be found is handed back to the model.
+ * @param sourceSessionId The session whose recorded actions are replayed
+ * @param options Replay options
+ * @returns The replay result
+ */
+export const replaySession = async (
+  sourceSessionId: string,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> => {
+  const sessionId = options.replaySessionId || `${sourceSessionId}-replay-${Date.now()}`;
+  const heal = options.heal !== false;
+  const startTime = Date.now();
+
+  logger.setSessionId(sessionId);
+
+  const actions = getSessionActions(sourceSessionId);
+  if (actions.length === 0) {
+    return {
+      sessionId,
+      success: false,
+      testSteps: [],
+      replayedActions: 0,
+      healedSteps: [],
+      variables: {},
+      duration: 0,
+      reportPaths: [],
+      error: `No recorded actions found for session: ${sourceSessionId}`,
+    };
+  }
+
+  const steps = await buildReplaySteps(sourceSessionId, actions);
+  const healedSteps: number[] = [];
+  const variables: RuntimeVariables = {};
+  let replayedActions = 0;
+
+  UsageTracker.start(sessionId);
+
+  try {
+    await runWithSessionContext(sessionId, async () => {
+      for (const step of steps) {
+        console.log(
+          chalk.bold.blue(`\n${figures.pointer} Step ${step.id}: ${step.instruction}`)
+        );
+
+        if (step.actions.length === 0) {
+          step.status = TEST_STATUS.SKIPPED;
+          step.notes = "No recorded actions; verification-only steps are not re-checked during replay";
+          console.log(chalk.yellow(`  ${figures.arrowRight} ${step.notes}`));
+          continue;
+        }
+
+        try {
+          for (const action of step.actions) {
+            await replayAction(sessionId, action, variables);
+            replayedActions++;
+          }
+
+          step.status = TEST_STATUS.PASSED;
+          step.notes = `Replayed ${step.actions.length} recorded action(s)`;
+          console.log(chalk.green(`  ${figures.tick} ${step.notes}`));
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+
+          if (!(error instanceof ElementNotFoundError) || !heal || !step.healable) {
+            step.status = TEST_STATUS.FAILED;
+            step.notes = `Replay failed: ${reason}`;
+            console.log(chalk.red(`  ${figures.cross} ${step.notes}`));
+            continue;
+          }
+
+          console.log(chalk.yellow(`  ${figures.warning} ${reason}, healing the step with the model`));
+          const healError = await healStep(sessionId, step, variables);
+          healedSteps.push(step.id);
+
+          if (healError) {
+            step.status = TEST_STATUS.FAILED;
+            step.notes = `Healing failed after the recorded element was not found: ${healError}`;
+            console.log(chalk.red(`  ${figures.cross} ${step.notes}`));
+          } else {
+            step.status = TEST_STATUS.PASSED;
+            step.notes = `Healed: ${reason}; the step was re-executed with the model`;
+            console.log(chalk.green(`  ${figures.tick} Step healed`));
+          }
+        }
+      }
+    });
+
+    const testSteps = steps.map(({ actions: _actions, healable: _healable, ...step }) => step);
+    const duration = Date.now() - startTime;
+    const failed = testSteps.filter((step) => step.status === TEST_STATUS.FAILED);
+    const summary =
+      `Replayed ${replayedActions} recorded action(s) of session ${sourceSessionId}. ` +
+      `${testSteps.length - failed.length} of ${testSteps.length} steps did not fail` +
+      (healedSteps.length > 0 ? `, ${healedSteps.length} needed the model to heal.` : ".");
+
+    const reportPaths = options.noReport
+      ? []
+      : writeReplayReports(sessionId, testSteps, summary, duration, variables, options.reportFormat);
+
+    displayReplaySummary(sourceSessionId, testSteps, healedSteps, duration, reportPaths);
+
+    return {
+      sessionId,
+      success: failed.length === 0,
+      testSteps,
+      replayedActions,
+      healedSteps,
+      variables,
+      duration,
+      reportPaths,
+      ...(failed.length > 0 && { error: `${failed.length} step(s) failed during replay` }),
+    };
+  } finally {
+    UsageTracker.end(sessionId);
+  }
+};
+
+/**
+ * Group the recorded actions by test step. The steps come from the checkpoint of the
+ * original run when every action carries a step ID, otherwise each action is its own step.
+ */
+async function buildReplaySteps(
+  sourceSessionId: string,
+  actions: RecordedAction[]
+): Promise<ReplayStep[]> {
+  let originalSteps: GraphStateType["testSteps"] = [];
+  try {
+    const snapshot = await browserAutomationGraph.getState({
+      configurable: { thread_id: sourceSessionId },
+    });
+    originalSteps = (snapshot.values as Partial<GraphStateType>).testSteps || [];
+  } catch (error) {
+    logger.warn(`Could not read the checkpoint of session ${sourceSessionId}:`, error);
+  }
+
+  const knownStepIds = new Set(originalSteps.map((step) => step.id));
+  const stepsKnown =
+    originalSteps.length > 0 &&
+    actions.every((action) => action.stepId !== undefined && knownStepIds.has(action.stepId));
+
+  if (!stepsKnown) {
+    logger.warn(
+      `Recorded actions of session ${sourceSessionId} are not linked to its test steps, replaying them one by one without healing`
+    );
+    return actions.map((action, index) => ({
+      id: index + 1,
+      instruction: action.description || `Replay ${action.tool} action`,
+      status: TEST_STATUS.NOT_STARTED,
+      notes: "",
+      actions: [action],
+      healable: false,
+    }));
+  }
+
+  return originalSteps.map((step) => ({
+    ...step,
+    status: TEST_STATUS.NOT_STARTED,
+    notes: "",
+    actions: actions.filter((action) => action.stepId === step.id),
+    healable: true,
+  }));
+}
+
+/**
+ * Execute one recorded action through playwright-core and record it for the replay session.
+ * Values read by store_variable actions are added to the variables and fill the ${name}
+ * references of later actions.
+ * @throws ElementNotFoundError if the target element of a click cannot be found
+ */
+async function replayAction(
+  sessionId: string,
+  action: RecordedAction,
+  variables: RuntimeVariables
+): Promise<void> {
+  let result: { success: boolean; error?: string };
+  let recorded = action;
+
+  switch (action.tool) {
+    case "click": {
+      const target = await locateClickTarget(sessionId, action);
+      result = await click(sessionId, target.coordinates);
+      recorded = {
+        ...action,
+        args: { ...action.args, coordinates: target.coordinates, element: target.element },
+      };
+      break;
+    }
+    case "type_text": {
+      const text = substituteVariables(action.args.text as string, variables);
+      result = await type(
+        sessionId,
+        SecretManager.has(text) ? (SecretManager.get(text) as string) : text
+      );
+      break;
+    }
+    case "navigate":
+      result = await navigate(sessionId, substituteVariables(action.args.url, variables));
+      break;
+    case "wait":
+      result = await wait(sessionId, action.args.seconds);
+      break;
+    case "reload":
+      result = await reload(sessionId);
+      break;
+    case "go_back":
+      result = await goBack(sessionId);
+      break;
+    case "go_forward":
+      result = await goForward(sessionId);
+      break;
+    case "clear":
+      result = await clear(sessionId);
+      break;
+    case "scroll":
+      if (action.args.direction === "down") {
+        result = await scrollToNextChunk(sessionId);
+      } else if (action.args.direction === "up") {
+        result = await scrollToPrevChunk(sessionId);
+      } else {
+        result = await scrollBy(sessionId, action.args.x || 0, action.args.y || 0);
+      }
+      break;
+    case "store_variable": {
+      // The text of the element changes between runs, so it is read where it was recorded
+      const read = await getElementText(
+        sessionId,
+        action.args.selector || action.args.coordinates
+      );
+      result = read;
+      if (read.success) {
+        variables[action.args.name] = read.text || "";
+        recorded = { ...action, args: { ...action.args, value: read.text } };
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unsupported recorded action: ${action.tool}`);
+  }
+
+  if (!result.success) {
+    throw new Error(`${action.tool} failed: ${result.error || "Unknown error"}`);
+  }
+
+  logger.appendToFile(`REPLAY_ACTION: ${JSON.stringify(recorded)}`);
+  storeSuccessfulAction(sessionId, { ...recorded, timestamp: undefined });
+}
+
+/**
+ * Find where to click for a recorded click action. The recorded coordinates are used when the
+ * element there still matches the recorded element data, otherwise the element is looked up by
+ * its identifying data among the visible elements.
+ * @throws ElementNotFoundError if no matching element is found
+ */
+async function locateClickTarget(
+  sessionId: string,
+  action: RecordedAction
+): Promise<{ coordinates: { x: number; y: number }; element?: any }> {
+  const coordinates = action.args.coordinates as { x: number; y: number };
+  const recordedElement = action.args.element;
+
+  // Without element data there is nothing to verify against
+  if (!recordedElement) {
+    return { coordinates };
+  }
+
+  for (let attempt = 1; attempt <= ELEMENT_LOOKUP_ATTEMPTS; attempt++) {
+    const atCoordinates = await getElementAtCoordinates(sessionId, coordinates.x, coordinates.y);
+    if (atCoordinates.element && matchesRecordedElement(recordedElement, atCoordinates.element)) {
+      return { coordinates, element: atCoordinates.element };
+    }
+
+    const moved = await findMovedElement(sessionId, recordedElement);
+    if (moved) {
+      logger.appendToFile(
+        `REPLAY_ELEMENT_MOVED: ${describeElement(recordedElement)} from (${coordinates.x}, ${coordinates.y}) to (${moved.coordinates.x}, ${moved.coordinates.y})`
+      );
+      return moved;
+    }
+
+    // Give late rendering content a moment before looking again
+    if (attempt < ELEMENT_LOOKUP_ATTEMPTS) {
+      await wait(sessionId, 1);
+    }
+  }
+
+  throw new ElementNotFoundError(`Recorded element ${describeElement(recordedElement)} not found`);
+}
+
+/**
+ * Look for the recorded element among the visible elements of the page
+ */
+async function findMovedElement(
+  sessionId: string,
+  recordedElement: any
+): Promise<{ coordinates: { x: number; y: number }; element: any } | null> {
+  const visible = await getVisibleElements(sessionId);
+  const recordedText = normalizeText(recordedElement.textContent);
+
+  const candidates = (visible.elements || []).filter(
+    (element: any) =>
+      element.tagName === recordedElement.tagName &&
+      ((recordedElement.id && element.id === recordedElement.id) ||
+        (recordedText && normalizeText(element.trimmedText) === recordedText) ||
+        (!recordedElement.id && !recordedText))
+  );
+
+  for (const candidate of candidates) {
+    // getVisibleElements reports the element center as `coordinates`
+    const coordinates = (candidate as any).coordinates || candidate.coords;
+    if (!coordinates) {
+      continue;
+    }
+
+    const atCandidate = await getElementAtCoordinates(sessionId, coordinates.x, coordinates.y);
+    if (atCandidate.element && matchesRecordedElement(recordedElement, atCandidate.element)) {
+      return { coordinates, element: atCandidate.element };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether an element on the page is the one that was clicked in the recorded run
+ */
+function matchesRecordedElement(recorded: any, actual: any): boolean {
+  if (recorded.tagName !== actual.tagName) {
+    return false;
+  }
+
+  const identifying = IDENTIFYING_ATTRIBUTES.filter((name) => recorded.attributes?.[name]);
+  if (identifying.length > 0) {
+    return identifying.every((name) => recorded.attributes[name] === actual.attributes?.[name]);
+  }
+
+  return normalizeText(recorded.textContent) === normalizeText(actual.textContent);
+}
+
+/**
+ * Re-execute a single step with the model
+ * @returns The error message, or null if the step succeeded
+ */
+async function healStep(
+  sessionId: string,
+  step: ReplayStep,
+  variables: RuntimeVariables
+): Promise<string | null> {
+  try {
+    const result = await healingGraph.invoke(
+      {
+        instruction: step.instruction,
+        processedInstruction: step.instruction,
+        sessionId,
+        testSteps: [{ id: step.id, instruction: step.instruction, status: "in_progress", notes: "" }],
+        currentStepIndex: 0,
+        variables,
+      },
+      { recursionLimit: 50, configurable: { thread_id: sessionId } }
+    );
+
+    // Keep the values the model stored while healing for the following steps
+    Object.assign(variables, result.variables);
+    return result.lastError || null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Write the replay reports without model analysis and return their paths
+ */
+function writeReplayReports(
+  sessionId: string,
+  testSteps: GraphStateType["testSteps"],
+  summary: string,
+  duration: number,
+  variables: RuntimeVariables,
+  reportFormat: string = "both"
+): string[] {
+  const reportPaths: string[] = [];
+  const tokenUsage = summarizeTokenUsage(UsageTracker.getRecords(sessionId));
+
+  try {
+    if (reportFormat === "xml" || reportFormat === "both") {
+      const xml = generateJUnitXmlReport(
+        testSteps,
+        summary,
+        `${(duration / 1000).toFixed(3)}`,
+        null,
+        null,
+        null,
+        null,
+        tokenUsage,
+        variables
+      );
+      reportPaths.push(writeJUnitXmlReport(xml, sessionId));
+    }
+
+    if (reportFormat === "html" || reportFormat === "both") {
+      const html = generateHtmlReport(
+        testSteps,
+        summary,
+        calculatePassRate(testSteps),
+        formatDuration(duration),
+        null,
+        null,
+        null,
+        duration,
+        null,
+        tokenUsage,
+        variables
+      );
+      reportPaths.push(writeHtmlReport(html, sessionId));
+    }
+  } catch (error) {
+    logger.error(
+      `${figures.cross} Failed to generate replay reports: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  return reportPaths;
+}
+
+/**
+ * Display the replay summary box in the console
+ */
+function displayReplaySummary(
+  sourceSessionId: string,
+  testSteps: GraphStateType["testSteps"],
+  healedSteps: number[],
+  duration: number,
+  reportPaths: string[]
+): void {
+  const count = (status: string) => testSteps.filter((step) => step.status === status).length;
+  const failed = count(TEST_STATUS.FAILED);
+
+  console.log(
+    boxen(
+      chalk.bold(`Replay of session: ${sourceSessionId}`) +
+        "\n\n" +
+        `${chalk.green(`${count(TEST_STATUS.PASSED)} passed`)}, ${chalk.red(`${failed} failed`)}, ` +
+        `${chalk.yellow(`${count(TEST_STATUS.SKIPPED)} skipped`)}, ${testSteps.length} total` +
+        (healedSteps.length > 0
+          ? "\n" + chalk.yellow(`Healed with the model: step ${healedSteps.join(", ")}`)
+          : "") +
+        "\n" +
+        chalk.blue(`Duration: ${formatDuration(duration)}`) +
+        (reportPaths.length > 0
+          ? "\n\n" + reportPaths.map((reportPath) => chalk.white(`Report: ${reportPath}`)).join("\n")
+          : ""),
+      {
+        title: chalk.bold.blue("Replay Results"),
+        padding: 1,
+        margin: { top: 1, bottom: 1 },
+        borderStyle: "round",
+        borderColor: failed > 0 ? "red" : "green",
+      }
+    )
+  );
+}
+
+function describeElement(element: any): string {
+  const text = normalizeText(element.textContent);
+  return `<${element.tagName}${element.id ? `#${element.id}` : ""}>${
+    text ? ` "${text.substring(0, 40)}"` : ""
+  }`;
+}
+
+function normalizeText(text?: string): string {
+  return (text || "").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,343 @@
+import chalk from "chalk";
+import figures from "figures";
+import boxen from "boxen";
+import { BrowserService } from "@presidio-dev/playwright-core";
+import { logger } from "../../common/utils/logger";
+import { formatDuration } from "../../common/utils/time-utils";
+import { TestCaseDefinition } from "../loaders/test-case-loader";
+import {
+  describeSelection,
+  hasSelection,
+  selectTestCases,
+  type TestSelection,
+} from "../loaders/test-selection";
+import { runWithWorkerPool } from "./worker-pool";
+import { describePhase, executeWithFixtures } from "./fixture-runner";
+import type { RunBudget } from "../models/usage-tracker";
+import { TEST_STATUS, type SuiteTestCaseReport } from "../nodes/reporting/schemas";
+import {
+  generateJUnitXmlSuiteReport,
+  writeJUnitXmlReport,
+} from "../nodes/reporting/report-generators/xml-report-generator";
+import {
+  generateHtmlSuiteReport,
+  writeHtmlReport,
+} from "../nodes/reporting/report-generators/html-report-generator";
+
+/**
+ * Options for running a suite of test cases
+ */
+export interface SuiteRunOptions {
+  suiteId?: string;
+  suiteName?: string;
+  noReport?: boolean;
+  reportFormat?: string;
+  skipAnalysis?: boolean;
+  skipPlaywright?: boolean;
+  /** Number of test cases to run concurrently, each in its own browser context (default 1) */
+  workers?: number;
+  /** Budget applied to each test case separately */
+  budget?: RunBudget;
+  /** Execute and verify one parsed step at a time */
+  stepByStep?: boolean;
+  /** Cancels the suite; the running test cases write partial reports */
+  signal?: AbortSignal;
+  /** Folder with the fixtures referenced by `@use` and `@teardown` (default "fixtures") */
+  fixturesDir?: string;
+  /** Tag and name filters, test cases left out are reported as skipped */
+  selection?: TestSelection;
+}
+
+/**
+ * Aggregated result of a suite run
+ */
+export interface SuiteRunResult {
+  suiteId: string;
+  success: boolean;
+  total: number;
+  passed: number;
+  failed: number;
+  /** Number of test cases left out by the selection filters, not counted in total */
+  skipped: number;
+  duration: number;
+  testCases: SuiteTestCaseReport[];
+  skippedTestCases: SuiteTestCaseReport[];
+  reportPaths: string[];
+}
+
+/**
+ * Run a list of test cases and produce one aggregated report.
+ * Test cases run sequentially unless `workers` is greater than 1. The selection filters
+ * are applied before any test case runs.
+ * @param allTestCases The test cases to run
+ * @param options Suite run options
+ * @returns The aggregated suite result
+ * @throws Error if the grep pattern of the selection is not a valid regular expression
+ */
+export const runTestSuite = async (
+  allTestCases: TestCaseDefinition[],
+  options: SuiteRunOptions = {}
+): Promise<SuiteRunResult> => {
+  const suiteId = options.suiteId || `factifai-suite-${Date.now()}`;
+  const suiteName = options.suiteName || suiteId;
+  const filters = hasSelection(options.selection)
+    ? describeSelection(options.selection as TestSelection)
+    : null;
+  const { selected: testCases, skipped } = filters
+    ? selectTestCases(allTestCases, options.selection as TestSelection)
+    : { selected: allTestCases, skipped: [] };
+  const skippedTestCases: SuiteTestCaseReport[] = skipped.map(({ testCase, reason }) => ({
+    name: testCase.name,
+    ...(testCase.feature && { feature: testCase.feature }),
+    sessionId: `${suiteId}-${testCase.id}`,
+    passed: false,
+    testSteps: [],
+    testSummary: null,
+    testDuration: null,
+    lastError: null,
+    skipReason: reason,
+  }));
+
+  if (filters) {
+    console.log(
+      chalk.blue(
+        `${figures.info} Filters ${filters}: ${testCases.length} selected, ${skipped.length} skipped`
+      )
+    );
+  }
+  const workers = Math.max(1, Math.min(options.workers || 1, testCases.length || 1));
+  const suiteStartTime = Date.now();
+
+  if (workers > 1) {
+    console.log(
+      chalk.bold.blue(
+        `\n${figures.pointer} Running ${testCases.length} test cases with ${workers} workers`
+      )
+    );
+  }
+
+  const results = await runWithWorkerPool(testCases, workers, (testCase, index) => {
+    console.log(
+      chalk.bold.blue(
+        `\n${figures.pointer} [${index + 1}/${testCases.length}] Running test case: ${testCase.name}`
+      )
+    );
+
+    return runSuiteTestCase(testCase, suiteId, options);
+  });
+
+  const duration = Date.now() - suiteStartTime;
+  const passed = results.filter((result) => result.passed).length;
+
+  const reportPaths = options.noReport
+    ? []
+    : writeSuiteReports(
+        suiteId,
+        suiteName,
+        results,
+        skippedTestCases,
+        filters,
+        duration,
+        options.reportFormat
+      );
+
+  displaySuiteSummary(suiteName, results, skippedTestCases, filters, duration, reportPaths);
+
+  return {
+    suiteId,
+    success: passed === results.length,
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    skipped: skippedTestCases.length,
+    duration,
+    testCases: results,
+    skippedTestCases,
+    reportPaths,
+  };
+};
+
+/**
+ * Run a single test case of a suite in its own session and close its pages afterwards
+ */
+async function runSuiteTestCase(
+  testCase: TestCaseDefinition,
+  suiteId: string,
+  options: SuiteRunOptions
+): Promise<SuiteTestCaseReport> {
+  const sessionId = `${suiteId}-${testCase.id}`;
+
+  try {
+    const result = await executeWithFixtures(testCase.instruction, sessionId, {
+      noReport: options.noReport,
+      reportFormat: options.reportFormat,
+      skipAnalysis: options.skipAnalysis,
+      skipPlaywright: options.skipPlaywright,
+      budget: options.budget,
+      stepByStep: options.stepByStep,
+      signal: options.signal,
+      fixturesDir: options.fixturesDir,
+      sourcePath: testCase.filePath || undefined,
+    });
+
+    const testSteps = result.testSteps || [];
+
+    return {
+      name: testCase.name,
+      ...(testCase.feature && { feature: testCase.feature }),
+      sessionId,
+      passed:
+        result.success &&
+        testSteps.length > 0 &&
+        testSteps.every((step: any) => step.status === TEST_STATUS.PASSED),
+      testSteps,
+      testSummary: result.testSummary || null,
+      testDuration: result.testDuration || null,
+      lastError: result.error || null,
+      fixtures: result.fixtures.map((fixture) => ({
+        name: `${testCase.name} › ${describePhase(fixture)}`,
+        sessionId: fixture.sessionId,
+        phase: fixture.phase,
+        passed: fixture.success,
+        testSteps: fixture.testSteps,
+        testSummary: fixture.testSummary,
+        testDuration: fixture.testDuration,
+        lastError: fixture.error || null,
+      })),
+    };
+  } catch (error) {
+    // A test case that throws fails on its own, the rest of the suite still runs and is reported
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`${figures.cross} Test case ${testCase.name} failed: ${message}`);
+    return {
+      name: testCase.name,
+      sessionId,
+      passed: false,
+      testSteps: [],
+      testSummary: null,
+      testDuration: null,
+      lastError: message,
+    };
+  } finally {
+    await BrowserService.getInstance()
+      .closePage(sessionId)
+      .catch((error) =>
+        logger.warn(`Failed to close browser session ${sessionId}:`, error)
+      );
+  }
+}
+
+/**
+ * Write the aggregated suite reports and return their paths
+ */
+function writeSuiteReports(
+  suiteId: string,
+  suiteName: string,
+  results: SuiteTestCaseReport[],
+  skippedTestCases: SuiteTestCaseReport[],
+  filters: string | null,
+  duration: number,
+  reportFormat: string = "both"
+): string[] {
+  const reportPaths: string[] = [];
+
+  // Fixture blocks get their own entries around their test case, so failures show where they happened
+  const entries = results.flatMap((result) => [
+    ...(result.fixtures || []).filter((fixture) => fixture.phase === "setup"),
+    result,
+    ...(result.fixtures || []).filter((fixture) => fixture.phase === "teardown"),
+  ]);
+
+  try {
+    if (reportFormat === "xml" || reportFormat === "both") {
+      // Test cases left out by the filters are only listed in the JUnit report, as skipped
+      // testcases whose message names the applied filters
+      const skippedEntries = skippedTestCases.map((testCase) => ({
+        ...testCase,
+        skipReason: `${testCase.skipReason} (filters: ${filters})`,
+      }));
+      const xml = generateJUnitXmlSuiteReport(
+        suiteName,
+        [...entries, ...skippedEntries],
+        duration
+      );
+      reportPaths.push(writeJUnitXmlReport(xml, suiteId));
+    }
+
+    if (reportFormat === "html" || reportFormat === "both") {
+      const html = generateHtmlSuiteReport(suiteName, entries, duration);
+      reportPaths.push(writeHtmlReport(html, suiteId));
+    }
+  } catch (error) {
+    logger.error(
+      `${figures.cross} Failed to generate suite reports: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  return reportPaths;
+}
+
+/**
+ * Display the suite summary box in the console
+ */
+function displaySuiteSummary(
+  suiteName: string,
+  results: SuiteTestCaseReport[],
+  skippedTestCases: SuiteTestCaseReport[],
+  filters: string | null,
+  duration: number,
+  reportPaths: string[]
+): void {
+  const passed = results.filter((result) => result.passed).length;
+  const failed = results.length - passed;
+
+  const lines = [
+    ...results.flatMap((result) => [
+      result.passed
+        ? chalk.green(`${figures.tick} ${result.name}`)
+        : chalk.red(
+            `${figures.cross} ${result.name}${result.lastError ? ` - ${result.lastError}` : ""}`
+          ),
+      // Name the failing fixture blocks under their test case
+      ...(result.fixtures || [])
+        .filter((fixture) => !fixture.passed)
+        .map((fixture) =>
+          chalk.red(
+            `  ${figures.cross} ${fixture.name}${fixture.lastError ? ` - ${fixture.lastError}` : ""}`
+          )
+        ),
+    ]),
+    ...skippedTestCases.map((testCase) =>
+      chalk.yellow(`${figures.arrowRight} ${testCase.name} - skipped: ${testCase.skipReason}`)
+    ),
+  ];
+
+  console.log(
+    boxen(
+      chalk.bold(`Suite: ${suiteName}`) +
+        (filters ? "\n" + chalk.blue(`Filters: ${filters}`) : "") +
+        "\n\n" +
+        lines.join("\n") +
+        "\n\n" +
+        `${chalk.green(`${passed} passed`)}, ${chalk.red(`${failed} failed`)}, ` +
+        (skippedTestCases.length > 0
+          ? `${chalk.yellow(`${skippedTestCases.length} skipped`)}, `
+          : "") +
+        `${results.length} total` +
+        "\n" +
+        chalk.blue(`Duration: ${formatDuration(duration)}`) +
+        (reportPaths.length > 0
+          ? "\n\n" + reportPaths.map((reportPath) => chalk.white(`Report: ${reportPath}`)).join("\n")
+          : ""),
+      {
+        title: chalk.bold.blue("Suite Results"),
+        padding: 1,
+        margin: { top: 1, bottom: 1 },
+        borderStyle: "round",
+        borderColor: failed > 0 ? "red" : "green",
+      }
+    )
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Run a task for every item with at most `workers` tasks in flight at once
+ * @param items The items to process
+ * @param workers The maximum number of concurrent tasks
+ * @param task The task to run for each item
+ * @returns The task results in the same order as the items
+ */
+export async function runWithWorkerPool<T, R>(
+  items: T[],
+  workers: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(workers) || 1, items.length));
+  let nextIndex = 0;
+
+  // Each worker pulls the next item until the queue is drained. Results are
+  // stored by index so completion order does not affect the output order.
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -1,10 +1,25 @@
 import dotenv from "dotenv";
-import { browserAutomationGraph } from "./core/graph/graph";
+import { browserAutomationGraph, checkpointer, GraphStateType } from "./core/graph/graph";
 import boxen from "boxen";
 import chalk from "chalk";
 import { ConfigManager } from "./common/utils/config-manager";
 import { logger } from "./common/utils/logger";
-import { BrowserService } from "@presidio-dev/playwright-core";
+import { runWithSessionContext } from "./common/utils/session-context";
+import { BrowserService, navigate } from "@presidio-dev/playwright-core";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { Command, GraphRecursionError } from "@langchain/langgraph";
+import type {
+  InterventionDecision,
+  InterventionRequest,
+} from "./core/nodes/intervention/schemas";
+import { TEST_STATUS } from "./core/nodes/reporting/schemas";
+import { UsageTracker, type RunBudget } from "./core/models/usage-tracker";
+import {
+  RunEvents,
+  streamRunEvents,
+  type RunEvent,
+  type RunEventListener,
+} from "./core/events/run-events";
 
 // Using 'any' for Page type to avoid version conflicts between different playwright installations
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -17,6 +32,16 @@ ConfigManager.applyToEnvironment();
 // Load environment variables from .env file (lower priority than config)
 dotenv.config();
 
+// Maximum number of graph steps of a run, a run that reaches it is finished with a partial report
+const RECURSION_LIMIT = 100;
+
+/**
+ * Called when an interactive run pauses on a failed step; resolves with the operator's decision
+ */
+export type InterventionHandler = (
+  request: InterventionRequest
+) => Promise<InterventionDecision>;
+
 /**
  * Displays the FACTIFAI logo in a minimal, pretty box
  */
@@ -47,6 +72,13 @@ export const executeBrowserTask = async (
     skipPlaywright?: boolean;
     existingPage?: Page;  // Inject existing page for workflow orchestration
     scriptFormat?: 'spec' | 'module';  // Script output format: 'spec' (default) or 'module' for reusable functions
+    interactive?: boolean;  // Pause for the operator when a step fails all retries
+    onIntervention?: InterventionHandler;  // Asks the operator what to do in interactive mode
+    budget?: RunBudget;  // Wall-clock, LLM call and token limits; the run stops gracefully when one is exhausted
+    stepByStep?: boolean;  // Execute and verify one parsed step at a time against its expected result
+    onEvent?: RunEventListener;  // Receives typed progress events, see executeBrowserTaskStream
+    signal?: AbortSignal;  // Cancels this run; unfinished steps are marked cancelled in a partial report
+    sourcePath?: string;  // File the instruction was read from, @include paths are resolved relative to it
   } = {}
 ) => {
   sessionId = sessionId || `factifai-session-${Date.now()}`;
@@ -61,50 +93,501 @@ export const executeBrowserTask = async (
   }
 
   const runConfig = {
-    recursionLimit: 100,
+    recursionLimit: RECURSION_LIMIT,
     configurable: { thread_id: sessionId },
+    // Stops the graph and aborts pending model calls of this session only
+    signal: options.signal,
   };
 
+  // A fresh run starts a new history; use resumeBrowserTask to continue a previous one
+  checkpointer.deleteThread(sessionId);
+
+  UsageTracker.start(sessionId, options.budget);
+  const unsubscribe = subscribeToRun(sessionId, options.onEvent);
+  const stopClosingPages = closePagesOnCancel(sessionId, options.signal);
+  RunEvents.emit(sessionId, { type: "run_started", instruction, resumed: false });
+
   try {
-    const result = await browserAutomationGraph.invoke(
-      {
-        instruction,
+    // Run within the session context so concurrent sessions log to their own directories
+    const result = await runWithSessionContext(sessionId, () =>
+      browserAutomationGraph.invoke(
+        {
+          instruction,
+          sessionId,
+          noReport: options.noReport || false,
+          reportFormat: options.reportFormat || "both",
+          skipAnalysis: options.skipAnalysis || false,
+          skipPlaywright: options.skipPlaywright || false,
+          scriptFormat: options.scriptFormat || "spec",
+          interactive: options.interactive || false,
+          stepByStep: options.stepByStep || false,
+          sourcePath: options.sourcePath || null,
+        },
+        runConfig
+      )
+    );
+
+    return finishRun(
+      sessionId,
+      toTaskResult(
+        await resolveInterventions(sessionId, runConfig, result, options.onIntervention)
+      )
+    );
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return finishRun(
         sessionId,
-        noReport: options.noReport || false,
-        reportFormat: options.reportFormat || "both",
-        skipAnalysis: options.skipAnalysis || false,
-        skipPlaywright: options.skipPlaywright || false,
-        scriptFormat: options.scriptFormat || "spec",
+        toTaskResult(await finishCancelledRun(sessionId, options.signal))
+      );
+    }
+    if (error instanceof GraphRecursionError) {
+      return finishRun(sessionId, toTaskResult(await finishRunAtRecursionLimit(sessionId)));
+    }
+    return finishRun(sessionId, toTaskErrorResult(error));
+  } finally {
+    stopClosingPages();
+    unsubscribe();
+    UsageTracker.end(sessionId);
+  }
+};
+
+/**
+ * Run a browser task like executeBrowserTask, yielding typed progress events as they happen.
+ * The iterator ends once the run has finished and returns the task result.
+ * Breaking out of the loop cancels the run, like aborting its `signal`.
+ * @example
+ * for await (const event of executeBrowserTaskStream(instruction, sessionId)) {
+ *   if (event.type === "step_status_changed") console.log(event.stepId, event.status);
+ * }
+ */
+export const executeBrowserTaskStream = (
+  instruction: string,
+  sessionId: string,
+  options: Omit<NonNullable<Parameters<typeof executeBrowserTask>[2]>, "onEvent"> = {}
+): AsyncGenerator<RunEvent, Awaited<ReturnType<typeof executeBrowserTask>>> =>
+  streamRunEvents((onEvent, signal) =>
+    executeBrowserTask(instruction, sessionId, {
+      ...options,
+      onEvent,
+      signal: options.signal ? AbortSignal.any([options.signal, signal]) : signal,
+    })
+  );
+
+/**
+ * Resume an interrupted session from its last checkpoint.
+ * Restores the test steps, messages and browser URL, then continues from the
+ * first step that has not passed yet.
+ * @param sessionId The session ID of the interrupted run
+ * @param options Report options for the resumed run
+ */
+export const resumeBrowserTask = async (
+  sessionId: string,
+  options: {
+    noReport?: boolean;
+    reportFormat?: string;
+    skipAnalysis?: boolean;
+    skipPlaywright?: boolean;
+    interactive?: boolean;
+    onIntervention?: InterventionHandler;
+    budget?: RunBudget;
+    stepByStep?: boolean;
+    onEvent?: RunEventListener;
+    signal?: AbortSignal;
+  } = {}
+) => {
+  logger.setSessionId(sessionId);
+
+  const runConfig = {
+    recursionLimit: RECURSION_LIMIT,
+    configurable: { thread_id: sessionId },
+    // Stops the graph and aborts pending model calls of this session only
+    signal: options.signal,
+  };
+
+  // The resumed run gets a fresh budget
+  UsageTracker.start(sessionId, options.budget);
+  const unsubscribe = subscribeToRun(sessionId, options.onEvent);
+  const stopClosingPages = closePagesOnCancel(sessionId, options.signal);
+  RunEvents.emit(sessionId, { type: "run_started", instruction: null, resumed: true });
+
+  try {
+    const snapshot = await browserAutomationGraph.getState(runConfig);
+    const state = snapshot.values as Partial<GraphStateType>;
+
+    if (!state.testSteps || state.testSteps.length === 0) {
+      return finishRun(sessionId, {
+        success: false,
+        error: `No resumable checkpoint found for session: ${sessionId}`,
+        testSteps: [],
+        testSummary: null,
+        testDuration: null,
+        variables: {},
+      });
+    }
+
+    const resumeIndex = state.testSteps.findIndex(
+      (step) => step.status !== TEST_STATUS.PASSED
+    );
+
+    if (resumeIndex === -1) {
+      logger.info(`All test steps of session ${sessionId} already passed, nothing to resume`);
+      return finishRun(sessionId, toTaskResult(state));
+    }
+
+    const passedSteps = state.testSteps.slice(0, resumeIndex);
+    const testSteps = state.testSteps.map((step) =>
+      step.status === TEST_STATUS.PASSED
+        ? step
+        : { ...step, status: TEST_STATUS.NOT_STARTED }
+    );
+
+    logger.info(
+      `Resuming session ${sessionId} from step ${resumeIndex + 1}: ${
+        state.testSteps[resumeIndex].instruction
+      }`
+    );
+
+    // Restore the page the interrupted run was on
+    if (state.lastUrl && state.lastUrl !== "about:blank") {
+      const navigation = await navigate(sessionId, state.lastUrl);
+      if (!navigation.success) {
+        logger.warn(`Failed to restore browser URL ${state.lastUrl}: ${navigation.error}`);
+      }
+    }
+
+    await browserAutomationGraph.updateState(
+      runConfig,
+      {
+        testSteps,
+        currentStepIndex: resumeIndex,
+        isComplete: false,
+        lastError: null,
+        lastAction: null,
+        expectedOutcome: null,
+        retryCount: 0,
+        retryAction: "",
+        interventionRequest: null,
+        operatorHint: null,
+        abortReason: null,
+        cancelled: false,
+        testSummary: null,
+        testStartTime: null,
+        testEndTime: null,
+        testDuration: null,
+        messages: closeDanglingToolCalls(state.messages || []),
+        resumeContext:
+          `This test run was interrupted and has been resumed on ${state.lastUrl || "a new page"}. ` +
+          (passedSteps.length > 0
+            ? `These steps already passed and must not be repeated:\n${passedSteps
+                .map((step) => `${step.id}. ${step.instruction}`)
+                .join("\n")}\n`
+            : "") +
+          `Continue from step ${testSteps[resumeIndex].id}: ${testSteps[resumeIndex].instruction}`,
+        ...(options.noReport !== undefined && { noReport: options.noReport }),
+        ...(options.reportFormat !== undefined && { reportFormat: options.reportFormat }),
+        ...(options.skipAnalysis !== undefined && { skipAnalysis: options.skipAnalysis }),
+        ...(options.skipPlaywright !== undefined && { skipPlaywright: options.skipPlaywright }),
+        ...(options.interactive !== undefined && { interactive: options.interactive }),
+        ...(options.stepByStep !== undefined && { stepByStep: options.stepByStep }),
       },
-      runConfig
+      // Continue as if steps were just parsed, so the next node is execute
+      "parse"
     );
 
-    if (result.lastError) {
-      console.error("Execution failed:", result.lastError);
-      return {
-        success: false,
-        error: result.lastError,
-        testSteps: result.testSteps,
-        testSummary: result.testSummary,
-      };
+    const result = await runWithSessionContext(sessionId, () =>
+      browserAutomationGraph.invoke(null, runConfig)
+    );
+
+    return finishRun(
+      sessionId,
+      toTaskResult(
+        await resolveInterventions(sessionId, runConfig, result, options.onIntervention)
+      )
+    );
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return finishRun(
+        sessionId,
+        toTaskResult(await finishCancelledRun(sessionId, options.signal))
+      );
+    }
+    if (error instanceof GraphRecursionError) {
+      return finishRun(sessionId, toTaskResult(await finishRunAtRecursionLimit(sessionId)));
+    }
+    return finishRun(sessionId, toTaskErrorResult(error));
+  } finally {
+    stopClosingPages();
+    unsubscribe();
+    UsageTracker.end(sessionId);
+  }
+};
+
+/**
+ * Keep resuming a paused interactive run with the operator's decisions until it finishes.
+ * Without a handler the run is aborted at the first pause.
+ */
+async function resolveInterventions(
+  sessionId: string,
+  runConfig: {
+    recursionLimit: number;
+    configurable: { thread_id: string };
+    signal?: AbortSignal;
+  },
+  result: Partial<GraphStateType>,
+  onIntervention?: InterventionHandler
+): Promise<Partial<GraphStateType>> {
+  let snapshot = await browserAutomationGraph.getState(runConfig);
+
+  while (snapshot.next.length > 0) {
+    const request = snapshot.tasks
+      .flatMap((task) => task.interrupts)
+      .map((pending) => pending.value as InterventionRequest)[0];
+
+    if (!request) {
+      break;
     }
 
+    const decision: InterventionDecision = onIntervention
+      ? await onIntervention(request)
+      : { action: "abort" };
+
+    result = await runWithSessionContext(sessionId, () =>
+      browserAutomationGraph.invoke(new Command({ resume: decision }), runConfig)
+    );
+    snapshot = await browserAutomationGraph.getState(runConfig);
+  }
+
+  return result;
+}
+
+/**
+ * Close the pages of a session as soon as its run is cancelled, so in-flight browser actions stop
+ * @returns A function that stops listening for the cancellation
+ */
+function closePagesOnCancel(sessionId: string, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => {};
+  }
+
+  const closePages = () => {
+    BrowserService.getInstance()
+      .closePage(sessionId)
+      .catch((error) => logger.warn(`Failed to close pages of cancelled session ${sessionId}: ${error}`));
+  };
+  signal.addEventListener("abort", closePages, { once: true });
+  return () => signal.removeEventListener("abort", closePages);
+}
+
+/**
+ * Finish a cancelled run from its last checkpoint: unfinished steps are marked
+ * cancelled and a partial report is written without further model calls
+ */
+async function finishCancelledRun(
+  sessionId: string,
+  signal: AbortSignal
+): Promise<Partial<GraphStateType>> {
+  const reason =
+    typeof signal.reason === "string" ? `Run cancelled: ${signal.reason}` : "Run cancelled";
+  logger.warn(chalk.yellow(`${reason} (session ${sessionId})`));
+
+  return finishStoppedRun(sessionId, reason, true);
+}
+
+/**
+ * Finish a run that reached the recursion limit of the graph, e.g. a long test case split
+ * into many segments: unfinished steps are skipped and a partial report is written like
+ * for an exhausted run budget
+ */
+async function finishRunAtRecursionLimit(sessionId: string): Promise<Partial<GraphStateType>> {
+  const reason = `Run stopped at the limit of ${RECURSION_LIMIT} graph steps, split the test case into smaller ones`;
+  logger.warn(chalk.yellow(`${reason} (session ${sessionId})`));
+
+  return finishStoppedRun(sessionId, reason, false);
+}
+
+/**
+ * Mark the run of a session as stopped at its last checkpoint and run the final tracking
+ * and report, without further model calls
+ */
+async function finishStoppedRun(
+  sessionId: string,
+  reason: string,
+  cancelled: boolean
+): Promise<Partial<GraphStateType>> {
+  // Without the signal, so the final tracking and report can still run
+  const runConfig = {
+    recursionLimit: RECURSION_LIMIT,
+    configurable: { thread_id: sessionId },
+  };
+  const state = (await browserAutomationGraph.getState(runConfig))
+    .values as Partial<GraphStateType>;
+
+  // Stopped before the steps were parsed, there is nothing to report
+  if (!state.testSteps || state.testSteps.length === 0) {
+    return { ...state, abortReason: reason };
+  }
+
+  const testEndTime = Date.now();
+  await browserAutomationGraph.updateState(
+    runConfig,
+    {
+      isComplete: true,
+      cancelled,
+      abortReason: reason,
+      interventionRequest: null,
+      testEndTime,
+      testDuration: state.testStartTime ? testEndTime - state.testStartTime : null,
+    },
+    // Continue as if execution just ended, so the next nodes are track and report
+    "execute"
+  );
+
+  return runWithSessionContext(sessionId, () =>
+    browserAutomationGraph.invoke(null, runConfig)
+  );
+}
+
+/**
+ * Answer tool calls that never ran because the run was interrupted,
+ * so the resumed conversation stays valid for the model
+ */
+function closeDanglingToolCalls(messages: any[]): ToolMessage[] {
+  const lastMessage = messages[messages.length - 1];
+  if (!(lastMessage instanceof AIMessage) || !lastMessage.tool_calls?.length) {
+    return [];
+  }
+
+  return lastMessage.tool_calls.map(
+    (toolCall) =>
+      new ToolMessage({
+        tool_call_id: toolCall.id || "",
+        content: "Not executed: the run was interrupted before this action ran.",
+      })
+  );
+}
+
+/**
+ * Forward the events of a session to a listener for the duration of a run
+ * @returns A function that stops forwarding
+ */
+function subscribeToRun(sessionId: string, onEvent?: RunEventListener): () => void {
+  return onEvent ? RunEvents.subscribe(sessionId, onEvent) : () => {};
+}
+
+/**
+ * Publish the outcome of a run and pass its result through
+ */
+function finishRun<T extends { success: boolean; error?: string | null }>(
+  sessionId: string,
+  result: T
+): T {
+  RunEvents.emit(sessionId, {
+    type: "run_finished",
+    success: result.success,
+    error: result.error ?? null,
+  });
+  return result;
+}
+
+/**
+ * Convert the final graph state into the task result
+ */
+function toTaskResult(result: Partial<GraphStateType>) {
+  const error = result.lastError || result.abortReason;
+  if (error) {
+    console.error("Execution failed:", error);
     return {
-      success: true,
+      success: false,
+      error,
       testSteps: result.testSteps,
       testSummary: result.testSummary,
-    };
-  } catch (error) {
-    console.error("Execution error:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-      testSteps: [],
-      testSummary: null,
+      testDuration: result.testDuration,
+      variables: result.variables || {},
     };
   }
-};
+
+  return {
+    success: true,
+    testSteps: result.testSteps,
+    testSummary: result.testSummary,
+    testDuration: result.testDuration,
+    variables: result.variables || {},
+  };
+}
+
+/**
+ * Convert an unexpected execution error into the task result
+ */
+function toTaskErrorResult(error: unknown) {
+  console.error("Execution error:", error);
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+    testSteps: [],
+    testSummary: null,
+    testDuration: null,
+    variables: {},
+  };
+}
 
 export * from "./core/graph/graph";
+export { FileCheckpointSaver } from "./core/graph/file-checkpoint-saver";
+export { BudgetExceededError } from "./core/models/usage-tracker";
+export { RunEvents } from "./core/events/run-events";
+export type {
+  RunEvent,
+  RunEventListener,
+  RunEventPayload,
+  RunEventType,
+} from "./core/events/run-events";
+export type { RunBudget } from "./core/models/usage-tracker";
+export { ScriptedChatModel, loadModelScript, resetModelScripts } from "./core/models/fake-model";
+export type { ModelScript, ScriptedResponse } from "./core/models/fake-model";
+export { ResponseCache, clearResponseCache } from "./core/models/response-cache";
+export type { RuntimeVariables } from "./common/utils/runtime-variables";
+export type {
+  InterventionDecision,
+  InterventionRequest,
+  OperatorIntervention,
+} from "./core/nodes/intervention/schemas";
+export { runTestSuite } from "./core/runners/suite-runner";
+export { replaySession } from "./core/runners/replay-runner";
+export { executeWithFixtures } from "./core/runners/fixture-runner";
+export type {
+  FixturePhaseResult,
+  FixtureRunOptions,
+  FixtureRunResult,
+} from "./core/runners/fixture-runner";
+export { runRepeated } from "./core/runners/repeat-runner";
+export type { ReplayOptions, ReplayResult } from "./core/runners/replay-runner";
+export type { RepeatRunOptions, RepeatRunResult } from "./core/runners/repeat-runner";
+export type { StabilityReport, StabilityStepReport } from "./core/nodes/reporting/schemas";
+export type { SuiteRunOptions, SuiteRunResult } from "./core/runners/suite-runner";
+export { planTestCase } from "./core/runners/plan-runner";
+export type { PlanOptions, PlanResult } from "./core/runners/plan-runner";
+export { lintTestCases } from "./core/runners/lint-runner";
+export type { LintOptions } from "./core/runners/lint-runner";
+export type {
+  LintIssue,
+  LintReport,
+  LintTestCaseReport,
+} from "./core/nodes/reporting/schemas";
+export { checkTestCase } from "./core/nodes/parsing/test-case-checks";
+export { rateTestCase } from "./core/nodes/parsing/test-case-rating";
+export type { TestCaseRating } from "./core/nodes/parsing/test-case-rating";
+export { discoverTestFiles, loadTestCases } from "./core/loaders/test-case-loader";
+export type { TestCaseDefinition } from "./core/loaders/test-case-loader";
+export { expandTestCases, findPlaceholders, loadTestData } from "./core/loaders/test-data-loader";
+export type { TestDataRow } from "./core/loaders/test-data-loader";
+export { loadFixture, parseFixtureDirectives } from "./core/loaders/fixture-loader";
+export type { FixtureDefinition, FixtureDirectives } from "./core/loaders/fixture-loader";
+export { parseTestSpec, specToTestSteps, testStepsToSpec } from "./core/loaders/test-spec-loader";
+export type { TestSpec, TestSpecStep } from "./core/loaders/test-spec-loader";
+export { loadFeature, parseFeature } from "./core/loaders/feature-loader";
+export type { FeatureDefinition, ScenarioDefinition } from "./core/loaders/feature-loader";
+export { expandIncludes } from "./core/loaders/include-loader";
+export { interpolateReferences } from "./common/utils/interpolation";
+export { selectTestCases } from "./core/loaders/test-selection";
+export type { SkippedTestCase, TestSelection } from "./core/loaders/test-selection";
 export { BrowserService } from "@presidio-dev/playwright-core";
 export type { Page } from "@presidio-dev/playwright-core";
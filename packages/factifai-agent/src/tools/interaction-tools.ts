@@ -6,11 +6,13 @@ import {
   scrollToPrevChunk,
   scrollBy,
   getElementAtCoordinates,
+  getElementText,
 } from "@presidio-dev/playwright-core";
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
 import { logger } from "../common/utils/logger";
 import { SecretManager } from "../common/utils/secret-manager";
+import { VARIABLE_NAME_PATTERN } from "../common/utils/runtime-variables";
 
 export class InteractionTools {
   static getTools() {
@@ -187,6 +189,68 @@ export class InteractionTools {
       },
     });
 
+    const storeVariableTool = new DynamicStructuredTool({
+      name: "storeVariable",
+      description:
+        "Read the text of an element, by x,y coordinates or CSS selector, and store it as a runtime variable that later tool calls can reference as ${name}",
+      schema: z.object({
+        sessionId: z.string().describe("The browser session ID"),
+        name: z
+          .string()
+          .regex(VARIABLE_NAME_PATTERN)
+          .describe("Variable name, letters, digits and underscores (e.g. orderId)"),
+        x: z.number().optional().describe("X coordinate of the element"),
+        y: z.number().optional().describe("Y coordinate of the element"),
+        selector: z
+          .string()
+          .optional()
+          .describe("CSS selector of the element, used when no coordinates are given"),
+      }),
+      func: async (input) => {
+        const hasCoordinates = input.x !== undefined && input.y !== undefined;
+        if (!hasCoordinates && !input.selector) {
+          return JSON.stringify({
+            success: false,
+            error: "Provide the x,y coordinates or a selector of the element to read",
+          });
+        }
+
+        logger.info(`Storing variable ${input.name}`);
+        try {
+          const target = hasCoordinates
+            ? { x: input.x as number, y: input.y as number }
+            : (input.selector as string);
+          const result = await getElementText(input.sessionId, target);
+          if (!result.success) {
+            return JSON.stringify(result);
+          }
+
+          const response: Record<string, any> = {
+            success: true,
+            name: input.name,
+            value: result.text,
+          };
+
+          // Keep the element data so generated scripts can locate the element again
+          if (typeof target !== "string") {
+            const elementData = await getElementAtCoordinates(input.sessionId, target.x, target.y);
+            if (elementData.success && elementData.element) {
+              response.element = elementData.element;
+            }
+          }
+
+          return JSON.stringify(response);
+        } catch (error) {
+          logger.error("Error storing variable:", error);
+          return JSON.stringify({
+            success: false,
+            error:
+              error instanceof Error ? error.message : "Unknown store variable error",
+          });
+        }
+      },
+    });
+
     return [
       // clickBySelectorTool,
       clickByCoordinatesTool,
@@ -195,6 +259,7 @@ export class InteractionTools {
       scrollToNextChunkTool,
       scrollToPrevChunkTool,
       scrollByTool,
+      storeVariableTool,
     ];
   }
 }
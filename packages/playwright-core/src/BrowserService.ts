@@ -6,6 +6,8 @@ import { markVisibleElements, removeElementMarkers } from "./actions/navigate";
 export class BrowserService {
   private static instance: BrowserService;
   private browser: Browser | null = null;
+  // Pending launch shared by concurrent sessions so only one browser is started
+  private browserLaunch: Promise<Browser> | null = null;
   private readonly contexts: Map<string, BrowserContext> = new Map();
   // Replace single page map with an array of pages per session
   private readonly pageStacks: Map<string, Page[]> = new Map();
@@ -66,10 +68,20 @@ export class BrowserService {
   }
 
   private async initBrowser(): Promise<void> {
-    this.browser ??= await playwright.chromium.launch({
+    if (this.browser) {
+      return;
+    }
+
+    this.browserLaunch ??= playwright.chromium.launch({
       headless: false,
       args: ["--window-size=1280,720"],
     });
+
+    try {
+      this.browser = await this.browserLaunch;
+    } finally {
+      this.browserLaunch = null;
+    }
   }
 
   /**
@@ -523,3 +523,62 @@ export async function getElementAtCoordinates(
     };
   }
 }
+
+/**
+ * Reads the text of an element, using the value for form fields
+ * @param sessionId The session identifier
+ * @param selectorOrCoordinates CSS selector or coordinates of the element
+ * @returns Promise with the trimmed text of the element
+ */
+export async function getElementText(
+  sessionId: string,
+  selectorOrCoordinates: string | Coordinates
+): Promise<{ success: boolean; text?: string; error?: string }> {
+  const browserService = BrowserService.getInstance();
+
+  try {
+    const page = await browserService.getPage(sessionId);
+
+    const text = await page.evaluate((target) => {
+      const element =
+        typeof target === "string"
+          ? document.querySelector(target)
+          : document.elementFromPoint(target.x, target.y);
+      if (!element) return null;
+
+      // Inputs keep what the user sees in their value, not in their text content
+      if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement
+      ) {
+        return element.value.trim();
+      }
+
+      return ((element as HTMLElement).innerText || element.textContent || "").trim();
+    }, selectorOrCoordinates);
+
+    if (text === null) {
+      return {
+        success: false,
+        error:
+          typeof selectorOrCoordinates === "string"
+            ? `No element found for selector: ${selectorOrCoordinates}`
+            : `No element found at coordinates (${selectorOrCoordinates.x}, ${selectorOrCoordinates.y})`,
+      };
+    }
+
+    return {
+      success: true,
+      text,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unknown error reading element text",
+    };
+  }
+}
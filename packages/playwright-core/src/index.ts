@@ -21,7 +21,8 @@ export {
   scrollToPrevChunk,
   scrollBy,
   setCursorVisibility,
-  getElementAtCoordinates
+  getElementAtCoordinates,
+  getElementText
 } from "./actions/interact";
 
 export type { Page } from "playwright";